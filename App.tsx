@@ -1,367 +1,124 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { StyleSheet, View } from 'react-native';
+import React, { useState, useEffect } from 'react';
+import { Modal, StyleSheet, View } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { ThemeProvider, useThemeContext } from './contexts/ThemeContext';
-import { useAuth } from './lib/useAuth';
-import { usePremium } from './lib/usePremium';
-import {
-  loadUserData,
-  saveUserData,
-  saveErpCredentials,
-  loadErpCredentials,
-  incrementRefreshCount,
-  savePayment,
-  PaymentRecord,
-} from './lib/firestore';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { fetchAttendanceFromApi } from './lib/api';
-import { AttendanceData, StatusFilter as StatusFilterType, Timetable } from './lib/types';
+import { useAuth, describeAuthError } from './lib/useAuth';
+import { useAppStore } from './lib/useAppStore';
+import { selectIsRefreshing } from './lib/appStore';
+import { useReminders } from './lib/useReminders';
+import { UserData } from './lib/firestore';
+import { savePaymentsCsv } from './lib/account';
+import { StatusFilter as StatusFilterType } from './lib/types';
 import LoadingScreen from './components/LoadingScreen';
 import LoginScreen from './components/LoginScreen';
 import Header from './components/Header';
 import DashboardScreen from './components/DashboardScreen';
 import ThresholdModal from './components/ThresholdModal';
 import TimetableSetup from './components/TimetableSetup';
+import AcademicCalendarSetup from './components/AcademicCalendarSetup';
 import UpgradeModal from './components/UpgradeModal';
+import ReminderSettingsModal from './components/ReminderSettingsModal';
+import ImportAttendance from './components/ImportAttendance';
+import CredentialSecurityModal from './components/CredentialSecurityModal';
+import AccountModal from './components/AccountModal';
+import VerifyEmailBanner from './components/VerifyEmailBanner';
 import ErrorToast from './components/ErrorToast';
 
-const STALE_THRESHOLD_MS = 2 * 60 * 60 * 1000; // 2 hours
-
 function AppContent() {
   const { dark, colors, loaded: themeLoaded } = useThemeContext();
-  const { user, loading: authLoading, login, signUp, logout } = useAuth();
-
-  const [attendanceData, setAttendanceData] = useState<AttendanceData | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const {
+    user, loading: authLoading, emailVerified, providers, pendingLink,
+    login, signUp, signInWithGoogle, signInWithApple, cancelPendingLink, logout,
+    resetPassword, sendVerification, refreshUser, changeEmail, changePassword, loadPayments, deleteAccount,
+    linkGoogle, linkApple,
+  } = useAuth();
+
+  // Screen state only — user data lives in the app store
+  const [isAuthenticating, setIsAuthenticating] = useState(false);
   const [authError, setAuthError] = useState<string | null>(null);
   const [activeFilter, setActiveFilter] = useState<StatusFilterType>('all');
-  const [savedUsername, setSavedUsername] = useState('');
-  const [savedErpUrl, setSavedErpUrl] = useState('');
-  const [threshold, setThreshold] = useState(75);
-  const [subjectThresholds, setSubjectThresholds] = useState<Record<string, number>>({});
   const [showThresholdModal, setShowThresholdModal] = useState(false);
-  const [timetable, setTimetable] = useState<Timetable>({});
   const [showTimetableSetup, setShowTimetableSetup] = useState(false);
-  const [isInitialized, setIsInitialized] = useState(false);
-  const [isAutoRefreshing, setIsAutoRefreshing] = useState(false);
-  const [isRefreshing, setIsRefreshing] = useState(false);
-  const autoRefreshTriggered = useRef(false);
-  const dataLoadedFromFirestore = useRef(false);
-  const attendanceLoaded = useRef(false);
-  const thresholdLoaded = useRef(false);
-  const subjectThresholdsLoaded = useRef(false);
-  const timetableLoaded = useRef(false);
-
-  // Premium state
-  const [premiumUntil, setPremiumUntil] = useState<string | null>(null);
-  const [trialEndsAt, setTrialEndsAt] = useState<string | null>(null);
-  const [refreshCount, setRefreshCount] = useState(0);
-  const [refreshCountResetMonth, setRefreshCountResetMonth] = useState('');
+  const [showCalendarSetup, setShowCalendarSetup] = useState(false);
   const [showUpgradeModal, setShowUpgradeModal] = useState(false);
-
-  const premiumStatus = usePremium({ premiumUntil, trialEndsAt, refreshCount, refreshCountResetMonth });
-
-  // ── Load data from Firestore when user authenticates ──
+  const [showReminderSettings, setShowReminderSettings] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showSecurity, setShowSecurity] = useState(false);
+  const [showErpSignIn, setShowErpSignIn] = useState(false);
+  const [showAccount, setShowAccount] = useState(false);
+
+  // Open editors copy their field when it changes, which would throw away the edit
+  const editing: (keyof UserData)[] = [
+    ...(showThresholdModal ? ['threshold' as const] : []),
+    ...(showTimetableSetup ? ['timetable' as const, 'timetableRotation' as const] : []),
+    ...(showCalendarSetup ? ['academicCalendar' as const] : []),
+  ];
+
+  const { state, premiumStatus, provisionalData, syncStatus, actions } = useAppStore(user ? user.uid : null, editing);
+  const { attendanceData, threshold, subjectThresholds, timetable, timetableRotation, academicCalendar } = state;
+
+  // Reminders are device-local and kept per account
+  const reminders = useReminders({
+    uid: user ? user.uid : null,
+    enabled: !!user && state.isInitialized,
+    timetable,
+    rotation: timetableRotation,
+    calendar: academicCalendar,
+    attendance: provisionalData,
+    globalThreshold: threshold,
+    subjectThresholds,
+  });
+
+  // ── Reset screen state when the account changes ──
   useEffect(() => {
-    setAttendanceData(null);
-    setSavedUsername('');
-    setSavedErpUrl('');
     setActiveFilter('all');
-    setThreshold(75);
-    setSubjectThresholds({});
-    setTimetable({});
-    setPremiumUntil(null);
-    setTrialEndsAt(null);
-    setRefreshCount(0);
-    setRefreshCountResetMonth('');
     setShowUpgradeModal(false);
-    setIsInitialized(false);
-    setIsAutoRefreshing(false);
-    autoRefreshTriggered.current = false;
-    dataLoadedFromFirestore.current = false;
-    attendanceLoaded.current = false;
-    thresholdLoaded.current = false;
-    subjectThresholdsLoaded.current = false;
-    timetableLoaded.current = false;
-    setIsLoading(false);
-    setError(null);
     setAuthError(null);
-
-    if (!user) return;
-
-    let cancelled = false;
-
-    const storageKey = `@premiumUntil:${user.uid}`;
-
-    (async () => {
-      try {
-        const data = await loadUserData(user.uid);
-        if (cancelled) return;
-
-        if (data.attendance) setAttendanceData(data.attendance);
-        if (data.threshold != null) setThreshold(data.threshold);
-        if (data.subjectThresholds) setSubjectThresholds(data.subjectThresholds);
-        if (data.timetable) setTimetable(data.timetable);
-        if (data.erpUrl) setSavedErpUrl(data.erpUrl);
-        if (data.premiumUntil != null) {
-          setPremiumUntil(data.premiumUntil);
-          // Sync Firestore value to AsyncStorage backup
-          AsyncStorage.setItem(storageKey, data.premiumUntil).catch(() => {});
-        }
-        if (data.trialEndsAt != null) setTrialEndsAt(data.trialEndsAt);
-        if (data.refreshCount != null) setRefreshCount(data.refreshCount);
-        if (data.refreshCountResetMonth) setRefreshCountResetMonth(data.refreshCountResetMonth);
-
-        // Pre-fill saved username from encrypted credentials
-        if (data.erpCredentials) {
-          loadErpCredentials(user.uid).then(creds => {
-            if (creds && !cancelled) setSavedUsername(creds.username);
-          }).catch(() => {});
-        }
-
-        dataLoadedFromFirestore.current = true;
-      } catch {
-        // Firestore load failed — try to recover premiumUntil from AsyncStorage
-        if (!cancelled) {
-          try {
-            const cached = await AsyncStorage.getItem(storageKey);
-            if (cached) setPremiumUntil(cached);
-          } catch {
-            // AsyncStorage also failed — user will see free state
-          }
-        }
-      }
-
-      if (!cancelled) setIsInitialized(true);
-    })();
-
-    return () => { cancelled = true; };
   }, [user]);
 
-  // ── Save attendance to Firestore when it changes (skip initial load) ──
-  useEffect(() => {
-    if (!isInitialized || !user || !attendanceData) return;
-    if (!attendanceLoaded.current) { attendanceLoaded.current = true; return; }
-    saveUserData(user.uid, {
-      attendance: attendanceData,
-      lastSynced: new Date().toISOString(),
-    });
-  }, [attendanceData, isInitialized, user]);
-
-  // ── Save threshold to Firestore when it changes (skip initial load) ──
-  useEffect(() => {
-    if (!isInitialized || !user) return;
-    if (!thresholdLoaded.current) { thresholdLoaded.current = true; return; }
-    saveUserData(user.uid, { threshold });
-  }, [threshold, isInitialized, user]);
-
-  // ── Save subject thresholds to Firestore when they change (skip initial load) ──
-  useEffect(() => {
-    if (!isInitialized || !user) return;
-    if (!subjectThresholdsLoaded.current) { subjectThresholdsLoaded.current = true; return; }
-    saveUserData(user.uid, { subjectThresholds });
-  }, [subjectThresholds, isInitialized, user]);
-
-  // ── Save timetable to Firestore when it changes (skip initial load) ──
-  useEffect(() => {
-    if (!isInitialized || !user) return;
-    if (!timetableLoaded.current) { timetableLoaded.current = true; return; }
-    saveUserData(user.uid, { timetable });
-  }, [timetable, isInitialized, user]);
-
   // ── Auth handlers ──
-  const handleAuth = async (email: string, password: string, isSignUp: boolean) => {
+  const runAuth = async (task: () => Promise<unknown>) => {
     setAuthError(null);
-    setIsLoading(true);
+    setIsAuthenticating(true);
     try {
-      if (isSignUp) {
-        await signUp(email, password);
-      } else {
-        await login(email, password);
-      }
+      await task();
     } catch (err) {
-      const msg = err instanceof Error ? err.message : 'Authentication failed';
-      if (msg.includes('auth/email-already-in-use')) setAuthError('This email is already registered. Try signing in.');
-      else if (msg.includes('auth/invalid-credential') || msg.includes('auth/wrong-password') || msg.includes('auth/user-not-found')) setAuthError('Invalid email or password.');
-      else if (msg.includes('auth/weak-password')) setAuthError('Password must be at least 6 characters.');
-      else if (msg.includes('auth/invalid-email')) setAuthError('Please enter a valid email address.');
-      else if (msg.includes('auth/too-many-requests')) setAuthError('Too many attempts. Try again later.');
-      else setAuthError(msg);
+      setAuthError(describeAuthError(err));
     } finally {
-      setIsLoading(false);
+      setIsAuthenticating(false);
     }
   };
 
-  // ── Fetch attendance from ERP ──
-  const fetchAttendance = useCallback(async (erpUrl: string, username: string, password: string) => {
-    if (!user) return;
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      const result = await fetchAttendanceFromApi(erpUrl, username, password, threshold);
-
-      if (result.success && result.data) {
-        const isFirstFetch = !attendanceData;
-        setAttendanceData(result.data);
-        setSavedUsername(username);
-        setSavedErpUrl(erpUrl);
-
-        try {
-          await saveErpCredentials(user.uid, erpUrl, username, password);
-        } catch {
-          // Credential save failed silently — non-blocking
-        }
-
-        if (!isFirstFetch && !premiumStatus.isPremium) {
-          const currentMonth = `${new Date().getFullYear()}-${String(new Date().getMonth() + 1).padStart(2, '0')}`;
-          const updated = await incrementRefreshCount(user.uid, currentMonth, refreshCount, refreshCountResetMonth);
-          setRefreshCount(updated.refreshCount);
-          setRefreshCountResetMonth(updated.refreshCountResetMonth);
-        }
-      } else {
-        setError(result.error || 'Failed to fetch attendance data');
-      }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Network error — check your connection');
-    } finally {
-      setIsLoading(false);
-    }
-  }, [threshold, user, attendanceData, premiumStatus.isPremium, refreshCount, refreshCountResetMonth]);
-
-  // ── Auto-refresh callback ──
-  const autoRefresh = useCallback(async () => {
-    if (!user || !attendanceData || !premiumStatus.canRefresh) return;
-
-    setIsAutoRefreshing(true);
-    try {
-      const creds = await loadErpCredentials(user.uid);
-      if (!creds) return;
-
-      const result = await fetchAttendanceFromApi(creds.erpUrl, creds.username, creds.password, threshold);
-
-      if (result.success && result.data) {
-        setAttendanceData(result.data);
-
-        if (!premiumStatus.isPremium) {
-          const currentMonth = `${new Date().getFullYear()}-${String(new Date().getMonth() + 1).padStart(2, '0')}`;
-          const updated = await incrementRefreshCount(user.uid, currentMonth, refreshCount, refreshCountResetMonth);
-          setRefreshCount(updated.refreshCount);
-          setRefreshCountResetMonth(updated.refreshCountResetMonth);
-        }
-      }
-    } catch {
-      setError('Auto-refresh failed — pull down to try again');
-    } finally {
-      setIsAutoRefreshing(false);
-    }
-  }, [user, attendanceData, premiumStatus.canRefresh, premiumStatus.isPremium, threshold, refreshCount, refreshCountResetMonth]);
+  const handleAuth = (email: string, password: string, isSignUp: boolean) =>
+    runAuth(() => isSignUp ? signUp(email, password) : login(email, password));
 
   // ── Pull-to-refresh handler ──
-  const handlePullRefresh = useCallback(async () => {
-    if (!user || !attendanceData) return;
-
+  const handlePullRefresh = async () => {
     if (!premiumStatus.canRefresh) {
       setShowUpgradeModal(true);
       return;
     }
-
-    setIsRefreshing(true);
-    try {
-      const creds = await loadErpCredentials(user.uid);
-      if (!creds) return;
-
-      const result = await fetchAttendanceFromApi(creds.erpUrl, creds.username, creds.password, threshold);
-
-      if (result.success && result.data) {
-        setAttendanceData(result.data);
-
-        if (!premiumStatus.isPremium) {
-          const currentMonth = `${new Date().getFullYear()}-${String(new Date().getMonth() + 1).padStart(2, '0')}`;
-          const updated = await incrementRefreshCount(user.uid, currentMonth, refreshCount, refreshCountResetMonth);
-          setRefreshCount(updated.refreshCount);
-          setRefreshCountResetMonth(updated.refreshCountResetMonth);
-        }
-      }
-    } catch {
-      setError('Refresh failed — check your connection');
-    } finally {
-      setIsRefreshing(false);
-    }
-  }, [user, attendanceData, premiumStatus.canRefresh, premiumStatus.isPremium, threshold, refreshCount, refreshCountResetMonth]);
-
-  // ── Trigger auto-refresh once after initialization if data is stale ──
-  useEffect(() => {
-    if (!isInitialized || !attendanceData || autoRefreshTriggered.current) return;
-    autoRefreshTriggered.current = true;
-
-    const lastUpdated = new Date(attendanceData.lastUpdated).getTime();
-    const age = Date.now() - lastUpdated;
-
-    if (age > STALE_THRESHOLD_MS) {
-      autoRefresh();
-    }
-  }, [isInitialized, attendanceData, autoRefresh]);
+    await actions.refresh();
+  };
 
   // ── Logout ──
   const handleLogout = async () => {
-    if (user) {
-      AsyncStorage.removeItem(`@premiumUntil:${user.uid}`).catch(() => {});
-    }
-    setAttendanceData(null);
-    setSavedUsername('');
-    setSavedErpUrl('');
-    setActiveFilter('all');
-    setThreshold(75);
-    setSubjectThresholds({});
-    setTimetable({});
-    setPremiumUntil(null);
-    setTrialEndsAt(null);
-    setRefreshCount(0);
-    setRefreshCountResetMonth('');
-    setShowUpgradeModal(false);
-    setIsInitialized(false);
+    actions.clear();
     await logout();
   };
 
-  const handleThresholdSave = (newThreshold: number) => {
-    setThreshold(newThreshold);
-  };
-
-  const handlePaymentSuccess = async (newPremiumUntil: string, payment: PaymentRecord) => {
-    setPremiumUntil(newPremiumUntil);
-    if (!user) return;
-
-    // Write AsyncStorage backup immediately
-    const storageKey = `@premiumUntil:${user.uid}`;
-    AsyncStorage.setItem(storageKey, newPremiumUntil).catch(() => {});
-
-    // Try saving to Firestore with 1 retry
-    try {
-      await savePayment(user.uid, newPremiumUntil, payment);
-    } catch {
-      // Retry once after 1.5s
-      await new Promise(r => setTimeout(r, 1500));
-      try {
-        await savePayment(user.uid, newPremiumUntil, payment);
-      } catch {
-        setError('Payment saved locally but sync failed — it will retry on next launch');
-      }
-    }
+  // ── Account deletion: hand over the payment history, then sign out ──
+  // The saved file's name, or null when there's no payment history to keep
+  const handleExportPayments = async (currentPassword: string) => {
+    const payments = await loadPayments(currentPassword);
+    return payments.length > 0 ? savePaymentsCsv(payments) : null;
   };
 
-  const handleSubjectThresholdChange = (subjectKey: string, value: number | null) => {
-    setSubjectThresholds(prev => {
-      const next = { ...prev };
-      if (value === null) {
-        delete next[subjectKey];
-      } else {
-        next[subjectKey] = value;
-      }
-      return next;
-    });
+  const handleDeleteAccount = async (currentPassword: string) => {
+    await deleteAccount(currentPassword, { pause: actions.pauseSync, resume: actions.resumeSync });
+    setShowAccount(false);
+    actions.clear();
   };
 
   // ── Loading state ──
@@ -377,7 +134,12 @@ function AppContent() {
         <LoginScreen
           mode="auth"
           onAuth={handleAuth}
-          isLoading={isLoading}
+          onResetPassword={resetPassword}
+          onGoogleSignIn={(idToken) => runAuth(() => signInWithGoogle(idToken))}
+          onAppleSignIn={() => runAuth(signInWithApple)}
+          pendingLink={pendingLink}
+          onPendingLinkCancel={cancelPendingLink}
+          isLoading={isAuthenticating}
           authError={authError || undefined}
         />
       </View>
@@ -385,7 +147,7 @@ function AppContent() {
   }
 
   // ── Logged in but Firestore data still loading ──
-  if (!isInitialized) {
+  if (!state.isInitialized) {
     return <LoadingScreen />;
   }
 
@@ -396,14 +158,25 @@ function AppContent() {
         <StatusBar style={colors.statusBarStyle} />
         <LoginScreen
           mode="erp"
-          onSubmit={fetchAttendance}
-          isLoading={isLoading}
-          savedUsername={savedUsername}
-          savedErpUrl={savedErpUrl}
+          onSubmit={actions.connect}
+          isLoading={selectIsRefreshing(state, 'connect')}
+          stage={state.refresh?.stage}
+          savedUsername={state.savedUsername}
+          savedErpUrl={state.savedErpUrl}
+          savedAdapterId={state.savedAdapterId}
+          savedExtra={state.savedErpExtra}
+          savedOnDevice={state.savedOnDevice}
           onLogout={handleLogout}
+          onImportPress={() => setShowImport(true)}
+        />
+        <ImportAttendance
+          isOpen={showImport}
+          threshold={threshold}
+          onClose={() => setShowImport(false)}
+          onImport={actions.importAttendance}
         />
         <View style={styles.errorContainer}>
-          <ErrorToast message={error} onDismiss={() => setError(null)} />
+          <ErrorToast message={state.error} onDismiss={actions.dismissError} />
         </View>
       </View>
     );
@@ -417,24 +190,50 @@ function AppContent() {
           premiumStatus={premiumStatus}
           onUpgradePress={() => setShowUpgradeModal(true)}
           onTimetablePress={() => premiumStatus.isPaidPremium ? setShowTimetableSetup(true) : setShowUpgradeModal(true)}
+          onCalendarPress={() => premiumStatus.isPaidPremium ? setShowCalendarSetup(true) : setShowUpgradeModal(true)}
+          onImportPress={() => setShowImport(true)}
+          onSecurityPress={() => setShowSecurity(true)}
+          onAccountPress={() => setShowAccount(true)}
+          syncStatus={syncStatus}
+          onSyncPress={actions.retrySync}
+          onRemindersPress={() => setShowReminderSettings(true)}
           onSettingsPress={() => setShowThresholdModal(true)}
           onLogoutPress={handleLogout}
         />
+        {!emailVerified && user.email && (
+          <VerifyEmailBanner email={user.email} onResend={sendVerification} onCheck={refreshUser} />
+        )}
         <DashboardScreen
-          attendanceData={attendanceData}
+          attendanceData={provisionalData ?? attendanceData}
           threshold={threshold}
           subjectThresholds={subjectThresholds}
           activeFilter={activeFilter}
           onFilterChange={setActiveFilter}
           timetable={timetable}
+          rotation={timetableRotation}
+          calendar={academicCalendar}
+          onCalendarChange={actions.setCalendar}
+          skipPlan={state.skipPlan}
+          onSkipPlanChange={actions.setSkipPlan}
+          ledger={state.ledger}
+          onMark={actions.mark}
+          onConflictsDismiss={actions.dismissConflicts}
           premiumStatus={premiumStatus}
-          isAutoRefreshing={isAutoRefreshing}
+          refreshProgress={state.refresh}
+          onRefreshCancel={actions.cancelRefresh}
           onThresholdModalOpen={() => setShowThresholdModal(true)}
           onTimetableSetupOpen={() => setShowTimetableSetup(true)}
+          onCalendarSetupOpen={() => setShowCalendarSetup(true)}
           onUpgradeModalOpen={() => setShowUpgradeModal(true)}
-          onSubjectThresholdChange={handleSubjectThresholdChange}
+          onSubjectThresholdChange={actions.setSubjectThreshold}
           onRefresh={handlePullRefresh}
-          isRefreshing={isRefreshing}
+          isRefreshing={selectIsRefreshing(state, 'pull')}
+          history={state.history}
+          syncDiff={state.syncDiff}
+          onSyncDiffDismiss={actions.dismissSyncDiff}
+          loginUnavailable={state.loginUnavailable}
+          onErpSignInOpen={() => setShowErpSignIn(true)}
+          onSecurityOpen={() => setShowSecurity(true)}
         />
 
       {/* Modals */}
@@ -442,32 +241,101 @@ function AppContent() {
         isOpen={showThresholdModal}
         currentThreshold={threshold}
         onClose={() => setShowThresholdModal(false)}
-        onSave={handleThresholdSave}
+        onSave={actions.setThreshold}
       />
 
       <TimetableSetup
         isOpen={showTimetableSetup}
         onClose={() => setShowTimetableSetup(false)}
-        onSave={setTimetable}
+        onSave={actions.setTimetable}
         subjects={attendanceData.subjects}
         currentTimetable={timetable}
+        currentRotation={timetableRotation}
         isPremium={premiumStatus.isPaidPremium}
         onUpgradePress={() => { setShowTimetableSetup(false); setShowUpgradeModal(true); }}
       />
 
+      <AcademicCalendarSetup
+        isOpen={showCalendarSetup}
+        calendar={academicCalendar}
+        onClose={() => setShowCalendarSetup(false)}
+        onSave={actions.setCalendar}
+      />
+
+      <ReminderSettingsModal
+        isOpen={showReminderSettings}
+        settings={reminders.settings}
+        subjects={attendanceData.subjects}
+        onClose={() => setShowReminderSettings(false)}
+        onSave={reminders.updateSettings}
+      />
+
+      <ImportAttendance
+        isOpen={showImport}
+        threshold={threshold}
+        onClose={() => setShowImport(false)}
+        onImport={actions.importAttendance}
+      />
+
+      <CredentialSecurityModal
+        isOpen={showSecurity}
+        uid={user.uid}
+        onClose={() => setShowSecurity(false)}
+        onLoginUnlocked={actions.loginUnlocked}
+      />
+
+      <AccountModal
+        isOpen={showAccount}
+        email={user.email ?? ''}
+        emailVerified={emailVerified}
+        providers={providers}
+        onClose={() => setShowAccount(false)}
+        onChangeEmail={changeEmail}
+        onChangePassword={changePassword}
+        onExportPayments={handleExportPayments}
+        onDeleteAccount={handleDeleteAccount}
+        onLinkGoogle={linkGoogle}
+        onLinkApple={linkApple}
+      />
+
+      {/* Entering the ERP login on a device that doesn't have it; closes once it works */}
+      <Modal
+        visible={showErpSignIn && state.loginUnavailable !== null}
+        animationType="slide"
+        onRequestClose={() => setShowErpSignIn(false)}
+      >
+        <LoginScreen
+          mode="erp"
+          onSubmit={actions.connect}
+          isLoading={selectIsRefreshing(state, 'connect')}
+          stage={state.refresh?.stage}
+          savedUsername={state.savedUsername}
+          savedErpUrl={state.savedErpUrl}
+          savedAdapterId={state.savedAdapterId}
+          savedExtra={state.savedErpExtra}
+          savedOnDevice={state.savedOnDevice}
+          onLogout={handleLogout}
+          onCancel={() => setShowErpSignIn(false)}
+          onImportPress={() => { setShowErpSignIn(false); setShowImport(true); }}
+        />
+        <View style={styles.errorContainer}>
+          <ErrorToast message={state.error} onDismiss={actions.dismissError} />
+        </View>
+      </Modal>
+
       <UpgradeModal
         isOpen={showUpgradeModal}
         onClose={() => setShowUpgradeModal(false)}
         premiumStatus={premiumStatus}
         uid={user.uid}
         email={user.email || ''}
-        currentPremiumUntil={premiumUntil}
-        onPaymentSuccess={handlePaymentSuccess}
+        currentPremiumUntil={state.premiumUntil}
+        onPaymentSuccess={actions.purchasePremium}
       />
 
       {/* Error toast */}
       <View style={styles.errorContainer}>
-        <ErrorToast message={error} onDismiss={() => setError(null)} />
+        <ErrorToast message={state.error} onDismiss={actions.dismissError} />
       </View>
     </View>
   );
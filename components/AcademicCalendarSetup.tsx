@@ -0,0 +1,524 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+  StyleSheet,
+  Pressable,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system/legacy';
+import { useThemeContext } from '../contexts/ThemeContext';
+import { AcademicCalendar, CalendarEventKind } from '../lib/types';
+import {
+  EVENT_KIND_LABELS,
+  getEventDates,
+  mergeCalendars,
+  parseIcs,
+  sortEvents,
+} from '../lib/academicCalendar';
+import { formatDateStr, parseDateStr } from '../lib/dates';
+import CalendarPicker from './CalendarPicker';
+
+const INDIGO = '#6366f1';
+const EVENT_KINDS: CalendarEventKind[] = ['holiday', 'exam', 'break'];
+
+const KIND_COLORS: Record<CalendarEventKind, string> = {
+  holiday: '#f59e0b',
+  exam: '#ef4444',
+  break: '#10b981',
+};
+
+type PickerTarget = 'semester' | 'event' | null;
+
+interface AcademicCalendarSetupProps {
+  isOpen: boolean;
+  calendar: AcademicCalendar;
+  onClose: () => void;
+  onSave: (calendar: AcademicCalendar) => void;
+}
+
+function formatShortDate(dateStr: string): string {
+  return parseDateStr(dateStr).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+function formatRange(start: string, end: string): string {
+  return start === end ? formatShortDate(start) : `${formatShortDate(start)} — ${formatShortDate(end)}`;
+}
+
+export default function AcademicCalendarSetup({
+  isOpen,
+  calendar,
+  onClose,
+  onSave,
+}: AcademicCalendarSetupProps) {
+  const { colors } = useThemeContext();
+  const [draft, setDraft] = useState(calendar);
+  const [picker, setPicker] = useState<PickerTarget>(null);
+  const [rangeStart, setRangeStart] = useState<Date | null>(null);
+  const [rangeEnd, setRangeEnd] = useState<Date | null>(null);
+  const [newKind, setNewKind] = useState<CalendarEventKind>('holiday');
+  const [newTitle, setNewTitle] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(calendar);
+      setPicker(null);
+      setRangeStart(null);
+      setRangeEnd(null);
+      setNewKind('holiday');
+      setNewTitle('');
+      setImporting(false);
+      setMessage('');
+    }
+  }, [isOpen, calendar]);
+
+  // Semesters are set up after they start, so allow picking past dates
+  const minDate = useMemo(() => {
+    const d = new Date();
+    d.setFullYear(d.getFullYear() - 1);
+    return d;
+  }, []);
+
+  const eventDates = useMemo(() => getEventDates(draft), [draft]);
+
+  const openPicker = (target: PickerTarget) => {
+    if (target === 'semester' && draft.semesterStart && draft.semesterEnd) {
+      setRangeStart(parseDateStr(draft.semesterStart));
+      setRangeEnd(parseDateStr(draft.semesterEnd));
+    } else {
+      setRangeStart(null);
+      setRangeEnd(null);
+    }
+    setPicker(picker === target ? null : target);
+  };
+
+  const handleSelectRange = (start: Date | null, end: Date | null) => {
+    setRangeStart(start);
+    setRangeEnd(end);
+    if (picker === 'semester' && start && end) {
+      setDraft(prev => ({ ...prev, semesterStart: formatDateStr(start), semesterEnd: formatDateStr(end) }));
+      setPicker(null);
+    }
+  };
+
+  const handleAddEvent = () => {
+    if (!rangeStart) return;
+    const start = formatDateStr(rangeStart);
+    const end = formatDateStr(rangeEnd ?? rangeStart);
+    setDraft(prev => ({
+      ...prev,
+      events: sortEvents([
+        ...prev.events,
+        {
+          id: `custom-${start}-${Date.now()}`,
+          kind: newKind,
+          title: newTitle.trim() || EVENT_KIND_LABELS[newKind],
+          start,
+          end,
+        },
+      ]),
+    }));
+    setNewTitle('');
+    setRangeStart(null);
+    setRangeEnd(null);
+    setPicker(null);
+  };
+
+  const handleRemoveEvent = (id: string) => {
+    setDraft(prev => ({ ...prev, events: prev.events.filter(e => e.id !== id) }));
+  };
+
+  const handleImport = async () => {
+    setMessage('');
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ['text/calendar', 'application/octet-stream', 'text/plain'],
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled || !result.assets || result.assets.length === 0) return;
+
+    setImporting(true);
+    try {
+      const text = await FileSystem.readAsStringAsync(result.assets[0].uri);
+      const imported = parseIcs(text);
+      const found = imported.events.length + (imported.semesterStart ? 1 : 0) + (imported.semesterEnd ? 1 : 0);
+      if (found === 0) {
+        setMessage('No calendar events found in that file');
+        return;
+      }
+      setDraft(prev => mergeCalendars(prev, imported));
+      setMessage(`Imported ${imported.events.length} ${imported.events.length === 1 ? 'event' : 'events'}`);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Unknown error';
+      setMessage(`Could not read file: ${msg}`);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleSave = () => {
+    onSave(draft);
+    onClose();
+  };
+
+  const pillStyle = (active: boolean) => [
+    styles.pill,
+    active
+      ? { backgroundColor: INDIGO, borderColor: INDIGO }
+      : { backgroundColor: colors.inputBg, borderColor: colors.inputBorder },
+  ];
+
+  return (
+    <Modal
+      visible={isOpen}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable
+          style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+          onPress={() => {}}
+        >
+          <View style={styles.titleRow}>
+            <Text style={[styles.title, { color: colors.text }]}>Academic Calendar</Text>
+            <TouchableOpacity
+              onPress={handleImport}
+              style={[styles.importButton, { backgroundColor: colors.inputBg, borderColor: colors.inputBorder }]}
+              disabled={importing}
+              accessibilityLabel="Import .ics file"
+              accessibilityRole="button"
+            >
+              {importing
+                ? <ActivityIndicator size="small" color={colors.accent} />
+                : <Ionicons name="download-outline" size={14} color={colors.accent} />}
+              <Text style={[styles.importText, { color: colors.accent }]}>Import .ics</Text>
+            </TouchableOpacity>
+          </View>
+          {message ? (
+            <Text style={[styles.message, { color: colors.textSecondary }]}>{message}</Text>
+          ) : null}
+
+          <ScrollView style={styles.scroll} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            {/* Semester bounds */}
+            <Text style={[styles.sectionTitle, { color: colors.textTertiary }]}>SEMESTER</Text>
+            <TouchableOpacity
+              onPress={() => openPicker('semester')}
+              style={[styles.rangeBox, { backgroundColor: colors.inputBg, borderColor: picker === 'semester' ? colors.accent : colors.inputBorder }]}
+              accessibilityLabel="Set semester dates"
+              accessibilityRole="button"
+            >
+              <Ionicons name="calendar-outline" size={14} color={colors.accent} />
+              <Text style={[styles.rangeText, { color: draft.semesterStart ? colors.text : colors.textTertiary }]}>
+                {draft.semesterStart && draft.semesterEnd
+                  ? formatRange(draft.semesterStart, draft.semesterEnd)
+                  : 'Set start and end dates'}
+              </Text>
+            </TouchableOpacity>
+            {picker === 'semester' && (
+              <View style={styles.pickerWrapper}>
+                <CalendarPicker
+                  startDate={rangeStart}
+                  endDate={rangeEnd}
+                  onSelectDate={handleSelectRange}
+                  holidays={eventDates}
+                  onToggleHoliday={() => {}}
+                  minDate={minDate}
+                />
+              </View>
+            )}
+
+            {/* Events */}
+            <Text style={[styles.sectionTitle, styles.sectionGap, { color: colors.textTertiary }]}>
+              HOLIDAYS, EXAMS & BREAKS
+            </Text>
+            {draft.events.length === 0 ? (
+              <Text style={[styles.emptyText, { color: colors.textTertiary }]}>
+                No events yet. Import your college's .ics or add them below.
+              </Text>
+            ) : (
+              draft.events.map(event => (
+                <View key={event.id} style={[styles.eventRow, { borderBottomColor: colors.divider }]}>
+                  <View style={[styles.kindDot, { backgroundColor: KIND_COLORS[event.kind] }]} />
+                  <View style={styles.eventInfo}>
+                    <Text style={[styles.eventTitle, { color: colors.text }]} numberOfLines={1}>
+                      {event.title}
+                    </Text>
+                    <Text style={[styles.eventDates, { color: colors.textTertiary }]}>
+                      {EVENT_KIND_LABELS[event.kind]} · {formatRange(event.start, event.end)}
+                    </Text>
+                  </View>
+                  <TouchableOpacity
+                    onPress={() => handleRemoveEvent(event.id)}
+                    hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                    accessibilityLabel={`Remove ${event.title}`}
+                    accessibilityRole="button"
+                  >
+                    <Ionicons name="trash-outline" size={16} color={colors.textTertiary} />
+                  </TouchableOpacity>
+                </View>
+              ))
+            )}
+
+            {/* Add event */}
+            <Text style={[styles.sectionTitle, styles.sectionGap, { color: colors.textTertiary }]}>ADD EVENT</Text>
+            <View style={styles.pillRow}>
+              {EVENT_KINDS.map(kind => (
+                <TouchableOpacity
+                  key={kind}
+                  onPress={() => setNewKind(kind)}
+                  style={pillStyle(newKind === kind)}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: newKind === kind }}
+                >
+                  <Text style={[styles.pillText, { color: newKind === kind ? '#ffffff' : colors.textSecondary }]}>
+                    {EVENT_KIND_LABELS[kind]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TextInput
+              value={newTitle}
+              onChangeText={setNewTitle}
+              placeholder={`Name (e.g. ${newKind === 'exam' ? 'Mid-sem exams' : newKind === 'break' ? 'Mid-sem break' : 'Diwali'})`}
+              placeholderTextColor={colors.textTertiary}
+              style={[styles.input, { color: colors.text, backgroundColor: colors.inputBg, borderColor: colors.inputBorder }]}
+            />
+            <TouchableOpacity
+              onPress={() => openPicker('event')}
+              style={[styles.rangeBox, { backgroundColor: colors.inputBg, borderColor: picker === 'event' ? colors.accent : colors.inputBorder }]}
+              accessibilityLabel="Pick event dates"
+              accessibilityRole="button"
+            >
+              <Ionicons name="calendar-outline" size={14} color={colors.accent} />
+              <Text style={[styles.rangeText, { color: rangeStart ? colors.text : colors.textTertiary }]}>
+                {rangeStart && picker !== 'semester'
+                  ? formatRange(formatDateStr(rangeStart), formatDateStr(rangeEnd ?? rangeStart))
+                  : 'Pick a date or range'}
+              </Text>
+            </TouchableOpacity>
+            {picker === 'event' && (
+              <View style={styles.pickerWrapper}>
+                <CalendarPicker
+                  startDate={rangeStart}
+                  endDate={rangeEnd}
+                  onSelectDate={handleSelectRange}
+                  holidays={eventDates}
+                  onToggleHoliday={() => {}}
+                  minDate={minDate}
+                />
+              </View>
+            )}
+            <TouchableOpacity
+              onPress={handleAddEvent}
+              disabled={!rangeStart || picker === 'semester'}
+              style={[styles.addButton, { borderColor: colors.accent }, (!rangeStart || picker === 'semester') && { opacity: 0.4 }]}
+              accessibilityLabel="Add event"
+              accessibilityRole="button"
+            >
+              <Ionicons name="add" size={16} color={colors.accent} />
+              <Text style={[styles.addText, { color: colors.accent }]}>Add event</Text>
+            </TouchableOpacity>
+          </ScrollView>
+
+          {/* Action Buttons */}
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.cancelButton, { borderColor: colors.inputBorder }]}
+              onPress={onClose}
+              activeOpacity={0.7}
+              accessibilityLabel="Cancel"
+              accessibilityRole="button"
+            >
+              <Text style={[styles.cancelText, { color: colors.textSecondary }]}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.saveButton}
+              onPress={handleSave}
+              activeOpacity={0.7}
+              accessibilityLabel="Save academic calendar"
+              accessibilityRole="button"
+            >
+              <Text style={styles.saveText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 420,
+    maxHeight: '88%',
+    borderRadius: 20,
+    padding: 24,
+    borderWidth: 1,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+    gap: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  importButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  importText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  message: {
+    fontSize: 12,
+    marginBottom: 8,
+  },
+  scroll: {
+    flexGrow: 0,
+  },
+  sectionTitle: {
+    fontSize: 10,
+    fontWeight: '600',
+    letterSpacing: 1.2,
+    marginBottom: 8,
+  },
+  sectionGap: {
+    marginTop: 16,
+  },
+  rangeBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    height: 40,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  rangeText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  pickerWrapper: {
+    marginTop: 8,
+  },
+  emptyText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  eventRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    gap: 10,
+  },
+  kindDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  eventInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  eventTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  eventDates: {
+    fontSize: 11,
+  },
+  pillRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  pill: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  pillText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  input: {
+    height: 40,
+    borderRadius: 10,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    height: 40,
+    borderRadius: 10,
+    borderWidth: 1,
+    marginTop: 8,
+  },
+  addText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+  },
+  cancelButton: {
+    flex: 1,
+    height: 48,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cancelText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  saveButton: {
+    flex: 1,
+    height: 48,
+    borderRadius: 12,
+    backgroundColor: INDIGO,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  saveText: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,435 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  StyleSheet,
+  Pressable,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useThemeContext } from '../contexts/ThemeContext';
+import { describeAuthError } from '../lib/useAuth';
+import { isAppleSignInAvailable, PROVIDER_LABELS } from '../lib/federatedAuth';
+import { SignInProvider } from '../lib/types';
+import GoogleSignInButton from './GoogleSignInButton';
+
+const INDIGO = '#6366f1';
+const DANGER = '#ef4444';
+
+type Section = 'email' | 'password' | 'delete';
+
+interface AccountModalProps {
+  isOpen: boolean;
+  email: string;
+  emailVerified: boolean;
+  providers: SignInProvider[];
+  onClose: () => void;
+  onChangeEmail: (currentPassword: string, newEmail: string) => Promise<void>;
+  onChangePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  // Saves payment history to a file, resolving to its name, or null if there's none
+  onExportPayments: (currentPassword: string) => Promise<string | null>;
+  // The app signs out after
+  onDeleteAccount: (currentPassword: string) => Promise<void>;
+  onLinkGoogle: (idToken: string) => Promise<void>;
+  // Resolves to false if the user backs out of Apple's sheet
+  onLinkApple: () => Promise<boolean>;
+}
+
+export default function AccountModal({
+  isOpen,
+  email,
+  emailVerified,
+  providers,
+  onClose,
+  onChangeEmail,
+  onChangePassword,
+  onExportPayments,
+  onDeleteAccount,
+  onLinkGoogle,
+  onLinkApple,
+}: AccountModalProps) {
+  const { colors } = useThemeContext();
+  const [section, setSection] = useState<Section | null>(null);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [value, setValue] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  // The payment history file saved on the way to deleting the account
+  const [exportedAs, setExportedAs] = useState<string | null>(null);
+  const [appleAvailable, setAppleAvailable] = useState(false);
+  // Accounts without a password confirm sensitive changes by a recent sign-in
+  const hasPassword = providers.includes('password');
+
+  useEffect(() => {
+    if (isOpen) setSection(null);
+  }, [isOpen]);
+
+  useEffect(() => {
+    isAppleSignInAvailable().then(setAppleAvailable).catch(() => {});
+  }, []);
+
+  const openSection = (target: Section | null) => {
+    setCurrentPassword('');
+    setValue('');
+    setMessage(null);
+    setExportedAs(null);
+    setSection(target);
+  };
+
+  // Resolves to the message to show, or null to stay where the user is
+  const run = async (task: () => Promise<string | null>) => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      const done = await task();
+      if (done === null) return;
+      setSection(null);
+      setMessage({ text: done, isError: false });
+    } catch (err) {
+      setMessage({ text: describeAuthError(err), isError: true });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    if (hasPassword && !currentPassword) { setMessage({ text: 'Enter your current password.', isError: true }); return; }
+    if (section === 'email') {
+      const next = value.trim();
+      if (!next) { setMessage({ text: 'Enter your new email address.', isError: true }); return; }
+      run(async () => {
+        await onChangeEmail(currentPassword, next);
+        return `We sent a link to ${next}. Your email changes once you open it.`;
+      });
+    } else if (section === 'password') {
+      if (value.length < 6) { setMessage({ text: 'Password must be at least 6 characters.', isError: true }); return; }
+      run(async () => {
+        await onChangePassword(currentPassword, value);
+        return 'Password changed.';
+      });
+    } else if (section === 'delete') {
+      if (value !== 'DELETE') { setMessage({ text: 'Type DELETE to confirm.', isError: true }); return; }
+      run(async () => {
+        // With payments on record, deleting waits until the user says the file is safe
+        const saved = await onExportPayments(currentPassword);
+        if (saved !== null) {
+          setExportedAs(saved);
+          return null;
+        }
+        await onDeleteAccount(currentPassword);
+        return 'Your account was deleted.';
+      });
+    }
+  };
+
+  const handleConfirmDelete = () => run(async () => {
+    await onDeleteAccount(currentPassword);
+    return 'Your account was deleted.';
+  });
+
+  const inputStyle = [styles.input, { backgroundColor: colors.inputBg, borderColor: colors.inputBorder, color: colors.text }];
+
+  const renderRow = (target: Section, icon: React.ComponentProps<typeof Ionicons>['name'], label: string, danger = false) => (
+    <TouchableOpacity
+      style={[styles.row, { borderTopColor: colors.divider }]}
+      onPress={() => openSection(section === target ? null : target)}
+      disabled={isBusy}
+      accessibilityRole="button"
+    >
+      <Ionicons name={icon} size={18} color={danger ? DANGER : colors.textSecondary} />
+      <Text style={[styles.rowLabel, { color: danger ? DANGER : colors.text }]}>{label}</Text>
+      <Ionicons name={section === target ? 'chevron-up' : 'chevron-down'} size={16} color={colors.textTertiary} />
+    </TouchableOpacity>
+  );
+
+  const renderForm = () => (
+    <View style={styles.form}>
+      {section === 'delete' && (
+        <Text style={[styles.warning, { color: colors.textSecondary }]}>
+          This deletes your attendance, history, timetable, settings and saved ERP login for good. If you've paid for
+          Pro, your payment history is saved to a file first so you can keep the receipts. Remaining Pro time is not
+          refunded.
+        </Text>
+      )}
+      {hasPassword && (
+        <TextInput
+          style={inputStyle}
+          value={currentPassword}
+          onChangeText={setCurrentPassword}
+          placeholder="Current password"
+          placeholderTextColor={colors.textTertiary}
+          secureTextEntry
+          autoCapitalize="none"
+          autoCorrect={false}
+          editable={!isBusy}
+        />
+      )}
+      <TextInput
+        style={inputStyle}
+        value={value}
+        onChangeText={setValue}
+        placeholder={section === 'email' ? 'New email' : section === 'password' ? 'New password' : 'Type DELETE to confirm'}
+        placeholderTextColor={colors.textTertiary}
+        secureTextEntry={section === 'password'}
+        keyboardType={section === 'email' ? 'email-address' : 'default'}
+        autoCapitalize={section === 'delete' ? 'characters' : 'none'}
+        autoCorrect={false}
+        editable={!isBusy}
+      />
+      <TouchableOpacity
+        style={[styles.submit, { backgroundColor: section === 'delete' ? DANGER : INDIGO }, isBusy && styles.disabled]}
+        onPress={handleSubmit}
+        disabled={isBusy}
+        accessibilityRole="button"
+      >
+        {isBusy ? (
+          <ActivityIndicator color="#ffffff" />
+        ) : (
+          <Text style={styles.submitText}>
+            {section === 'email' ? 'Send verification link' : section === 'password' ? 'Change password' : 'Delete my account'}
+          </Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderSavedExport = () => (
+    <View style={styles.form}>
+      <Text style={[styles.warning, { color: colors.textSecondary }]}>
+        Your payment history was saved as {exportedAs}. Check that you can open it before you go on: once your account
+        is deleted, it can't be exported again.
+      </Text>
+      <TouchableOpacity
+        style={[styles.linkButton, styles.saveAgain, { borderColor: colors.inputBorder, backgroundColor: colors.inputBg }]}
+        onPress={handleSubmit}
+        disabled={isBusy}
+        accessibilityRole="button"
+      >
+        <Ionicons name="download-outline" size={18} color={colors.text} />
+        <Text style={[styles.linkText, { color: colors.text }]}>Save it again</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={[styles.submit, { backgroundColor: DANGER }, isBusy && styles.disabled]}
+        onPress={handleConfirmDelete}
+        disabled={isBusy}
+        accessibilityRole="button"
+      >
+        {isBusy ? (
+          <ActivityIndicator color="#ffffff" />
+        ) : (
+          <Text style={styles.submitText}>I've saved it, delete my account</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={isOpen}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.overlay} onPress={isBusy ? undefined : onClose}>
+        <Pressable
+          style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+          onPress={() => {}}
+        >
+          <Text style={[styles.title, { color: colors.text }]}>Account</Text>
+
+          <ScrollView style={styles.scroll} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            <Text style={[styles.email, { color: colors.text }]}>{email}</Text>
+            {hasPassword && (
+              <Text style={[styles.verified, { color: emailVerified ? colors.textTertiary : DANGER }]}>
+                {emailVerified ? 'Verified' : 'Not verified yet'}
+              </Text>
+            )}
+
+            <Text style={[styles.sectionLabel, { color: colors.textSecondary }]}>Sign in with</Text>
+            <Text style={[styles.providerList, { color: colors.text }]}>
+              {providers.map(p => PROVIDER_LABELS[p]).join(', ')}
+            </Text>
+            <View style={styles.linkOptions}>
+              {!providers.includes('google') && (
+                <GoogleSignInButton
+                  label="Add Google"
+                  disabled={isBusy}
+                  onIdToken={(idToken) => run(async () => {
+                    await onLinkGoogle(idToken);
+                    return 'Google added. You can sign in with it from now on.';
+                  })}
+                />
+              )}
+              {appleAvailable && !providers.includes('apple') && (
+                <TouchableOpacity
+                  style={[styles.linkButton, { borderColor: colors.inputBorder, backgroundColor: colors.inputBg }]}
+                  onPress={() => run(async () => (
+                    await onLinkApple() ? 'Apple added. You can sign in with it from now on.' : null
+                  ))}
+                  disabled={isBusy}
+                  accessibilityRole="button"
+                >
+                  <Ionicons name="logo-apple" size={18} color={colors.text} />
+                  <Text style={[styles.linkText, { color: colors.text }]}>Add Apple</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+
+            {hasPassword && renderRow('email', 'mail-outline', 'Change email')}
+            {section === 'email' && renderForm()}
+            {hasPassword && renderRow('password', 'key-outline', 'Change password')}
+            {section === 'password' && renderForm()}
+            {renderRow('delete', 'trash-outline', 'Delete account', true)}
+            {section === 'delete' && (exportedAs === null ? renderForm() : renderSavedExport())}
+
+            {message && (
+              <Text style={[styles.message, { color: message.isError ? DANGER : colors.textSecondary }]}>{message.text}</Text>
+            )}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={styles.doneButton}
+            onPress={onClose}
+            disabled={isBusy}
+            activeOpacity={0.7}
+            accessibilityLabel="Done"
+            accessibilityRole="button"
+          >
+            <Text style={styles.doneText}>Done</Text>
+          </TouchableOpacity>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '85%',
+    borderRadius: 20,
+    padding: 24,
+    borderWidth: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginBottom: 12,
+  },
+  scroll: {
+    flexGrow: 0,
+  },
+  email: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  verified: {
+    fontSize: 12,
+    marginTop: 2,
+    marginBottom: 12,
+  },
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginTop: 8,
+  },
+  providerList: {
+    fontSize: 14,
+    marginTop: 4,
+  },
+  linkOptions: {
+    gap: 10,
+    marginTop: 12,
+    marginBottom: 12,
+  },
+  linkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderRadius: 10,
+    minHeight: 48,
+    paddingVertical: 12,
+  },
+  linkText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  saveAgain: {
+    marginTop: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 14,
+    borderTopWidth: 1,
+  },
+  rowLabel: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  form: {
+    paddingBottom: 12,
+  },
+  warning: {
+    fontSize: 13,
+    lineHeight: 19,
+    marginBottom: 4,
+  },
+  input: {
+    height: 44,
+    borderRadius: 10,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    fontSize: 15,
+    marginTop: 8,
+  },
+  submit: {
+    height: 44,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 12,
+  },
+  submitText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  message: {
+    fontSize: 13,
+    marginTop: 12,
+  },
+  doneButton: {
+    height: 48,
+    borderRadius: 12,
+    backgroundColor: INDIGO,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 20,
+  },
+  doneText: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -10,6 +10,7 @@ import {
   Platform,
   UIManager,
 } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
 import { useThemeContext } from '../contexts/ThemeContext';
 import { Subject } from '../lib/types';
 import {
@@ -41,6 +42,7 @@ interface AttendanceCardProps {
   onThresholdChange: (value: number | null) => void;
   isPremium?: boolean;
   onUpgradePress?: () => void;
+  onHistoryPress?: () => void;
 }
 
 function clamp(value: number, min: number, max: number): number {
@@ -54,6 +56,7 @@ export default function AttendanceCard({
   onThresholdChange,
   isPremium = false,
   onUpgradePress,
+  onHistoryPress,
 }: AttendanceCardProps) {
   const { dark, colors } = useThemeContext();
   const [editing, setEditing] = useState(false);
@@ -282,6 +285,20 @@ export default function AttendanceCard({
               </Text>
             </TouchableOpacity>
           ) : null}
+
+          {onHistoryPress ? (
+            <TouchableOpacity
+              onPress={onHistoryPress}
+              style={styles.historyButton}
+              accessibilityLabel={`Attendance history for ${name}`}
+              accessibilityRole="button"
+            >
+              <Ionicons name="trending-up-outline" size={14} color={colors.accent} />
+              <Text style={[styles.historyText, { color: colors.accent }]}>
+                History
+              </Text>
+            </TouchableOpacity>
+          ) : null}
         </View>
 
         {/* Inline threshold editor */}
@@ -549,6 +566,18 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '500',
   },
+  historyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginLeft: 'auto',
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+  },
+  historyText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
   editorCard: {
     marginTop: 12,
     borderRadius: 12,
@@ -0,0 +1,176 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  StyleSheet,
+} from 'react-native';
+import { useThemeContext } from '../contexts/ThemeContext';
+import { CUSTOM_ADAPTER, ErpAdapter, searchAdapters } from '../lib/erpAdapters';
+
+const MAX_RESULTS = 8;
+
+interface CollegePickerProps {
+  adapters: ErpAdapter[];
+  isLoading: boolean;
+  selected: ErpAdapter;
+  onSelect: (adapter: ErpAdapter) => void;
+  disabled?: boolean;
+}
+
+export default function CollegePicker({ adapters, isLoading, selected, onSelect, disabled }: CollegePickerProps) {
+  const { colors } = useThemeContext();
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+
+  const results = useMemo(() => searchAdapters(adapters, query).slice(0, MAX_RESULTS), [adapters, query]);
+
+  const choose = (adapter: ErpAdapter) => {
+    onSelect(adapter);
+    setIsOpen(false);
+    setQuery('');
+  };
+
+  const inputColors = {
+    backgroundColor: colors.inputBg,
+    borderColor: colors.inputBorder,
+    color: colors.text,
+  };
+
+  if (!isOpen) {
+    return (
+      <TouchableOpacity
+        style={[styles.input, styles.selected, inputColors]}
+        onPress={() => setIsOpen(true)}
+        disabled={disabled}
+        activeOpacity={0.7}
+        accessibilityRole="button"
+        accessibilityLabel={`College: ${selected.college}. Change`}
+      >
+        <View style={styles.selectedText}>
+          <Text style={[styles.college, { color: colors.text }]} numberOfLines={1}>
+            {selected.college}
+          </Text>
+          {selected.vendor ? (
+            <Text style={[styles.vendor, { color: colors.textTertiary }]} numberOfLines={1}>
+              {selected.vendor}
+            </Text>
+          ) : null}
+        </View>
+        <Text style={[styles.change, { color: colors.accent }]}>Change</Text>
+      </TouchableOpacity>
+    );
+  }
+
+  return (
+    <View>
+      <TextInput
+        style={[styles.input, inputColors]}
+        placeholder="Search your college"
+        placeholderTextColor={colors.textTertiary}
+        value={query}
+        onChangeText={setQuery}
+        autoCorrect={false}
+        autoFocus
+      />
+      <View style={[styles.results, { borderColor: colors.inputBorder }]}>
+        {results.map(adapter => (
+          <TouchableOpacity
+            key={adapter.id}
+            style={[styles.result, { borderBottomColor: colors.divider }]}
+            onPress={() => choose(adapter)}
+            accessibilityRole="button"
+          >
+            <Text style={[styles.college, { color: colors.text }]} numberOfLines={1}>
+              {adapter.college}
+            </Text>
+            {adapter.vendor ? (
+              <Text style={[styles.vendor, { color: colors.textTertiary }]} numberOfLines={1}>
+                {adapter.vendor}
+              </Text>
+            ) : null}
+          </TouchableOpacity>
+        ))}
+
+        {isLoading && adapters.length === 0 ? (
+          <View style={styles.status}>
+            <ActivityIndicator size="small" color={colors.accent} />
+            <Text style={[styles.vendor, { color: colors.textTertiary }]}>Loading colleges...</Text>
+          </View>
+        ) : results.length === 0 ? (
+          <View style={styles.status}>
+            <Text style={[styles.vendor, { color: colors.textTertiary }]}>
+              {query.trim() ? `No colleges match "${query.trim()}"` : 'No colleges available offline'}
+            </Text>
+          </View>
+        ) : null}
+
+        <TouchableOpacity
+          style={styles.result}
+          onPress={() => choose(CUSTOM_ADAPTER)}
+          accessibilityRole="button"
+        >
+          <Text style={[styles.college, { color: colors.accent }]}>
+            My college isn't listed
+          </Text>
+          <Text style={[styles.vendor, { color: colors.textTertiary }]}>
+            Enter your ERP address yourself
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 16,
+  },
+  selected: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  selectedText: {
+    flex: 1,
+  },
+  college: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  vendor: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  change: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  results: {
+    borderWidth: 1,
+    borderRadius: 10,
+    marginTop: 6,
+    overflow: 'hidden',
+  },
+  result: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'transparent',
+    minHeight: 44,
+    justifyContent: 'center',
+  },
+  status: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+  },
+});
@@ -0,0 +1,369 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Switch,
+  StyleSheet,
+  Pressable,
+  ActivityIndicator,
+} from 'react-native';
+import { useThemeContext } from '../contexts/ThemeContext';
+import {
+  loadErpCredentials,
+  loadVaultStatus,
+  saveCredentialStorage,
+  saveVaultPassphrase,
+  VaultStatus,
+} from '../lib/firestore';
+import { getBiometricUnlock, isBiometricAvailable, setBiometricUnlock, UnlockCancelledError } from '../lib/credentialVault';
+import { CredentialStorage, ErpLogin } from '../lib/types';
+
+const INDIGO = '#6366f1';
+const MIN_PASSPHRASE_LENGTH = 8;
+
+interface CredentialSecurityModalProps {
+  isOpen: boolean;
+  uid: string;
+  onClose: () => void;
+  onLoginUnlocked: (login: ErpLogin) => void;
+}
+
+const STATUS_TEXT: Record<VaultStatus, string> = {
+  none: 'No ERP login is saved yet. Once you connect, it is encrypted with a key kept on this device.',
+  locked: 'Your ERP login is saved but locked on this device. Unlock it with your vault passphrase, or sign in to your ERP again.',
+  unlocked: 'Your ERP login is encrypted and unlocked on this device.',
+  elsewhere: "Your ERP login is kept only on the device you saved it on, so this device can't refresh on its own. Sign in to your ERP here to refresh from this device too.",
+};
+
+export default function CredentialSecurityModal({ isOpen, uid, onClose, onLoginUnlocked }: CredentialSecurityModalProps) {
+  const { dark, colors } = useThemeContext();
+  const [status, setStatus] = useState<VaultStatus | null>(null);
+  const [hasPassphrase, setHasPassphrase] = useState(false);
+  const [storage, setStorage] = useState<CredentialStorage>('cloud');
+  const [biometricAvailable, setBiometricAvailable] = useState(false);
+  const [biometric, setBiometric] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setStatus(null);
+    setPassphrase('');
+    setMessage(null);
+    Promise.all([loadVaultStatus(uid), isBiometricAvailable(), getBiometricUnlock(uid)]).then(([vault, available, enabled]) => {
+      if (cancelled) return;
+      setStatus(vault.status);
+      setHasPassphrase(vault.hasPassphrase);
+      setStorage(vault.storage);
+      setBiometricAvailable(available);
+      setBiometric(enabled);
+    }).catch(err => {
+      if (cancelled) return;
+      setMessage(err instanceof UnlockCancelledError
+        ? 'Unlock your saved login to see its settings.'
+        : 'Could not check your saved login. Check your connection and try again.');
+    });
+    return () => { cancelled = true; };
+  }, [isOpen, uid]);
+
+  const run = async (task: () => Promise<string>) => {
+    setIsBusy(true);
+    try {
+      setMessage(await task());
+    } catch (err) {
+      setMessage(err instanceof UnlockCancelledError
+        ? 'Unlock cancelled, so nothing was changed.'
+        : 'Something went wrong. Check your connection and try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleUnlock = () => run(async () => {
+    const login = await loadErpCredentials(uid, passphrase);
+    if (!login || typeof login === 'string') return "That passphrase didn't unlock your login.";
+    onLoginUnlocked(login);
+    setStatus('unlocked');
+    setPassphrase('');
+    return 'Unlocked. This device can now refresh on its own.';
+  });
+
+  const handleSetPassphrase = (next: string | null) => run(async () => {
+    if (next !== null && next.length < MIN_PASSPHRASE_LENGTH) {
+      return `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`;
+    }
+    if (!await saveVaultPassphrase(uid, next)) return 'Unlock your login on this device first.';
+    setHasPassphrase(next !== null);
+    setPassphrase('');
+    return next ? 'Passphrase saved.' : 'Passphrase removed.';
+  });
+
+  const handleStorage = (localOnly: boolean) => run(async () => {
+    const next = localOnly ? 'device' : 'cloud';
+    if (!await saveCredentialStorage(uid, next)) {
+      return 'Your login has to be usable on this device to move it. Unlock it here, or switch from the device you saved it on.';
+    }
+    const vault = await loadVaultStatus(uid);
+    setStorage(vault.storage);
+    setStatus(vault.status);
+    setHasPassphrase(vault.hasPassphrase);
+    return localOnly
+      ? 'Your login is now kept only on this device, and the cloud copy was deleted.'
+      : 'Your login is now encrypted in your account, and the copy on this device was deleted.';
+  });
+
+  // The saved login is rewritten under the new protection, which can prompt
+  const handleBiometric = (enabled: boolean) => run(async () => {
+    await setBiometricUnlock(uid, enabled);
+    setBiometric(enabled);
+    return enabled ? 'Your login now needs Face ID or a fingerprint to use.' : 'Biometric unlock turned off.';
+  });
+
+  const switchColors = {
+    trackColor: {
+      false: dark ? '#475569' : '#cbd5e1',
+      true: dark ? 'rgba(165, 180, 252, 0.5)' : 'rgba(99, 102, 241, 0.4)',
+    },
+  };
+
+  return (
+    <Modal
+      visible={isOpen}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable
+          style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+          onPress={() => {}}
+        >
+          <Text style={[styles.title, { color: colors.text }]}>Credential Security</Text>
+
+          <ScrollView style={styles.scroll} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            {status === null && !message ? (
+              <ActivityIndicator color={colors.accent} style={styles.loading} />
+            ) : status !== null && (
+              <>
+                <Text style={[styles.statusText, { color: colors.textSecondary }]}>{STATUS_TEXT[status]}</Text>
+
+                {/* Never upload the login at all */}
+                <View style={[styles.settingRow, styles.sectionGap]}>
+                  <View style={styles.settingText}>
+                    <Text style={[styles.settingLabel, { color: colors.text }]}>Keep on this device only</Text>
+                    <Text style={[styles.settingHint, { color: colors.textTertiary }]}>
+                      Your ERP login is never uploaded. Other devices can't refresh until you sign in to your ERP on them too.
+                    </Text>
+                  </View>
+                  <Switch
+                    value={storage === 'device'}
+                    onValueChange={handleStorage}
+                    disabled={isBusy}
+                    {...switchColors}
+                  />
+                </View>
+
+                {/* Unlock on a new device, or set the passphrase that allows it */}
+                {storage === 'cloud' && ((status === 'locked' && hasPassphrase) || status === 'unlocked') ? (
+                  <>
+                    <Text style={[styles.sectionTitle, styles.sectionGap, { color: colors.textTertiary }]}>
+                      VAULT PASSPHRASE
+                    </Text>
+                    <Text style={[styles.settingHint, { color: colors.textTertiary }]}>
+                      {status === 'locked'
+                        ? 'Enter the passphrase you set on another device.'
+                        : hasPassphrase
+                          ? 'Set. A new phone can open your saved login with it. UniTrack cannot recover it for you.'
+                          : 'Optional. Lets a new phone open your saved login without your ERP password. UniTrack cannot recover it for you.'}
+                    </Text>
+                    <TextInput
+                      style={[styles.input, { backgroundColor: colors.inputBg, borderColor: colors.inputBorder, color: colors.text }]}
+                      value={passphrase}
+                      onChangeText={setPassphrase}
+                      placeholder={status === 'locked' ? 'Vault passphrase' : hasPassphrase ? 'New passphrase' : 'Choose a passphrase'}
+                      placeholderTextColor={colors.textTertiary}
+                      secureTextEntry
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                      editable={!isBusy}
+                    />
+                    <View style={styles.buttonRow}>
+                      <TouchableOpacity
+                        style={[styles.smallButton, (!passphrase || isBusy) && styles.disabled]}
+                        onPress={() => (status === 'locked' ? handleUnlock() : handleSetPassphrase(passphrase))}
+                        disabled={!passphrase || isBusy}
+                        accessibilityRole="button"
+                      >
+                        <Text style={styles.smallButtonText}>
+                          {status === 'locked' ? 'Unlock' : hasPassphrase ? 'Change' : 'Set passphrase'}
+                        </Text>
+                      </TouchableOpacity>
+                      {status === 'unlocked' && hasPassphrase && (
+                        <TouchableOpacity
+                          style={[styles.smallButtonOutline, { borderColor: colors.inputBorder }, isBusy && styles.disabled]}
+                          onPress={() => handleSetPassphrase(null)}
+                          disabled={isBusy}
+                          accessibilityRole="button"
+                        >
+                          <Text style={[styles.smallButtonOutlineText, { color: colors.textSecondary }]}>Remove</Text>
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                  </>
+                ) : null}
+
+                {biometricAvailable && (
+                  <View style={[styles.settingRow, styles.sectionGap]}>
+                    <View style={styles.settingText}>
+                      <Text style={[styles.settingLabel, { color: colors.text }]}>Biometric unlock</Text>
+                      <Text style={[styles.settingHint, { color: colors.textTertiary }]}>
+                        Ask for Face ID or a fingerprint before your saved login is used to refresh
+                      </Text>
+                    </View>
+                    <Switch value={biometric} onValueChange={handleBiometric} disabled={isBusy} {...switchColors} />
+                  </View>
+                )}
+              </>
+            )}
+
+            {message && <Text style={[styles.message, { color: colors.textSecondary }]}>{message}</Text>}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={styles.doneButton}
+            onPress={onClose}
+            activeOpacity={0.7}
+            accessibilityLabel="Done"
+            accessibilityRole="button"
+          >
+            <Text style={styles.doneText}>Done</Text>
+          </TouchableOpacity>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '85%',
+    borderRadius: 20,
+    padding: 24,
+    borderWidth: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginBottom: 12,
+  },
+  scroll: {
+    flexGrow: 0,
+  },
+  loading: {
+    marginVertical: 24,
+  },
+  statusText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  sectionGap: {
+    marginTop: 16,
+  },
+  sectionTitle: {
+    fontSize: 10,
+    fontWeight: '600',
+    letterSpacing: 1.2,
+    marginBottom: 4,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    gap: 12,
+  },
+  settingText: {
+    flex: 1,
+  },
+  settingLabel: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  settingHint: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  input: {
+    height: 44,
+    borderRadius: 10,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    fontSize: 15,
+    marginTop: 10,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 10,
+  },
+  smallButton: {
+    paddingHorizontal: 16,
+    height: 36,
+    borderRadius: 10,
+    backgroundColor: INDIGO,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  smallButtonText: {
+    color: '#ffffff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  smallButtonOutline: {
+    paddingHorizontal: 16,
+    height: 36,
+    borderRadius: 10,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  smallButtonOutlineText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  message: {
+    fontSize: 13,
+    marginTop: 12,
+  },
+  doneButton: {
+    height: 48,
+    borderRadius: 12,
+    backgroundColor: INDIGO,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 20,
+  },
+  doneText: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { View, Text, ScrollView, RefreshControl, TouchableOpacity, ActivityIndicator, StyleSheet } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useThemeContext } from '../contexts/ThemeContext';
@@ -9,10 +9,26 @@ import AttendanceCard from './AttendanceCard';
 import TodayCard from './TodayCard';
 import WeekOverview from './WeekOverview';
 import VacationPlanner from './VacationPlanner';
+import ForecastCard from './ForecastCard';
+import SkipPlanner from './SkipPlanner';
 import PremiumGate from './PremiumGate';
-import { AttendanceData, StatusFilter as StatusFilterType, Timetable, Subject } from '../lib/types';
+import SubjectTimeline from './SubjectTimeline';
+import SyncDiffCard from './SyncDiffCard';
+import LedgerCard from './LedgerCard';
+import LoginNoticeCard from './LoginNoticeCard';
+import { AcademicCalendar, AttendanceData, AttendanceLedger, AttendanceSnapshot, MarkStatus, SkipPlan, StatusFilter as StatusFilterType, Timetable, TimetableRotation, TimetableSlot, Subject, UnavailableLogin } from '../lib/types';
 import { calculateStatus, getSubjectKey, getEffectiveThreshold } from '../lib/utils';
 import { PremiumStatus } from '../lib/usePremium';
+import { AttendanceDiff } from '../lib/attendanceDiff';
+import { hasAnyClasses } from '../lib/timetable';
+import { RefreshPhase, RefreshProgress } from '../lib/refreshService';
+import { FETCH_STAGE_LABELS } from '../lib/api';
+
+const PHASE_LABELS: Record<RefreshPhase, string> = {
+  credentials: 'Preparing refresh...',
+  fetching: 'Updating attendance data...',
+  saving: 'Saving new figures...',
+};
 
 interface DashboardScreenProps {
   attendanceData: AttendanceData;
@@ -21,14 +37,30 @@ interface DashboardScreenProps {
   activeFilter: StatusFilterType;
   onFilterChange: (filter: StatusFilterType) => void;
   timetable: Timetable;
+  rotation: TimetableRotation | null;
+  calendar: AcademicCalendar;
+  onCalendarChange: (calendar: AcademicCalendar) => void;
+  skipPlan: SkipPlan | null;
+  onSkipPlanChange: (plan: SkipPlan | null) => void;
+  ledger: AttendanceLedger;
+  onMark: (dateStr: string, slot: TimetableSlot, status: MarkStatus | null) => void;
+  onConflictsDismiss: () => void;
   premiumStatus: PremiumStatus;
-  isAutoRefreshing: boolean;
+  refreshProgress: RefreshProgress | null;
+  onRefreshCancel: () => void;
   onThresholdModalOpen: () => void;
   onTimetableSetupOpen: () => void;
+  onCalendarSetupOpen: () => void;
   onUpgradeModalOpen: () => void;
   onSubjectThresholdChange: (subjectKey: string, value: number | null) => void;
   onRefresh: () => Promise<void>;
   isRefreshing: boolean;
+  history: AttendanceSnapshot[];
+  syncDiff: AttendanceDiff | null;
+  onSyncDiffDismiss: () => void;
+  loginUnavailable: UnavailableLogin | null;
+  onErpSignInOpen: () => void;
+  onSecurityOpen: () => void;
 }
 
 export default function DashboardScreen({
@@ -38,16 +70,33 @@ export default function DashboardScreen({
   activeFilter,
   onFilterChange,
   timetable,
+  rotation,
+  calendar,
+  onCalendarChange,
+  skipPlan,
+  onSkipPlanChange,
+  ledger,
+  onMark,
+  onConflictsDismiss,
   premiumStatus,
-  isAutoRefreshing,
+  refreshProgress,
+  onRefreshCancel,
   onThresholdModalOpen,
   onTimetableSetupOpen,
+  onCalendarSetupOpen,
   onUpgradeModalOpen,
   onSubjectThresholdChange,
   onRefresh,
   isRefreshing,
+  history,
+  syncDiff,
+  onSyncDiffDismiss,
+  loginUnavailable,
+  onErpSignInOpen,
+  onSecurityOpen,
 }: DashboardScreenProps) {
   const { dark, colors } = useThemeContext();
+  const [timelineSubject, setTimelineSubject] = useState<Subject | null>(null);
 
   const getSubjectStatus = (subject: Subject) => {
     const t = getEffectiveThreshold(subject, threshold, subjectThresholds);
@@ -70,7 +119,7 @@ export default function DashboardScreen({
   const customCount = Object.keys(subjectThresholds).length;
 
   // Timetable
-  const hasTimetable = Object.values(timetable).some(codes => codes.length > 0);
+  const hasTimetable = hasAnyClasses(timetable, rotation);
   const subjectMap = useMemo(() => new Map(attendanceData.subjects.map(s => [getSubjectKey(s), s])), [attendanceData.subjects]);
 
   return (
@@ -94,14 +143,37 @@ export default function DashboardScreen({
         lastUpdated={attendanceData.lastUpdated}
       />
 
-      {/* Auto-refresh indicator */}
-      {isAutoRefreshing && (
+      {/* Refresh progress */}
+      {refreshProgress && (
         <View style={[styles.autoRefreshBanner, { backgroundColor: dark ? 'rgba(165, 180, 252, 0.15)' : 'rgba(99, 102, 241, 0.1)', borderColor: dark ? 'rgba(165, 180, 252, 0.25)' : 'rgba(99, 102, 241, 0.2)' }]}>
           <ActivityIndicator size="small" color={colors.accent} />
-          <Text style={[styles.autoRefreshText, { color: colors.accent }]}>Updating attendance data...</Text>
+          <Text style={[styles.autoRefreshText, { color: colors.accent }]}>{refreshProgress.stage ? FETCH_STAGE_LABELS[refreshProgress.stage] : PHASE_LABELS[refreshProgress.phase]}</Text>
+          {refreshProgress.phase !== 'saving' && (
+            <TouchableOpacity
+              onPress={onRefreshCancel}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              accessibilityLabel="Cancel refresh"
+              accessibilityRole="button"
+            >
+              <Text style={[styles.autoRefreshCancel, { color: colors.textSecondary }]}>Cancel</Text>
+            </TouchableOpacity>
+          )}
         </View>
       )}
 
+      {/* Why this device can't refresh on its own */}
+      {loginUnavailable && (
+        <LoginNoticeCard reason={loginUnavailable} onSignIn={onErpSignInOpen} onUnlock={onSecurityOpen} />
+      )}
+
+      {/* What changed in the last refresh */}
+      {syncDiff && <SyncDiffCard diff={syncDiff} onDismiss={onSyncDiffDismiss} />}
+
+      {/* Manual marks waiting for the ERP */}
+      {(ledger.marks.length > 0 || ledger.conflicts.length > 0) && (
+        <LedgerCard ledger={ledger} subjectMap={subjectMap} onConflictsDismiss={onConflictsDismiss} />
+      )}
+
       {/* Today's Classes / Timetable Setup prompt */}
       {hasTimetable ? (
         <PremiumGate
@@ -112,6 +184,11 @@ export default function DashboardScreen({
         >
           <TodayCard
             timetable={timetable}
+            rotation={rotation}
+            calendar={calendar}
+            skipPlan={skipPlan}
+            ledger={ledger}
+            onMark={onMark}
             subjectMap={subjectMap}
             globalThreshold={threshold}
             subjectThresholds={subjectThresholds}
@@ -119,6 +196,7 @@ export default function DashboardScreen({
           <View style={{ marginTop: 12 }}>
             <WeekOverview
               timetable={timetable}
+              rotation={rotation}
               subjects={attendanceData.subjects}
               globalThreshold={threshold}
               subjectThresholds={subjectThresholds}
@@ -127,11 +205,38 @@ export default function DashboardScreen({
           <View style={{ marginTop: 12 }}>
             <VacationPlanner
               timetable={timetable}
+              rotation={rotation}
+              calendar={calendar}
+              onCalendarChange={onCalendarChange}
+              subjectMap={subjectMap}
+              globalThreshold={threshold}
+              subjectThresholds={subjectThresholds}
+            />
+          </View>
+          <View style={{ marginTop: 12 }}>
+            <SkipPlanner
+              timetable={timetable}
+              rotation={rotation}
+              calendar={calendar}
+              skipPlan={skipPlan}
+              onSkipPlanChange={onSkipPlanChange}
               subjectMap={subjectMap}
               globalThreshold={threshold}
               subjectThresholds={subjectThresholds}
             />
           </View>
+          <View style={{ marginTop: 12 }}>
+            <ForecastCard
+              subjects={attendanceData.subjects}
+              timetable={timetable}
+              rotation={rotation}
+              calendar={calendar}
+              history={history}
+              globalThreshold={threshold}
+              subjectThresholds={subjectThresholds}
+              onCalendarPress={onCalendarSetupOpen}
+            />
+          </View>
         </PremiumGate>
       ) : (
         <TouchableOpacity
@@ -233,6 +338,7 @@ export default function DashboardScreen({
               onThresholdChange={(value) => onSubjectThresholdChange(key, value)}
               isPremium={premiumStatus.isPaidPremium}
               onUpgradePress={onUpgradeModalOpen}
+              onHistoryPress={() => setTimelineSubject(subject)}
             />
           );
         })
@@ -252,6 +358,13 @@ export default function DashboardScreen({
 
       {/* Bottom spacing */}
       <View style={{ height: 24 }} />
+
+      <SubjectTimeline
+        subject={timelineSubject}
+        threshold={timelineSubject ? getEffectiveThreshold(timelineSubject, threshold, subjectThresholds) : threshold}
+        history={history}
+        onClose={() => setTimelineSubject(null)}
+      />
     </ScrollView>
   );
 }
@@ -274,8 +387,13 @@ const styles = StyleSheet.create({
     borderWidth: 1,
   },
   autoRefreshText: {
+    flex: 1,
     fontSize: 13,
   },
+  autoRefreshCancel: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
   timetablePrompt: {
     flexDirection: 'row',
     alignItems: 'center',
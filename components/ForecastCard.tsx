@@ -0,0 +1,298 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useThemeContext } from '../contexts/ThemeContext';
+import { AcademicCalendar, AttendanceSnapshot, Subject, Timetable, TimetableRotation } from '../lib/types';
+import { getStatusHexColor } from '../lib/utils';
+import { forecastSemester, ForecastScenario } from '../lib/forecast';
+import { parseDateStr } from '../lib/dates';
+
+interface ForecastCardProps {
+  subjects: Subject[];
+  timetable: Timetable;
+  rotation: TimetableRotation | null;
+  calendar: AcademicCalendar;
+  history: AttendanceSnapshot[];
+  globalThreshold: number;
+  subjectThresholds: Record<string, number>;
+  onCalendarPress: () => void;
+}
+
+const SCENARIOS: { key: ForecastScenario; label: string }[] = [
+  { key: 'attend_all', label: 'Attend all' },
+  { key: 'recent_rate', label: 'Recent pace' },
+  { key: 'skip_per_week', label: 'Skip' },
+];
+
+const MAX_SKIPS_PER_WEEK = 5;
+
+function formatPct(pct: number): string {
+  return `${parseFloat(pct.toFixed(1))}%`;
+}
+
+export default function ForecastCard({
+  subjects,
+  timetable,
+  rotation,
+  calendar,
+  history,
+  globalThreshold,
+  subjectThresholds,
+  onCalendarPress,
+}: ForecastCardProps) {
+  const { dark, colors } = useThemeContext();
+  const [scenario, setScenario] = useState<ForecastScenario>('attend_all');
+  const [skipsPerWeek, setSkipsPerWeek] = useState(1);
+
+  const forecast = useMemo(
+    () => forecastSemester(
+      subjects, timetable, rotation, calendar, history,
+      globalThreshold, subjectThresholds, skipsPerWeek, scenario,
+    ),
+    [subjects, timetable, rotation, calendar, history, globalThreshold, subjectThresholds, skipsPerWeek, scenario],
+  );
+
+  const cardBase = {
+    backgroundColor: colors.card,
+    borderColor: colors.cardBorder,
+  };
+
+  if (!forecast) {
+    return (
+      <TouchableOpacity
+        style={[styles.card, cardBase, styles.promptRow]}
+        onPress={onCalendarPress}
+        activeOpacity={0.7}
+        accessibilityLabel="Set semester end date"
+        accessibilityRole="button"
+      >
+        <View style={styles.promptText}>
+          <Text style={[styles.label, { color: colors.textTertiary }]}>END-OF-SEMESTER FORECAST</Text>
+          <Text style={[styles.promptTitle, { color: colors.text }]}>Set your semester end date</Text>
+          <Text style={[styles.promptSub, { color: colors.textTertiary }]}>
+            See where each subject will finish and how many classes you can still skip
+          </Text>
+        </View>
+        <Ionicons name="chevron-forward" size={18} color={colors.textTertiary} />
+      </TouchableOpacity>
+    );
+  }
+
+  const weeks = Math.round(forecast.weeksLeft);
+  const endLabel = parseDateStr(forecast.semesterEnd).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' });
+
+  return (
+    <View style={[styles.card, cardBase]}>
+      <Text style={[styles.label, { color: colors.textTertiary }]}>END-OF-SEMESTER FORECAST</Text>
+
+      <Text style={[styles.summary, { color: colors.text }]}>
+        {forecast.totalRemaining} {forecast.totalRemaining === 1 ? 'class' : 'classes'} left until {endLabel}
+        {weeks > 0 ? ` (~${weeks} ${weeks === 1 ? 'week' : 'weeks'})` : ''}
+      </Text>
+      <Text style={[styles.summarySub, { color: colors.textSecondary }]}>
+        You can skip up to {forecast.maxTotalSkips} more in total and still finish every subject above its threshold
+      </Text>
+
+      {/* Scenario picker */}
+      <View style={styles.scenarioRow}>
+        {SCENARIOS.map(({ key, label }) => {
+          const active = scenario === key;
+          return (
+            <TouchableOpacity
+              key={key}
+              onPress={() => setScenario(key)}
+              style={[
+                styles.scenarioPill,
+                {
+                  backgroundColor: active
+                    ? colors.accent
+                    : dark ? 'rgba(148, 163, 184, 0.12)' : 'rgba(148, 163, 184, 0.15)',
+                },
+              ]}
+              activeOpacity={0.7}
+              accessibilityRole="button"
+              accessibilityState={{ selected: active }}
+            >
+              <Text style={[styles.scenarioText, { color: active ? '#ffffff' : colors.textSecondary }]}>
+                {key === 'skip_per_week' ? `${label} ${skipsPerWeek}/wk` : label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {scenario === 'skip_per_week' && (
+        <View style={styles.stepperRow}>
+          <Text style={[styles.stepperLabel, { color: colors.textSecondary }]}>Classes skipped per subject each week</Text>
+          <View style={styles.stepper}>
+            <TouchableOpacity
+              onPress={() => setSkipsPerWeek(n => Math.max(1, n - 1))}
+              style={[styles.stepButton, { backgroundColor: colors.inputBg, borderColor: colors.inputBorder }]}
+              accessibilityLabel="Skip fewer per week"
+              accessibilityRole="button"
+            >
+              <Ionicons name="remove" size={14} color={colors.text} />
+            </TouchableOpacity>
+            <Text style={[styles.stepValue, { color: colors.text }]}>{skipsPerWeek}</Text>
+            <TouchableOpacity
+              onPress={() => setSkipsPerWeek(n => Math.min(MAX_SKIPS_PER_WEEK, n + 1))}
+              style={[styles.stepButton, { backgroundColor: colors.inputBg, borderColor: colors.inputBorder }]}
+              accessibilityLabel="Skip more per week"
+              accessibilityRole="button"
+            >
+              <Ionicons name="add" size={14} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      <View style={[styles.divider, { backgroundColor: colors.divider }]} />
+
+      {forecast.subjects.map((f, idx) => {
+        const projected = f.projected[scenario];
+        const color = getStatusHexColor(f.status, dark);
+        return (
+          <View
+            key={f.code}
+            style={[styles.row, idx > 0 && { borderTopWidth: 1, borderTopColor: colors.divider }]}
+          >
+            <View style={styles.rowLeft}>
+              <Text style={[styles.name, { color: colors.text }]} numberOfLines={1}>{f.name}</Text>
+              <Text style={[styles.detail, { color: colors.textTertiary }]}>
+                {f.isNoData
+                  ? 'No classes yet'
+                  : `${f.remaining} left · can skip ${f.maxSkips}`}
+              </Text>
+            </View>
+            {!f.isNoData && (
+              <View style={styles.rowRight}>
+                <Text style={[styles.currentPct, { color: colors.textTertiary }]}>{formatPct(f.currentPct)}</Text>
+                <Ionicons name="arrow-forward" size={11} color={colors.textTertiary} />
+                <Text style={[styles.projectedPct, { color }]}>{formatPct(projected)}</Text>
+              </View>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+  },
+  label: {
+    fontSize: 10,
+    fontWeight: '600',
+    letterSpacing: 1.2,
+    textTransform: 'uppercase',
+    marginBottom: 10,
+  },
+  promptRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  promptText: {
+    flex: 1,
+  },
+  promptTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  promptSub: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  summary: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  summarySub: {
+    fontSize: 12,
+    marginTop: 4,
+    lineHeight: 17,
+  },
+  scenarioRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 14,
+  },
+  scenarioPill: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 20,
+  },
+  scenarioText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 10,
+    gap: 12,
+  },
+  stepperLabel: {
+    fontSize: 12,
+    flex: 1,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  stepButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepValue: {
+    fontSize: 14,
+    fontWeight: '700',
+    minWidth: 16,
+    textAlign: 'center',
+  },
+  divider: {
+    height: 1,
+    marginTop: 14,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    gap: 12,
+  },
+  rowLeft: {
+    flex: 1,
+    gap: 2,
+  },
+  name: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  detail: {
+    fontSize: 11,
+  },
+  rowRight: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  currentPct: {
+    fontSize: 12,
+  },
+  projectedPct: {
+    fontSize: 14,
+    fontWeight: '700',
+    minWidth: 44,
+    textAlign: 'right',
+  },
+});
@@ -0,0 +1,67 @@
+import React from 'react';
+import { Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Google from 'expo-auth-session/providers/google';
+import * as WebBrowser from 'expo-web-browser';
+import { useThemeContext } from '../contexts/ThemeContext';
+import { GOOGLE_CLIENT_IDS } from '../lib/config';
+import { getGoogleClientId } from '../lib/federatedAuth';
+
+// Closes the popup on web when Google redirects back into the app
+WebBrowser.maybeCompleteAuthSession();
+
+interface GoogleSignInButtonProps {
+  label: string;
+  onIdToken: (idToken: string) => void;
+  disabled?: boolean;
+}
+
+// The auth request hook throws without a client ID for the platform
+export default function GoogleSignInButton(props: GoogleSignInButtonProps) {
+  return getGoogleClientId() ? <GoogleButton {...props} /> : null;
+}
+
+function GoogleButton({ label, onIdToken, disabled }: GoogleSignInButtonProps) {
+  const { colors } = useThemeContext();
+  const [request, , promptAsync] = Google.useIdTokenAuthRequest({
+    webClientId: GOOGLE_CLIENT_IDS.web || undefined,
+    iosClientId: GOOGLE_CLIENT_IDS.ios || undefined,
+    androidClientId: GOOGLE_CLIENT_IDS.android || undefined,
+  });
+
+  const handlePress = async () => {
+    const result = await promptAsync();
+    if (result.type === 'success' && result.params.id_token) onIdToken(result.params.id_token);
+  };
+
+  return (
+    <TouchableOpacity
+      style={[styles.button, { borderColor: colors.inputBorder, backgroundColor: colors.inputBg }]}
+      onPress={handlePress}
+      disabled={disabled || !request}
+      activeOpacity={0.8}
+      accessibilityRole="button"
+      accessibilityLabel={label}
+    >
+      <Ionicons name="logo-google" size={18} color={colors.text} />
+      <Text style={[styles.text, { color: colors.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderRadius: 10,
+    minHeight: 48,
+    paddingVertical: 12,
+  },
+  text: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -14,6 +14,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useThemeContext } from '../contexts/ThemeContext';
 import { PremiumStatus } from '../lib/usePremium';
+import { SyncStatus } from '../lib/writeQueue';
 
 const THEME_HINT_KEY = '@unitrack_theme_hint_shown';
 
@@ -21,12 +22,33 @@ interface HeaderProps {
   premiumStatus: PremiumStatus;
   onUpgradePress: () => void;
   onTimetablePress: () => void;
+  onCalendarPress: () => void;
+  onImportPress: () => void;
+  onSecurityPress: () => void;
+  onAccountPress: () => void;
+  syncStatus: SyncStatus;
+  onSyncPress: () => void;
+  onRemindersPress: () => void;
   onSettingsPress: () => void;
   onLogoutPress: () => void;
 }
 
 const INDIGO = '#6366f1';
 
+const SYNC_ICONS: Record<SyncStatus, keyof typeof Ionicons.glyphMap> = {
+  synced: 'cloud-done-outline',
+  pending: 'cloud-upload-outline',
+  syncing: 'cloud-upload-outline',
+  offline: 'cloud-offline-outline',
+};
+
+const SYNC_LABELS: Record<SyncStatus, string> = {
+  synced: 'All changes saved',
+  pending: 'Changes waiting to save',
+  syncing: 'Saving changes',
+  offline: 'Offline — changes will save when you reconnect. Tap to retry',
+};
+
 interface MenuItem {
   icon: keyof typeof Ionicons.glyphMap;
   label: string;
@@ -38,6 +60,13 @@ export default function Header({
   premiumStatus,
   onUpgradePress,
   onTimetablePress,
+  onCalendarPress,
+  onImportPress,
+  onSecurityPress,
+  onAccountPress,
+  syncStatus,
+  onSyncPress,
+  onRemindersPress,
   onSettingsPress,
   onLogoutPress,
 }: HeaderProps) {
@@ -91,6 +120,11 @@ export default function Header({
       ? []
       : [{ icon: 'sparkles' as const, label: 'Upgrade to Pro', onPress: onUpgradePress }]),
     { icon: 'calendar-outline' as const, label: 'Timetable', onPress: onTimetablePress },
+    { icon: 'school-outline' as const, label: 'Academic Calendar', onPress: onCalendarPress },
+    { icon: 'notifications-outline' as const, label: 'Reminders', onPress: onRemindersPress },
+    { icon: 'document-text-outline' as const, label: 'Import Attendance', onPress: onImportPress },
+    { icon: 'lock-closed-outline' as const, label: 'Credential Security', onPress: onSecurityPress },
+    { icon: 'person-circle-outline' as const, label: 'Account', onPress: onAccountPress },
     { icon: 'settings-outline' as const, label: 'Settings', onPress: onSettingsPress },
     { icon: 'log-out-outline' as const, label: 'Log Out', onPress: onLogoutPress, destructive: true },
   ];
@@ -120,6 +154,20 @@ export default function Header({
         </View>
 
         <View style={styles.rightButtons}>
+          <TouchableOpacity
+            onPress={onSyncPress}
+            disabled={syncStatus === 'synced' || syncStatus === 'syncing'}
+            style={styles.syncButton}
+            accessibilityLabel={SYNC_LABELS[syncStatus]}
+            accessibilityRole="button"
+          >
+            <Ionicons
+              name={SYNC_ICONS[syncStatus]}
+              size={18}
+              color={syncStatus === 'offline' ? (dark ? '#fbbf24' : '#f59e0b') : colors.textTertiary}
+            />
+          </TouchableOpacity>
+
           <TouchableOpacity
             onPress={() => { toggle(); if (showThemeHint) dismissHint(); }}
             style={[styles.themeToggle, { backgroundColor: dark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)' }]}
@@ -239,6 +287,12 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     gap: 6,
   },
+  syncButton: {
+    width: 28,
+    height: 36,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   themeToggle: {
     width: 36,
     height: 36,
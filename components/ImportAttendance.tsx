@@ -0,0 +1,531 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+  StyleSheet,
+  Pressable,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system/legacy';
+import { useThemeContext } from '../contexts/ThemeContext';
+import { AttendanceColumn } from '../lib/attendanceParser';
+import {
+  getColumnLabels,
+  guessMapping,
+  ImportMapping,
+  isSpreadsheetFile,
+  parseDelimited,
+  parseSpreadsheet,
+  readImportedSubjects,
+  toImportedAttendance,
+} from '../lib/importAttendance';
+import { AttendanceData } from '../lib/types';
+
+const INDIGO = '#6366f1';
+const PREVIEW_ROWS = 6;
+const PREVIEW_SUBJECTS = 5;
+
+const FIELDS: { column: AttendanceColumn; label: string }[] = [
+  { column: 'name', label: 'Subject name' },
+  { column: 'code', label: 'Subject code' },
+  { column: 'attended', label: 'Classes attended' },
+  { column: 'total', label: 'Classes held' },
+  { column: 'percentage', label: 'Percentage' },
+  { column: 'ratio', label: 'Attended / held (like 20/25)' },
+];
+
+const FILE_TYPES = [
+  'text/csv',
+  'text/comma-separated-values',
+  'text/plain',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/octet-stream',
+];
+
+interface ImportAttendanceProps {
+  isOpen: boolean;
+  threshold: number;
+  onClose: () => void;
+  onImport: (data: AttendanceData) => void;
+}
+
+export default function ImportAttendance({
+  isOpen,
+  threshold,
+  onClose,
+  onImport,
+}: ImportAttendanceProps) {
+  const { colors } = useThemeContext();
+  const [table, setTable] = useState<string[][] | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({ headerIdx: -1, columns: {} });
+  const [pasted, setPasted] = useState('');
+  const [studentName, setStudentName] = useState('');
+  const [reading, setReading] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setTable(null);
+      setPasted('');
+      setMessage('');
+    }
+  }, [isOpen]);
+
+  const labels = useMemo(() => (table ? getColumnLabels(table, mapping.headerIdx) : []), [table, mapping.headerIdx]);
+  const subjects = useMemo(
+    () => (table ? readImportedSubjects(table, mapping, threshold) : []),
+    [table, mapping, threshold],
+  );
+
+  const loadTable = (rows: string[][]) => {
+    if (rows.length === 0) {
+      setMessage('No rows found. Check that the table has a row per subject.');
+      return;
+    }
+    setTable(rows);
+    setMapping(guessMapping(rows));
+    setMessage('');
+  };
+
+  const handlePickFile = async () => {
+    setMessage('');
+    const result = await DocumentPicker.getDocumentAsync({ type: FILE_TYPES, copyToCacheDirectory: true });
+    if (result.canceled || !result.assets || result.assets.length === 0) return;
+
+    const asset = result.assets[0];
+    setReading(true);
+    try {
+      if (isSpreadsheetFile(asset.name)) {
+        const base64 = await FileSystem.readAsStringAsync(asset.uri, { encoding: 'base64' });
+        loadTable(parseSpreadsheet(base64));
+      } else {
+        loadTable(parseDelimited(await FileSystem.readAsStringAsync(asset.uri)));
+      }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Unknown error';
+      setMessage(`Could not read file: ${msg}`);
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const assign = (column: AttendanceColumn, idx: number | null) => {
+    setMapping(prev => {
+      const columns = { ...prev.columns };
+      // A column feeds one field; picking it elsewhere moves it
+      for (const key of Object.keys(columns) as AttendanceColumn[]) {
+        if (columns[key] === idx) delete columns[key];
+      }
+      if (idx === null) delete columns[column];
+      else columns[column] = idx;
+      return { ...prev, columns };
+    });
+  };
+
+  const handleImport = () => {
+    if (subjects.length === 0) return;
+    onImport(toImportedAttendance(subjects, threshold, studentName));
+    onClose();
+  };
+
+  const pillStyle = (active: boolean) => [
+    styles.pill,
+    active
+      ? { backgroundColor: INDIGO, borderColor: INDIGO }
+      : { backgroundColor: colors.inputBg, borderColor: colors.inputBorder },
+  ];
+
+  const pillTextStyle = (active: boolean) => [styles.pillText, { color: active ? '#ffffff' : colors.textSecondary }];
+
+  const renderSource = () => (
+    <>
+      <TouchableOpacity
+        onPress={handlePickFile}
+        disabled={reading}
+        style={[styles.fileButton, { borderColor: colors.accent }]}
+        accessibilityLabel="Choose a CSV or Excel file"
+        accessibilityRole="button"
+      >
+        {reading
+          ? <ActivityIndicator size="small" color={colors.accent} />
+          : <Ionicons name="document-outline" size={16} color={colors.accent} />}
+        <Text style={[styles.fileText, { color: colors.accent }]}>Choose CSV or Excel file</Text>
+      </TouchableOpacity>
+
+      <Text style={[styles.sectionTitle, styles.sectionGap, { color: colors.textTertiary }]}>OR PASTE A TABLE</Text>
+      <TextInput
+        style={[styles.input, styles.pasteInput, { backgroundColor: colors.inputBg, borderColor: colors.inputBorder, color: colors.text }]}
+        placeholder={'Subject\tAttended\tHeld\nMaths\t20\t25'}
+        placeholderTextColor={colors.textTertiary}
+        value={pasted}
+        onChangeText={setPasted}
+        multiline
+        autoCorrect={false}
+        autoCapitalize="none"
+        textAlignVertical="top"
+      />
+      <TouchableOpacity
+        onPress={() => loadTable(parseDelimited(pasted))}
+        disabled={!pasted.trim()}
+        style={[styles.fileButton, { borderColor: colors.accent }, !pasted.trim() && { opacity: 0.4 }]}
+        accessibilityLabel="Use pasted table"
+        accessibilityRole="button"
+      >
+        <Text style={[styles.fileText, { color: colors.accent }]}>Use pasted table</Text>
+      </TouchableOpacity>
+    </>
+  );
+
+  const renderMapping = (rows: string[][]) => (
+    <>
+      {/* Raw preview */}
+      <Text style={[styles.sectionTitle, { color: colors.textTertiary }]}>PREVIEW</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View>
+          {rows.slice(0, PREVIEW_ROWS).map((row, rowIdx) => (
+            <View
+              key={rowIdx}
+              style={[
+                styles.previewRow,
+                { borderBottomColor: colors.divider },
+                rowIdx === mapping.headerIdx && { backgroundColor: colors.inputBg },
+              ]}
+            >
+              {labels.map((_, colIdx) => (
+                <Text
+                  key={colIdx}
+                  style={[
+                    styles.previewCell,
+                    { color: rowIdx === mapping.headerIdx ? colors.text : colors.textSecondary },
+                    rowIdx === mapping.headerIdx && styles.previewHeader,
+                  ]}
+                  numberOfLines={1}
+                >
+                  {row[colIdx] ?? ''}
+                </Text>
+              ))}
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+
+      {/* Header row */}
+      <Text style={[styles.sectionTitle, styles.sectionGap, { color: colors.textTertiary }]}>HEADER ROW</Text>
+      <View style={styles.pillRow}>
+        {[-1, ...rows.slice(0, 4).map((_, idx) => idx)].map(idx => (
+          <TouchableOpacity
+            key={idx}
+            style={pillStyle(mapping.headerIdx === idx)}
+            onPress={() => setMapping(prev => ({ ...prev, headerIdx: idx }))}
+            accessibilityRole="button"
+          >
+            <Text style={pillTextStyle(mapping.headerIdx === idx)}>{idx === -1 ? 'None' : `Row ${idx + 1}`}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {/* Column mapping */}
+      <Text style={[styles.sectionTitle, styles.sectionGap, { color: colors.textTertiary }]}>COLUMNS</Text>
+      {FIELDS.map(({ column, label }) => (
+        <View key={column} style={styles.fieldRow}>
+          <Text style={[styles.fieldLabel, { color: colors.text }]}>{label}</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.pillScroll}>
+            <TouchableOpacity
+              style={pillStyle(mapping.columns[column] === undefined)}
+              onPress={() => assign(column, null)}
+              accessibilityRole="button"
+            >
+              <Text style={pillTextStyle(mapping.columns[column] === undefined)}>None</Text>
+            </TouchableOpacity>
+            {labels.map((colLabel, idx) => (
+              <TouchableOpacity
+                key={idx}
+                style={pillStyle(mapping.columns[column] === idx)}
+                onPress={() => assign(column, idx)}
+                accessibilityRole="button"
+              >
+                <Text style={pillTextStyle(mapping.columns[column] === idx)} numberOfLines={1}>{colLabel}</Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </View>
+      ))}
+
+      {/* Student name */}
+      <Text style={[styles.sectionTitle, styles.sectionGap, { color: colors.textTertiary }]}>YOUR NAME (OPTIONAL)</Text>
+      <TextInput
+        style={[styles.input, { backgroundColor: colors.inputBg, borderColor: colors.inputBorder, color: colors.text }]}
+        placeholder="Shown on your dashboard"
+        placeholderTextColor={colors.textTertiary}
+        value={studentName}
+        onChangeText={setStudentName}
+      />
+
+      {/* What will be imported */}
+      <Text style={[styles.sectionTitle, styles.sectionGap, { color: colors.textTertiary }]}>
+        {subjects.length === 1 ? '1 SUBJECT' : `${subjects.length} SUBJECTS`}
+      </Text>
+      {subjects.length === 0 ? (
+        <Text style={[styles.emptyText, { color: colors.textTertiary }]}>
+          Pick the column with subject names or codes, and the columns with your attendance figures.
+        </Text>
+      ) : (
+        subjects.slice(0, PREVIEW_SUBJECTS).map((subject, idx) => (
+          <View key={idx} style={[styles.subjectRow, { borderBottomColor: colors.divider }]}>
+            <Text style={[styles.subjectName, { color: colors.text }]} numberOfLines={1}>
+              {subject.code ? `${subject.code} · ${subject.name}` : subject.name}
+            </Text>
+            <Text style={[styles.subjectFigures, { color: colors.textSecondary }]}>
+              {subject.status === 'no_data'
+                ? 'No data'
+                : subject.total > 0
+                  ? `${subject.attended}/${subject.total} · ${subject.percentage}%`
+                  : `${subject.percentage}%`}
+            </Text>
+          </View>
+        ))
+      )}
+      {subjects.length > PREVIEW_SUBJECTS && (
+        <Text style={[styles.emptyText, { color: colors.textTertiary }]}>
+          and {subjects.length - PREVIEW_SUBJECTS} more
+        </Text>
+      )}
+
+      <TouchableOpacity
+        onPress={() => setTable(null)}
+        style={styles.startOver}
+        accessibilityRole="button"
+      >
+        <Text style={[styles.startOverText, { color: colors.accent }]}>Use a different file or table</Text>
+      </TouchableOpacity>
+    </>
+  );
+
+  return (
+    <Modal
+      visible={isOpen}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable
+          style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+          onPress={() => {}}
+        >
+          <Text style={[styles.title, { color: colors.text }]}>Import Attendance</Text>
+          <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+            From a spreadsheet your college or professor shared, without connecting an ERP.
+          </Text>
+          {message ? (
+            <Text style={[styles.message, { color: colors.textSecondary }]}>{message}</Text>
+          ) : null}
+
+          <ScrollView style={styles.scroll} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            {table ? renderMapping(table) : renderSource()}
+          </ScrollView>
+
+          {/* Action Buttons */}
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.cancelButton, { borderColor: colors.inputBorder }]}
+              onPress={onClose}
+              activeOpacity={0.7}
+              accessibilityLabel="Cancel"
+              accessibilityRole="button"
+            >
+              <Text style={[styles.cancelText, { color: colors.textSecondary }]}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.saveButton, subjects.length === 0 && { opacity: 0.4 }]}
+              onPress={handleImport}
+              disabled={subjects.length === 0}
+              activeOpacity={0.7}
+              accessibilityLabel="Import attendance"
+              accessibilityRole="button"
+            >
+              <Text style={styles.saveText}>Import</Text>
+            </TouchableOpacity>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 420,
+    maxHeight: '88%',
+    borderRadius: 20,
+    padding: 24,
+    borderWidth: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  subtitle: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  message: {
+    fontSize: 12,
+    marginBottom: 8,
+  },
+  scroll: {
+    flexGrow: 0,
+  },
+  sectionTitle: {
+    fontSize: 10,
+    fontWeight: '600',
+    letterSpacing: 1.2,
+    marginBottom: 8,
+  },
+  sectionGap: {
+    marginTop: 16,
+  },
+  fileButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    height: 40,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  fileText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  input: {
+    height: 40,
+    borderRadius: 10,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  pasteInput: {
+    height: 120,
+    paddingTop: 10,
+  },
+  previewRow: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+  },
+  previewCell: {
+    width: 96,
+    fontSize: 12,
+    paddingVertical: 6,
+    paddingHorizontal: 4,
+  },
+  previewHeader: {
+    fontWeight: '600',
+  },
+  pillRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  pillScroll: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  pill: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 20,
+    borderWidth: 1,
+    maxWidth: 160,
+  },
+  pillText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  fieldRow: {
+    marginBottom: 12,
+  },
+  fieldLabel: {
+    fontSize: 13,
+    fontWeight: '500',
+    marginBottom: 6,
+  },
+  emptyText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  subjectRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    gap: 10,
+  },
+  subjectName: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  subjectFigures: {
+    fontSize: 12,
+  },
+  startOver: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    minHeight: 44,
+    justifyContent: 'center',
+  },
+  startOverText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+  },
+  cancelButton: {
+    flex: 1,
+    height: 48,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cancelText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  saveButton: {
+    flex: 1,
+    height: 48,
+    borderRadius: 12,
+    backgroundColor: INDIGO,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  saveText: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,115 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useThemeContext } from '../contexts/ThemeContext';
+import { AttendanceLedger, MarkConflict, Subject } from '../lib/types';
+import { parseDateStr } from '../lib/dates';
+
+interface LedgerCardProps {
+  ledger: AttendanceLedger;
+  subjectMap: Map<string, Subject>;
+  onConflictsDismiss: () => void;
+}
+
+function describeConflict(conflict: MarkConflict): string {
+  const marked = conflict.mark.status === 'attended' ? 'present' : 'absent';
+  if (conflict.erpStatus === 'missing') return `You marked ${marked} — the ERP never recorded this class`;
+  return `You marked ${marked} — the ERP says ${conflict.erpStatus === 'attended' ? 'present' : 'absent'}`;
+}
+
+export default function LedgerCard({ ledger, subjectMap, onConflictsDismiss }: LedgerCardProps) {
+  const { dark, colors } = useThemeContext();
+  const warnColor = dark ? '#fbbf24' : '#f59e0b';
+  const pending = ledger.marks.filter(m => m.status !== 'cancelled').length;
+  const cancelled = ledger.marks.length - pending;
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+      <Text style={[styles.label, { color: colors.textTertiary }]}>MARKED BY YOU</Text>
+
+      {ledger.marks.length > 0 && (
+        <Text style={[styles.summary, { color: colors.textSecondary }]}>
+          {pending > 0
+            ? `${pending} ${pending === 1 ? 'class' : 'classes'} waiting for the ERP — percentages include them provisionally`
+            : 'No marks waiting for the ERP'}
+          {cancelled > 0 ? ` · ${cancelled} cancelled` : ''}
+        </Text>
+      )}
+
+      {ledger.conflicts.length > 0 && (
+        <>
+          <View style={styles.conflictHeader}>
+            <Ionicons name="alert-circle" size={14} color={warnColor} />
+            <Text style={[styles.conflictTitle, { color: warnColor }]}>
+              The ERP disagrees with {ledger.conflicts.length} {ledger.conflicts.length === 1 ? 'mark' : 'marks'}
+            </Text>
+            <TouchableOpacity
+              onPress={onConflictsDismiss}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              accessibilityLabel="Dismiss conflicts"
+              accessibilityRole="button"
+            >
+              <Ionicons name="close" size={16} color={colors.textTertiary} />
+            </TouchableOpacity>
+          </View>
+          {ledger.conflicts.map((conflict, idx) => {
+            const { mark } = conflict;
+            const name = subjectMap.get(mark.code)?.name ?? mark.code;
+            const date = parseDateStr(mark.date).toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short' });
+            return (
+              <View
+                key={`${mark.date}-${mark.code}-${mark.start}`}
+                style={[styles.row, idx > 0 && { borderTopWidth: 1, borderTopColor: colors.divider }]}
+              >
+                <Text style={[styles.name, { color: colors.text }]} numberOfLines={1}>
+                  {name} · {date} {mark.start}
+                </Text>
+                <Text style={[styles.detail, { color: colors.textTertiary }]}>{describeConflict(conflict)}</Text>
+              </View>
+            );
+          })}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+  },
+  label: {
+    fontSize: 10,
+    fontWeight: '600',
+    letterSpacing: 1.2,
+    textTransform: 'uppercase',
+    marginBottom: 6,
+  },
+  summary: {
+    fontSize: 13,
+  },
+  conflictHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 10,
+  },
+  conflictTitle: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  row: {
+    paddingVertical: 8,
+    gap: 2,
+  },
+  name: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  detail: {
+    fontSize: 11,
+  },
+});
@@ -0,0 +1,81 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useThemeContext } from '../contexts/ThemeContext';
+import { UnavailableLogin } from '../lib/types';
+
+interface LoginNoticeCardProps {
+  reason: UnavailableLogin;
+  // Enter the ERP login on this device
+  onSignIn: () => void;
+  // Open Credential Security to unlock the saved login
+  onUnlock: () => void;
+}
+
+const NOTICES: Record<UnavailableLogin, { title: string; body: string }> = {
+  locked: {
+    title: 'Auto-refresh is paused on this device',
+    body: 'Your saved ERP login is locked here. Unlock it with your vault passphrase, or sign in to your ERP on this device.',
+  },
+  elsewhere: {
+    title: 'Auto-refresh is off on this device',
+    body: 'Your ERP login is kept only on the device you saved it on, so this one shows what that device last fetched. Sign in to your ERP here to refresh from this device too.',
+  },
+};
+
+export default function LoginNoticeCard({ reason, onSignIn, onUnlock }: LoginNoticeCardProps) {
+  const { dark, colors } = useThemeContext();
+  const warnColor = dark ? '#fbbf24' : '#f59e0b';
+  const notice = NOTICES[reason];
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+      <View style={styles.header}>
+        <Ionicons name="lock-closed" size={14} color={warnColor} />
+        <Text style={[styles.title, { color: colors.text }]}>{notice.title}</Text>
+      </View>
+      <Text style={[styles.body, { color: colors.textSecondary }]}>{notice.body}</Text>
+      <View style={styles.actions}>
+        {reason === 'locked' && (
+          <TouchableOpacity onPress={onUnlock} accessibilityRole="button">
+            <Text style={[styles.action, { color: colors.accent }]}>Unlock</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity onPress={onSignIn} accessibilityRole="button">
+          <Text style={[styles.action, { color: colors.accent }]}>Sign in to your ERP here</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  body: {
+    fontSize: 12,
+    lineHeight: 18,
+    marginTop: 6,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 20,
+    marginTop: 10,
+  },
+  action: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
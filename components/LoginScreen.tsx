@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import {
   View,
   Text,
@@ -10,9 +10,19 @@ import {
   KeyboardAvoidingView,
   ScrollView,
   Platform,
+  Switch,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import * as AppleAuthentication from 'expo-apple-authentication';
 import { useThemeContext } from '../contexts/ThemeContext';
+import { FETCH_STAGE_LABELS } from '../lib/api';
+import { CUSTOM_ADAPTER_ID, ErpExtraField, findAdapter, validateErpLogin } from '../lib/erpAdapters';
+import { useErpAdapters } from '../lib/useErpAdapters';
+import { describeAuthError } from '../lib/useAuth';
+import { getGoogleClientId, isAppleSignInAvailable, LinkableProvider, PROVIDER_LABELS } from '../lib/federatedAuth';
+import { ErpLogin, FetchStage } from '../lib/types';
+import CollegePicker from './CollegePicker';
+import GoogleSignInButton from './GoogleSignInButton';
 
 const FUNNY_MESSAGES = [
   'Connecting to ERP...',
@@ -27,22 +37,40 @@ const FUNNY_MESSAGES = [
   'Almost there, probably...',
 ];
 
+const PROGRESS_STAGES: FetchStage[] = ['login', 'navigate', 'parse'];
+
 const PRIMARY = '#6366f1';
 
 type AuthProps = {
   mode: 'auth';
   onAuth: (email: string, password: string, isSignUp: boolean) => void;
+  // Sends a reset link; rejects with a Firebase auth error
+  onResetPassword: (email: string) => Promise<void>;
+  onGoogleSignIn: (idToken: string) => void;
+  onAppleSignIn: () => void;
+  // A Google/Apple sign-in waiting to be added to the account with this email
+  pendingLink: { provider: LinkableProvider; email: string } | null;
+  onPendingLinkCancel: () => void;
   isLoading: boolean;
   authError?: string;
 };
 
 type ErpProps = {
   mode: 'erp';
-  onSubmit: (erpUrl: string, username: string, password: string) => void;
+  onSubmit: (login: ErpLogin) => void;
   isLoading: boolean;
+  // Reported by the backend while it scrapes; null until it starts
+  stage?: FetchStage | null;
   savedUsername?: string;
   savedErpUrl?: string;
+  savedAdapterId?: string;
+  savedExtra?: Record<string, string>;
+  savedOnDevice?: boolean;
   onLogout: () => void;
+  // Shown over the dashboard: a Cancel link replaces Sign out
+  onCancel?: () => void;
+  // For colleges without a usable ERP: import a spreadsheet instead
+  onImportPress: () => void;
 };
 
 type Props = AuthProps | ErpProps;
@@ -50,18 +78,30 @@ type Props = AuthProps | ErpProps;
 export default function LoginScreen(props: Props) {
   const { dark, colors } = useThemeContext();
   const { mode, isLoading } = props;
+  const stage = mode === 'erp' ? props.stage ?? null : null;
 
   // Auth mode state
   const [email, setEmail] = useState('');
   const [authPassword, setAuthPassword] = useState('');
   const [isSignUp, setIsSignUp] = useState(false);
   const [showAuthPassword, setShowAuthPassword] = useState(false);
+  const [resetNotice, setResetNotice] = useState('');
+  const [appleAvailable, setAppleAvailable] = useState(false);
+  const hasOtherSignIns = !!getGoogleClientId() || appleAvailable;
+  const pendingLink = mode === 'auth' ? props.pendingLink : null;
 
   // ERP mode state
+  const { adapters, isLoading: adaptersLoading } = useErpAdapters();
+  const [adapterId, setAdapterId] = useState(CUSTOM_ADAPTER_ID);
   const [erpUrl, setErpUrl] = useState('');
   const [username, setUsername] = useState('');
   const [erpPassword, setErpPassword] = useState('');
   const [showErpPassword, setShowErpPassword] = useState(false);
+  const [extra, setExtra] = useState<Record<string, string>>({});
+  const [onDevice, setOnDevice] = useState(false);
+
+  // Until the registry loads, a saved preset falls back to the plain URL form
+  const adapter = useMemo(() => findAdapter(adapters, adapterId), [adapters, adapterId]);
 
   // Funny loading message rotation
   const [messageIndex, setMessageIndex] = useState(0);
@@ -72,8 +112,30 @@ export default function LoginScreen(props: Props) {
     if (mode === 'erp') {
       if (props.savedErpUrl) setErpUrl(props.savedErpUrl);
       if (props.savedUsername) setUsername(props.savedUsername);
+      if (props.savedAdapterId) setAdapterId(props.savedAdapterId);
+      if (props.savedExtra) setExtra(props.savedExtra);
+      if (props.savedOnDevice) setOnDevice(true);
     }
-  }, [mode, mode === 'erp' ? props.savedErpUrl : null, mode === 'erp' ? props.savedUsername : null]);
+  }, [
+    mode,
+    mode === 'erp' ? props.savedErpUrl : null,
+    mode === 'erp' ? props.savedUsername : null,
+    mode === 'erp' ? props.savedAdapterId : null,
+    mode === 'erp' ? props.savedExtra : null,
+    mode === 'erp' ? props.savedOnDevice : null,
+  ]);
+
+  useEffect(() => {
+    if (mode !== 'auth') return;
+    isAppleSignInAvailable().then(setAppleAvailable).catch(() => {});
+  }, [mode]);
+
+  // Linking needs the existing account's password, so switch to its sign-in form
+  useEffect(() => {
+    if (!pendingLink) return;
+    setEmail(pendingLink.email);
+    setIsSignUp(false);
+  }, [pendingLink?.email]);
 
   // Rotate funny messages while loading
   useEffect(() => {
@@ -105,13 +167,90 @@ export default function LoginScreen(props: Props) {
     props.onAuth(email.trim(), authPassword, isSignUp);
   };
 
+  const handleForgotPassword = async () => {
+    if (mode !== 'auth') return;
+    setLocalError('');
+    setResetNotice('');
+    if (!email.trim()) { setLocalError('Enter your email address first, then tap "Forgot password?" again.'); return; }
+    try {
+      await props.onResetPassword(email.trim());
+      setResetNotice(`If there's an account for ${email.trim()}, a link to reset its password is on its way.`);
+    } catch (err) {
+      setLocalError(describeAuthError(err));
+    }
+  };
+
   const handleErpSubmit = () => {
     if (mode !== 'erp') return;
     setLocalError('');
-    if (!erpUrl.trim()) { setLocalError('Please enter your ERP URL.'); return; }
-    if (!username.trim()) { setLocalError('Please enter your username.'); return; }
-    if (!erpPassword) { setLocalError('Please enter your password.'); return; }
-    props.onSubmit(erpUrl.trim(), username.trim(), erpPassword);
+    const login: ErpLogin = {
+      adapterId: adapter.id,
+      erpUrl: (adapter.erpUrl ?? erpUrl).trim(),
+      username: username.trim(),
+      password: erpPassword,
+      // Only this college's fields, so values left over from another pick aren't sent
+      extra: Object.fromEntries(
+        adapter.extraFields
+          .map(f => [f.key, extra[f.key]?.trim() ?? ''])
+          .filter(([, value]) => value),
+      ),
+      onDevice: !!adapter.portal && onDevice,
+    };
+    const problem = validateErpLogin(adapter, login);
+    if (problem) { setLocalError(problem); return; }
+    props.onSubmit(login);
+  };
+
+  const inputColors = {
+    backgroundColor: colors.inputBg,
+    borderColor: colors.inputBorder,
+    color: colors.text,
+  };
+
+  const renderExtraField = (field: ErpExtraField) => {
+    const value = extra[field.key] ?? '';
+    const setValue = (next: string) => setExtra((prev) => ({ ...prev, [field.key]: next }));
+    return (
+      <View key={field.key}>
+        <Text style={[styles.label, { color: colors.textSecondary }]}>
+          {field.required ? field.label : `${field.label} (optional)`}
+        </Text>
+        {field.kind === 'select' ? (
+          <View style={styles.choices}>
+            {(field.options ?? []).map((option) => {
+              const isActive = value === option;
+              return (
+                <TouchableOpacity
+                  key={option}
+                  style={[
+                    styles.choice,
+                    { borderColor: isActive ? PRIMARY : colors.inputBorder, backgroundColor: isActive ? PRIMARY : colors.inputBg },
+                  ]}
+                  onPress={() => setValue(option)}
+                  disabled={isLoading}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: isActive }}
+                >
+                  <Text style={[styles.choiceText, { color: isActive ? '#ffffff' : colors.text }]}>{option}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        ) : (
+          <TextInput
+            style={[styles.input, inputColors]}
+            placeholder={field.placeholder ?? `Enter your ${field.label.toLowerCase()}`}
+            placeholderTextColor={colors.textTertiary}
+            value={value}
+            onChangeText={setValue}
+            keyboardType={field.kind === 'number' ? 'number-pad' : 'default'}
+            autoCapitalize="none"
+            autoCorrect={false}
+            editable={!isLoading}
+          />
+        )}
+      </View>
+    );
   };
 
   const errorMessage = localError || (mode === 'auth' ? props.authError : undefined);
@@ -188,9 +327,31 @@ export default function LoginScreen(props: Props) {
             {isLoading ? (
               <View style={styles.loadingContainer}>
                 <ActivityIndicator size="large" color={PRIMARY} />
-                <Text style={[styles.loadingMessage, { color: colors.textSecondary }]}>
-                  {FUNNY_MESSAGES[messageIndex]}
-                </Text>
+                {stage && stage !== 'done' ? (
+                  <>
+                    <Text style={[styles.loadingMessage, { color: colors.text }]}>
+                      {FETCH_STAGE_LABELS[stage]}
+                    </Text>
+                    <View style={styles.stageDots}>
+                      {PROGRESS_STAGES.map((s, idx) => (
+                        <View
+                          key={s}
+                          style={[
+                            styles.stageDot,
+                            { backgroundColor: idx <= PROGRESS_STAGES.indexOf(stage) ? PRIMARY : colors.divider },
+                          ]}
+                        />
+                      ))}
+                    </View>
+                    <Text style={[styles.loadingHint, { color: colors.textTertiary }]}>
+                      {FUNNY_MESSAGES[messageIndex]}
+                    </Text>
+                  </>
+                ) : (
+                  <Text style={[styles.loadingMessage, { color: colors.textSecondary }]}>
+                    {FUNNY_MESSAGES[messageIndex]}
+                  </Text>
+                )}
               </View>
             ) : (
               <>
@@ -201,6 +362,23 @@ export default function LoginScreen(props: Props) {
                   </View>
                 ) : null}
 
+                {resetNotice && !errorMessage ? (
+                  <View style={styles.noticeContainer}>
+                    <Text style={[styles.noticeText, { color: colors.accent }]}>{resetNotice}</Text>
+                  </View>
+                ) : null}
+
+                {mode === 'auth' && pendingLink ? (
+                  <View style={styles.noticeContainer}>
+                    <Text style={[styles.noticeText, { color: colors.accent }]}>
+                      Sign in to {pendingLink.email} to add {PROVIDER_LABELS[pendingLink.provider]} to it.
+                    </Text>
+                    <TouchableOpacity onPress={props.onPendingLinkCancel} accessibilityRole="button">
+                      <Text style={[styles.noticeAction, { color: colors.textSecondary }]}>Not now</Text>
+                    </TouchableOpacity>
+                  </View>
+                ) : null}
+
                 {mode === 'auth' ? (
                   <>
                     {/* Email */}
@@ -235,6 +413,17 @@ export default function LoginScreen(props: Props) {
                       'Enter your password',
                     )}
 
+                    {!isSignUp && (
+                      <TouchableOpacity
+                        style={styles.forgotLink}
+                        onPress={handleForgotPassword}
+                        hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                        accessibilityRole="button"
+                      >
+                        <Text style={[styles.forgotText, { color: colors.accent }]}>Forgot password?</Text>
+                      </TouchableOpacity>
+                    )}
+
                     {/* Submit */}
                     <TouchableOpacity
                       style={[styles.button, { backgroundColor: PRIMARY }]}
@@ -248,6 +437,29 @@ export default function LoginScreen(props: Props) {
                       </Text>
                     </TouchableOpacity>
 
+                    {/* Other ways in */}
+                    {hasOtherSignIns && (
+                      <View style={styles.dividerRow}>
+                        <View style={[styles.dividerLine, { backgroundColor: colors.divider }]} />
+                        <Text style={[styles.dividerText, { color: colors.textTertiary }]}>or</Text>
+                        <View style={[styles.dividerLine, { backgroundColor: colors.divider }]} />
+                      </View>
+                    )}
+                    <View style={styles.providers}>
+                      <GoogleSignInButton label="Continue with Google" onIdToken={props.onGoogleSignIn} />
+                      {appleAvailable && (
+                        <AppleAuthentication.AppleAuthenticationButton
+                          buttonType={AppleAuthentication.AppleAuthenticationButtonType.CONTINUE}
+                          buttonStyle={dark
+                            ? AppleAuthentication.AppleAuthenticationButtonStyle.WHITE
+                            : AppleAuthentication.AppleAuthenticationButtonStyle.BLACK}
+                          cornerRadius={10}
+                          style={styles.appleButton}
+                          onPress={props.onAppleSignIn}
+                        />
+                      )}
+                    </View>
+
                     {/* Toggle sign in / sign up */}
                     <TouchableOpacity
                       style={styles.toggleLink}
@@ -266,39 +478,39 @@ export default function LoginScreen(props: Props) {
                   </>
                 ) : (
                   <>
-                    {/* ERP URL */}
-                    <Text style={[styles.label, { color: colors.textSecondary }]}>ERP URL</Text>
-                    <TextInput
-                      style={[
-                        styles.input,
-                        {
-                          backgroundColor: colors.inputBg,
-                          borderColor: colors.inputBorder,
-                          color: colors.text,
-                        },
-                      ]}
-                      placeholder="https://erp.example.com"
-                      placeholderTextColor={colors.textTertiary}
-                      value={erpUrl}
-                      onChangeText={setErpUrl}
-                      keyboardType="url"
-                      autoCapitalize="none"
-                      autoCorrect={false}
-                      editable={!isLoading}
+                    {/* College */}
+                    <Text style={[styles.label, { color: colors.textSecondary }]}>College</Text>
+                    <CollegePicker
+                      adapters={adapters}
+                      isLoading={adaptersLoading}
+                      selected={adapter}
+                      onSelect={(next) => setAdapterId(next.id)}
+                      disabled={isLoading}
                     />
 
+                    {/* ERP URL — only when the college isn't in the registry */}
+                    {adapter.erpUrl ? null : (
+                      <>
+                        <Text style={[styles.label, { color: colors.textSecondary }]}>ERP URL</Text>
+                        <TextInput
+                          style={[styles.input, inputColors]}
+                          placeholder="https://erp.example.com"
+                          placeholderTextColor={colors.textTertiary}
+                          value={erpUrl}
+                          onChangeText={setErpUrl}
+                          keyboardType="url"
+                          autoCapitalize="none"
+                          autoCorrect={false}
+                          editable={!isLoading}
+                        />
+                      </>
+                    )}
+
                     {/* Username */}
-                    <Text style={[styles.label, { color: colors.textSecondary }]}>Username</Text>
+                    <Text style={[styles.label, { color: colors.textSecondary }]}>{adapter.usernameLabel}</Text>
                     <TextInput
-                      style={[
-                        styles.input,
-                        {
-                          backgroundColor: colors.inputBg,
-                          borderColor: colors.inputBorder,
-                          color: colors.text,
-                        },
-                      ]}
-                      placeholder="Enter your username"
+                      style={[styles.input, inputColors]}
+                      placeholder={`Enter your ${adapter.usernameLabel.toLowerCase()}`}
                       placeholderTextColor={colors.textTertiary}
                       value={username}
                       onChangeText={setUsername}
@@ -306,17 +518,50 @@ export default function LoginScreen(props: Props) {
                       autoCorrect={false}
                       editable={!isLoading}
                     />
+                    {adapter.usernameHint ? (
+                      <Text style={[styles.hint, { color: colors.textTertiary }]}>{adapter.usernameHint}</Text>
+                    ) : null}
 
                     {/* Password */}
-                    <Text style={[styles.label, { color: colors.textSecondary }]}>Password</Text>
+                    <Text style={[styles.label, { color: colors.textSecondary }]}>{adapter.passwordLabel}</Text>
                     {renderPasswordField(
                       erpPassword,
                       setErpPassword,
                       showErpPassword,
                       () => setShowErpPassword((v) => !v),
-                      'Enter your password',
+                      `Enter your ${adapter.passwordLabel.toLowerCase()}`,
                     )}
 
+                    {/* Whatever else this college's portal asks for */}
+                    {adapter.extraFields.map(renderExtraField)}
+
+                    {/* Portals the app can read itself */}
+                    {adapter.portal ? (
+                      <View style={styles.settingRow}>
+                        <View style={styles.settingText}>
+                          <Text style={[styles.settingLabel, { color: colors.text }]}>Fetch on this phone</Text>
+                          <Text style={[styles.hint, { color: colors.textTertiary }]}>
+                            Your password goes straight to your college portal, never to UniTrack's server
+                          </Text>
+                        </View>
+                        <Switch
+                          value={onDevice}
+                          onValueChange={setOnDevice}
+                          disabled={isLoading}
+                          trackColor={{
+                            false: dark ? '#475569' : '#cbd5e1',
+                            true: dark ? 'rgba(165, 180, 252, 0.5)' : 'rgba(99, 102, 241, 0.4)',
+                          }}
+                        />
+                      </View>
+                    ) : null}
+
+                    {adapter.notes ? (
+                      <Text style={[styles.notes, { color: colors.textSecondary, backgroundColor: colors.inputBg }]}>
+                        {adapter.notes}
+                      </Text>
+                    ) : null}
+
                     {/* Submit */}
                     <TouchableOpacity
                       style={[styles.button, { backgroundColor: PRIMARY }]}
@@ -328,13 +573,27 @@ export default function LoginScreen(props: Props) {
                       <Text style={styles.buttonText}>Fetch My Attendance</Text>
                     </TouchableOpacity>
 
-                    {/* Sign out */}
+                    {/* No ERP */}
                     <TouchableOpacity
                       style={styles.toggleLink}
-                      onPress={(props as ErpProps).onLogout}
+                      onPress={(props as ErpProps).onImportPress}
                       accessibilityRole="button"
                     >
-                      <Text style={[styles.toggleText, styles.toggleTextAccent, { color: colors.accent }]}>Sign out</Text>
+                      <Text style={[styles.toggleText, { color: colors.textSecondary }]}>
+                        No ERP?{' '}
+                        <Text style={[styles.toggleTextAccent, { color: colors.accent }]}>Import a spreadsheet</Text>
+                      </Text>
+                    </TouchableOpacity>
+
+                    {/* Sign out, or back to the dashboard */}
+                    <TouchableOpacity
+                      style={styles.toggleLink}
+                      onPress={(props as ErpProps).onCancel ?? (props as ErpProps).onLogout}
+                      accessibilityRole="button"
+                    >
+                      <Text style={[styles.toggleText, styles.toggleTextAccent, { color: colors.accent }]}>
+                        {(props as ErpProps).onCancel ? 'Cancel' : 'Sign out'}
+                      </Text>
                     </TouchableOpacity>
                   </>
                 )}
@@ -345,7 +604,9 @@ export default function LoginScreen(props: Props) {
           {/* Footer */}
           {mode === 'erp' && (
             <Text style={[styles.footer, { color: colors.textTertiary }]}>
-              Your credentials are encrypted and stored securely on your device. They are sent to our server only to fetch your attendance from the ERP.
+              {adapter.portal && onDevice
+                ? 'Your credentials are encrypted and stored securely on your device. Attendance is fetched on this phone, so your password is only sent to your college portal.'
+                : 'Your credentials are encrypted and stored securely on your device. They are sent to our server only to fetch your attendance from the ERP.'}
             </Text>
           )}
 
@@ -413,6 +674,47 @@ const styles = StyleSheet.create({
     paddingVertical: 12,
     fontSize: 16,
   },
+  hint: {
+    fontSize: 12,
+    marginTop: 6,
+  },
+  choices: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  choice: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    minWidth: 44,
+    alignItems: 'center',
+  },
+  choiceText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 16,
+  },
+  settingText: {
+    flex: 1,
+  },
+  settingLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  notes: {
+    fontSize: 13,
+    lineHeight: 18,
+    borderRadius: 10,
+    padding: 12,
+    marginTop: 16,
+  },
   passwordWrapper: {
     position: 'relative',
     justifyContent: 'center',
@@ -475,6 +777,21 @@ const styles = StyleSheet.create({
     marginTop: 20,
     textAlign: 'center',
   },
+  stageDots: {
+    flexDirection: 'row',
+    gap: 6,
+    marginTop: 12,
+  },
+  stageDot: {
+    width: 24,
+    height: 4,
+    borderRadius: 2,
+  },
+  loadingHint: {
+    fontSize: 12,
+    marginTop: 12,
+    textAlign: 'center',
+  },
 
   /* Error */
   errorContainer: {
@@ -488,6 +805,50 @@ const styles = StyleSheet.create({
     fontSize: 14,
     textAlign: 'center',
   },
+  noticeContainer: {
+    backgroundColor: 'rgba(99, 102, 241, 0.1)',
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 4,
+  },
+  noticeText: {
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  noticeAction: {
+    fontSize: 13,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  dividerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 20,
+  },
+  dividerLine: {
+    flex: 1,
+    height: 1,
+  },
+  dividerText: {
+    fontSize: 13,
+  },
+  providers: {
+    gap: 10,
+    marginTop: 16,
+  },
+  appleButton: {
+    height: 48,
+  },
+  forgotLink: {
+    alignSelf: 'flex-end',
+    marginTop: 8,
+  },
+  forgotText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
 
   /* Footer */
   footer: {
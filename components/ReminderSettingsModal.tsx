@@ -0,0 +1,353 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  Switch,
+  StyleSheet,
+  Pressable,
+} from 'react-native';
+import { useThemeContext } from '../contexts/ThemeContext';
+import { Subject } from '../lib/types';
+import { getSubjectKey } from '../lib/utils';
+import { ReminderSettings } from '../lib/reminders';
+import { parseTime, formatTime } from '../lib/timetable';
+
+const INDIGO = '#6366f1';
+const LEAD_PRESETS = [5, 10, 15, 30];
+
+interface ReminderSettingsModalProps {
+  isOpen: boolean;
+  settings: ReminderSettings;
+  subjects: Subject[];
+  onClose: () => void;
+  onSave: (settings: ReminderSettings) => void;
+}
+
+export default function ReminderSettingsModal({
+  isOpen,
+  settings,
+  subjects,
+  onClose,
+  onSave,
+}: ReminderSettingsModalProps) {
+  const { dark, colors } = useThemeContext();
+  const [draft, setDraft] = useState(settings);
+
+  useEffect(() => {
+    if (isOpen) setDraft(settings);
+  }, [isOpen, settings]);
+
+  const update = (patch: Partial<ReminderSettings>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const toggleMuted = (key: string) => {
+    setDraft(prev => ({
+      ...prev,
+      mutedSubjects: prev.mutedSubjects.includes(key)
+        ? prev.mutedSubjects.filter(k => k !== key)
+        : [...prev.mutedSubjects, key],
+    }));
+  };
+
+  const handleSave = () => {
+    onSave(draft);
+    onClose();
+  };
+
+  const switchColors = {
+    trackColor: {
+      false: dark ? '#475569' : '#cbd5e1',
+      true: dark ? 'rgba(165, 180, 252, 0.5)' : 'rgba(99, 102, 241, 0.4)',
+    },
+  };
+
+  const renderTimeStepper = (label: string, value: string, step: number, onChange: (v: string) => void) => (
+    <View style={styles.settingRow}>
+      <Text style={[styles.settingLabel, { color: colors.text }]}>{label}</Text>
+      <View style={styles.stepper}>
+        <TouchableOpacity
+          style={[styles.stepButton, { backgroundColor: colors.inputBg, borderColor: colors.inputBorder }]}
+          onPress={() => onChange(formatTime(parseTime(value) - step))}
+          accessibilityLabel={`${label} earlier`}
+          accessibilityRole="button"
+        >
+          <Text style={[styles.stepText, { color: colors.text }]}>-</Text>
+        </TouchableOpacity>
+        <Text style={[styles.stepValue, { color: colors.accent }]}>{value}</Text>
+        <TouchableOpacity
+          style={[styles.stepButton, { backgroundColor: colors.inputBg, borderColor: colors.inputBorder }]}
+          onPress={() => onChange(formatTime(parseTime(value) + step))}
+          accessibilityLabel={`${label} later`}
+          accessibilityRole="button"
+        >
+          <Text style={[styles.stepText, { color: colors.text }]}>+</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderPresets = (values: number[], active: number, onPick: (v: number) => void, suffix: string) => (
+    <View style={styles.presetRow}>
+      {values.map(value => {
+        const isActive = value === active;
+        return (
+          <TouchableOpacity
+            key={value}
+            style={[
+              styles.presetPill,
+              isActive
+                ? styles.presetPillActive
+                : { backgroundColor: colors.inputBg, borderColor: colors.inputBorder },
+            ]}
+            onPress={() => onPick(value)}
+            accessibilityRole="button"
+          >
+            <Text style={[styles.presetText, isActive ? styles.presetTextActive : { color: colors.textSecondary }]}>
+              {value}{suffix}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={isOpen}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable
+          style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+          onPress={() => {}}
+        >
+          <Text style={[styles.title, { color: colors.text }]}>Reminders</Text>
+
+          <ScrollView style={styles.scroll} showsVerticalScrollIndicator={false}>
+            {/* Morning digest */}
+            <View style={styles.settingRow}>
+              <Text style={[styles.settingLabel, { color: colors.text }]}>Morning digest</Text>
+              <Switch
+                value={draft.digestEnabled}
+                onValueChange={(v) => update({ digestEnabled: v })}
+                {...switchColors}
+              />
+            </View>
+            {draft.digestEnabled && renderTimeStepper('Send at', draft.digestTime, 15, (v) => update({ digestTime: v }))}
+
+            {/* Per-class reminders */}
+            <View style={[styles.settingRow, styles.sectionGap]}>
+              <View style={styles.settingText}>
+                <Text style={[styles.settingLabel, { color: colors.text }]}>Class reminders</Text>
+                <Text style={[styles.settingHint, { color: colors.textTertiary }]}>
+                  Only for must-attend and risky classes
+                </Text>
+              </View>
+              <Switch
+                value={draft.classRemindersEnabled}
+                onValueChange={(v) => update({ classRemindersEnabled: v })}
+                {...switchColors}
+              />
+            </View>
+            {draft.classRemindersEnabled && (
+              <>
+                <Text style={[styles.subLabel, { color: colors.textSecondary }]}>Remind me before class</Text>
+                {renderPresets(LEAD_PRESETS, draft.leadMinutes, (v) => update({ leadMinutes: v }), ' min')}
+              </>
+            )}
+
+            {/* Quiet hours */}
+            <Text style={[styles.sectionTitle, styles.sectionGap, { color: colors.textTertiary }]}>QUIET HOURS</Text>
+            {renderTimeStepper('From', draft.quietStart, 30, (v) => update({ quietStart: v }))}
+            {renderTimeStepper('Until', draft.quietEnd, 30, (v) => update({ quietEnd: v }))}
+
+            {/* Per-subject mute */}
+            {draft.classRemindersEnabled && subjects.length > 0 && (
+              <>
+                <Text style={[styles.sectionTitle, styles.sectionGap, { color: colors.textTertiary }]}>SUBJECTS</Text>
+                {subjects.map(subject => {
+                  const key = getSubjectKey(subject);
+                  return (
+                    <View key={key} style={styles.settingRow}>
+                      <Text style={[styles.subjectName, { color: colors.text }]} numberOfLines={1}>
+                        {subject.name}
+                      </Text>
+                      <Switch
+                        value={!draft.mutedSubjects.includes(key)}
+                        onValueChange={() => toggleMuted(key)}
+                        {...switchColors}
+                      />
+                    </View>
+                  );
+                })}
+              </>
+            )}
+          </ScrollView>
+
+          {/* Action Buttons */}
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.cancelButton, { borderColor: colors.inputBorder }]}
+              onPress={onClose}
+              activeOpacity={0.7}
+              accessibilityLabel="Cancel"
+              accessibilityRole="button"
+            >
+              <Text style={[styles.cancelText, { color: colors.textSecondary }]}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.saveButton}
+              onPress={handleSave}
+              activeOpacity={0.7}
+              accessibilityLabel="Save reminder settings"
+              accessibilityRole="button"
+            >
+              <Text style={styles.saveText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '85%',
+    borderRadius: 20,
+    padding: 24,
+    borderWidth: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginBottom: 12,
+  },
+  scroll: {
+    flexGrow: 0,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    gap: 12,
+  },
+  settingText: {
+    flex: 1,
+  },
+  settingLabel: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  settingHint: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  sectionGap: {
+    marginTop: 12,
+  },
+  sectionTitle: {
+    fontSize: 10,
+    fontWeight: '600',
+    letterSpacing: 1.2,
+    marginBottom: 4,
+  },
+  subLabel: {
+    fontSize: 13,
+    marginTop: 8,
+    marginBottom: 6,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  stepValue: {
+    fontSize: 15,
+    fontWeight: '700',
+    minWidth: 48,
+    textAlign: 'center',
+  },
+  presetRow: {
+    flexDirection: 'row',
+    gap: 8,
+    flexWrap: 'wrap',
+  },
+  presetPill: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  presetPillActive: {
+    backgroundColor: INDIGO,
+    borderColor: INDIGO,
+  },
+  presetText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  presetTextActive: {
+    color: '#ffffff',
+  },
+  subjectName: {
+    fontSize: 14,
+    flex: 1,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+  },
+  cancelButton: {
+    flex: 1,
+    height: 48,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cancelText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  saveButton: {
+    flex: 1,
+    height: 48,
+    borderRadius: 12,
+    backgroundColor: INDIGO,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  saveText: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
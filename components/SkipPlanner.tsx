@@ -0,0 +1,333 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useThemeContext } from '../contexts/ThemeContext';
+import { AcademicCalendar, SkipGoal, SkipPlan, Subject, Timetable, TimetableRotation } from '../lib/types';
+import { optimizeSkips, toSkipPlan } from '../lib/skipOptimizer';
+import { parseDateStr } from '../lib/dates';
+
+interface SkipPlannerProps {
+  timetable: Timetable;
+  rotation: TimetableRotation | null;
+  calendar: AcademicCalendar;
+  skipPlan: SkipPlan | null;
+  onSkipPlanChange: (plan: SkipPlan | null) => void;
+  subjectMap: Map<string, Subject>;
+  globalThreshold: number;
+  subjectThresholds: Record<string, number>;
+}
+
+const HORIZONS = [7, 14];
+const DAY_NAMES_SHORT = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+function formatShortDate(d: Date): string {
+  return d.toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short' });
+}
+
+export default function SkipPlanner({
+  timetable,
+  rotation,
+  calendar,
+  skipPlan,
+  onSkipPlanChange,
+  subjectMap,
+  globalThreshold,
+  subjectThresholds,
+}: SkipPlannerProps) {
+  const { dark, colors } = useThemeContext();
+  const [horizon, setHorizon] = useState(7);
+  const [goal, setGoal] = useState<SkipGoal>({ type: 'max' });
+
+  const result = useMemo(
+    () => optimizeSkips(
+      timetable, rotation, calendar, subjectMap,
+      globalThreshold, subjectThresholds, horizon, goal,
+    ),
+    [timetable, rotation, calendar, subjectMap, globalThreshold, subjectThresholds, horizon, goal],
+  );
+
+  const pillBg = (active: boolean) => active
+    ? colors.accent
+    : dark ? 'rgba(148, 163, 184, 0.12)' : 'rgba(148, 163, 184, 0.15)';
+  const pillText = (active: boolean) => active ? '#ffffff' : colors.textSecondary;
+
+  const safeColor = dark ? '#34d399' : '#10b981';
+  const riskColor = dark ? '#f87171' : '#ef4444';
+
+  const plannedCount = skipPlan ? skipPlan.skips.length : 0;
+
+  let headline: string;
+  if (goal.type === 'freeDay') {
+    const dayName = DAY_NAMES[goal.jsDay];
+    headline = result.goalMet
+      ? `Every ${dayName} free — ${result.totalSkipped} ${result.totalSkipped === 1 ? 'class' : 'classes'} skipped`
+      : result.blockedBy.length > 0
+        ? `Can't free every ${dayName} — ${result.blockedBy.join(', ')} can't spare it`
+        : `No ${dayName} classes in this window`;
+  } else {
+    headline = result.totalSkipped > 0
+      ? `Skip ${result.totalSkipped} ${result.totalSkipped === 1 ? 'class' : 'classes'}`
+        + (result.freeDays > 0 ? ` · ${result.freeDays} free ${result.freeDays === 1 ? 'day' : 'days'}` : '')
+      : 'No safe skips in this window';
+  }
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+      <Text style={[styles.label, { color: colors.textTertiary }]}>SKIP PLANNER</Text>
+
+      {/* Accepted plan */}
+      {skipPlan && (
+        <View style={[styles.acceptedRow, {
+          backgroundColor: dark ? 'rgba(165, 180, 252, 0.12)' : 'rgba(99, 102, 241, 0.08)',
+        }]}>
+          <Ionicons name="checkmark-circle" size={16} color={colors.accent} />
+          <Text style={[styles.acceptedText, { color: colors.text }]}>
+            {plannedCount} planned {plannedCount === 1 ? 'skip' : 'skips'} until {formatShortDate(parseDateStr(skipPlan.to))}
+          </Text>
+          <TouchableOpacity
+            onPress={() => onSkipPlanChange(null)}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            accessibilityLabel="Clear skip plan"
+            accessibilityRole="button"
+          >
+            <Text style={[styles.clearText, { color: colors.accent }]}>Clear</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {/* Window */}
+      <View style={styles.pillRow}>
+        {HORIZONS.map(days => (
+          <TouchableOpacity
+            key={days}
+            onPress={() => setHorizon(days)}
+            style={[styles.pill, { backgroundColor: pillBg(horizon === days) }]}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.pillText, { color: pillText(horizon === days) }]}>Next {days} days</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {/* Goal */}
+      <Text style={[styles.sectionLabel, { color: colors.textTertiary }]}>GOAL</Text>
+      <View style={styles.pillRow}>
+        <TouchableOpacity
+          onPress={() => setGoal({ type: 'max' })}
+          style={[styles.pill, { backgroundColor: pillBg(goal.type === 'max') }]}
+          activeOpacity={0.7}
+        >
+          <Text style={[styles.pillText, { color: pillText(goal.type === 'max') }]}>Most skips</Text>
+        </TouchableOpacity>
+        {[1, 2, 3, 4, 5, 6].map(jsDay => {
+          const active = goal.type === 'freeDay' && goal.jsDay === jsDay;
+          return (
+            <TouchableOpacity
+              key={jsDay}
+              onPress={() => setGoal({ type: 'freeDay', jsDay })}
+              style={[styles.pill, { backgroundColor: pillBg(active) }]}
+              activeOpacity={0.7}
+              accessibilityLabel={`Free ${DAY_NAMES[jsDay]}`}
+            >
+              <Text style={[styles.pillText, { color: pillText(active) }]}>Free {DAY_NAMES_SHORT[jsDay]}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={[styles.divider, { backgroundColor: colors.divider, marginTop: 14 }]} />
+
+      <Text
+        style={[styles.headline, {
+          color: goal.type === 'freeDay' && !result.goalMet && result.blockedBy.length > 0 ? riskColor : colors.text,
+        }]}
+      >
+        {headline}
+      </Text>
+      {!result.usesSemesterEnd && (
+        <Text style={[styles.hint, { color: colors.textTertiary }]}>
+          Without a semester end date, only classes in this window are counted
+        </Text>
+      )}
+
+      {/* Days */}
+      {result.totalSkipped > 0 && (
+        <View style={styles.dayList}>
+          {result.days.filter(d => d.skipped.length > 0).map(day => (
+            <View key={day.dateStr} style={styles.dayRow}>
+              <View style={styles.dayHeader}>
+                <Text style={[styles.dayDate, { color: colors.text }]}>{formatShortDate(day.date)}</Text>
+                {day.isFree && (
+                  <View style={[styles.freeBadge, {
+                    backgroundColor: dark ? 'rgba(52, 211, 153, 0.15)' : 'rgba(16, 185, 129, 0.1)',
+                  }]}>
+                    <Text style={[styles.freeText, { color: safeColor }]}>Day off</Text>
+                  </View>
+                )}
+              </View>
+              <Text style={[styles.daySlots, { color: colors.textSecondary }]}>
+                {day.skipped
+                  .map(slot => `${slot.code} ${slot.start}${slot.weight > 1 ? ` ×${slot.weight}` : ''}`)
+                  .join(' · ')}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {/* Budgets */}
+      {result.budgets.some(b => b.used > 0) && (
+        <>
+          <View style={[styles.divider, { backgroundColor: colors.divider, marginTop: 12 }]} />
+          {result.budgets.filter(b => b.used > 0).map(b => (
+            <View key={b.code} style={styles.budgetRow}>
+              <Text style={[styles.budgetName, { color: colors.text }]} numberOfLines={1}>{b.name}</Text>
+              <Text style={[styles.budgetMeta, { color: colors.textTertiary }]}>
+                {b.used}/{b.budget} of budget
+              </Text>
+              <Text style={[styles.budgetPct, { color: b.projectedPct >= b.threshold ? safeColor : riskColor }]}>
+                {parseFloat(b.projectedPct.toFixed(1))}%
+              </Text>
+            </View>
+          ))}
+        </>
+      )}
+
+      {result.totalSkipped > 0 && (
+        <TouchableOpacity
+          style={[styles.acceptButton, { backgroundColor: colors.accent }]}
+          onPress={() => onSkipPlanChange(toSkipPlan(result))}
+          activeOpacity={0.7}
+          accessibilityRole="button"
+        >
+          <Text style={styles.acceptText}>{skipPlan ? 'Replace plan' : 'Accept plan'}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+  },
+  label: {
+    fontSize: 10,
+    fontWeight: '600',
+    letterSpacing: 1.2,
+    textTransform: 'uppercase',
+    marginBottom: 10,
+  },
+  sectionLabel: {
+    fontSize: 10,
+    fontWeight: '600',
+    letterSpacing: 1.2,
+    marginTop: 12,
+  },
+  acceptedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 10,
+    borderRadius: 8,
+    marginBottom: 10,
+  },
+  acceptedText: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  clearText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  pillRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 6,
+  },
+  pill: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 20,
+  },
+  pillText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  divider: {
+    height: 1,
+  },
+  headline: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 12,
+  },
+  hint: {
+    fontSize: 11,
+    marginTop: 4,
+  },
+  dayList: {
+    marginTop: 10,
+    gap: 10,
+  },
+  dayRow: {
+    gap: 2,
+  },
+  dayHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  dayDate: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  freeBadge: {
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+    borderRadius: 4,
+  },
+  freeText: {
+    fontSize: 10,
+    fontWeight: '700',
+  },
+  daySlots: {
+    fontSize: 12,
+  },
+  budgetRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+  },
+  budgetName: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  budgetMeta: {
+    fontSize: 11,
+  },
+  budgetPct: {
+    fontSize: 13,
+    fontWeight: '700',
+    minWidth: 44,
+    textAlign: 'right',
+  },
+  acceptButton: {
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  acceptText: {
+    color: '#ffffff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,251 @@
+import React, { useMemo } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  Pressable,
+  StyleSheet,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useThemeContext } from '../contexts/ThemeContext';
+import { AttendanceSnapshot, Subject } from '../lib/types';
+import { getSubjectKey, getStatusHexColor } from '../lib/utils';
+import { getSubjectTimeline, findThresholdCrossings } from '../lib/history';
+
+const CHART_HEIGHT = 96;
+const MAX_BARS = 30;
+
+interface SubjectTimelineProps {
+  subject: Subject | null;
+  threshold: number;
+  history: AttendanceSnapshot[];
+  onClose: () => void;
+}
+
+function formatShortDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' });
+}
+
+export default function SubjectTimeline({
+  subject,
+  threshold,
+  history,
+  onClose,
+}: SubjectTimelineProps) {
+  const { dark, colors } = useThemeContext();
+
+  const points = useMemo(() => {
+    if (!subject) return [];
+    return getSubjectTimeline(history, getSubjectKey(subject), threshold);
+  }, [subject, history, threshold]);
+
+  const crossings = useMemo(() => findThresholdCrossings(points, threshold), [points, threshold]);
+  const lastDrop = [...crossings].reverse().find(c => c.direction === 'below');
+  const chartPoints = points.slice(-MAX_BARS);
+
+  let summary: string;
+  if (points.length < 2) {
+    summary = 'Not enough history yet — each refresh adds a point.';
+  } else if (lastDrop) {
+    summary = `Dropped below ${threshold}% on ${formatShortDate(lastDrop.takenAt)}`;
+  } else if (points[0].percentage < threshold) {
+    summary = `Below ${threshold}% since ${formatShortDate(points[0].takenAt)}`;
+  } else {
+    summary = `Stayed at or above ${threshold}% since ${formatShortDate(points[0].takenAt)}`;
+  }
+
+  return (
+    <Modal
+      visible={!!subject}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable
+          style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+          onPress={() => {}}
+        >
+          {/* Header */}
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <Text style={[styles.title, { color: colors.text }]} numberOfLines={2}>
+                {subject?.name}
+              </Text>
+              {subject?.code ? (
+                <Text style={[styles.code, { color: colors.textTertiary }]}>{subject.code}</Text>
+              ) : null}
+            </View>
+            <TouchableOpacity
+              onPress={onClose}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              accessibilityLabel="Close history"
+              accessibilityRole="button"
+            >
+              <Ionicons name="close" size={22} color={colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={[styles.summary, { color: lastDrop ? (dark ? '#f87171' : '#ef4444') : colors.textSecondary }]}>
+            {summary}
+          </Text>
+
+          {/* Bar chart */}
+          {chartPoints.length > 1 && (
+            <View style={[styles.chart, { borderColor: colors.divider }]}>
+              <View
+                style={[
+                  styles.thresholdLine,
+                  {
+                    bottom: (Math.min(threshold, 100) / 100) * CHART_HEIGHT,
+                    backgroundColor: dark ? 'rgba(255, 255, 255, 0.4)' : 'rgba(0, 0, 0, 0.25)',
+                  },
+                ]}
+              />
+              {chartPoints.map(point => (
+                <View key={point.takenAt} style={styles.barSlot}>
+                  <View
+                    style={[
+                      styles.bar,
+                      {
+                        height: (Math.min(point.percentage, 100) / 100) * CHART_HEIGHT,
+                        backgroundColor: getStatusHexColor(point.status, dark),
+                      },
+                    ]}
+                  />
+                </View>
+              ))}
+            </View>
+          )}
+
+          {/* Point list, newest first */}
+          <ScrollView style={styles.list} showsVerticalScrollIndicator={false}>
+            {[...points].reverse().map((point, idx, arr) => {
+              const older = arr[idx + 1];
+              const delta = older ? point.percentage - older.percentage : 0;
+              return (
+                <View
+                  key={point.takenAt}
+                  style={[styles.row, idx < arr.length - 1 && { borderBottomWidth: 1, borderBottomColor: colors.divider }]}
+                >
+                  <Text style={[styles.rowDate, { color: colors.textSecondary }]}>
+                    {formatShortDate(point.takenAt)}
+                  </Text>
+                  <Text style={[styles.rowCount, { color: colors.textTertiary }]}>
+                    {point.attended}/{point.total}
+                  </Text>
+                  <Text style={[styles.rowPct, { color: getStatusHexColor(point.status, dark) }]}>
+                    {point.total > 0 ? `${parseFloat(point.percentage.toFixed(1))}%` : '--'}
+                  </Text>
+                  <Text
+                    style={[
+                      styles.rowDelta,
+                      { color: delta < 0 ? (dark ? '#f87171' : '#ef4444') : (dark ? '#34d399' : '#10b981') },
+                    ]}
+                  >
+                    {older && delta !== 0 ? `${delta > 0 ? '+' : ''}${delta.toFixed(1)}` : ''}
+                  </Text>
+                </View>
+              );
+            })}
+          </ScrollView>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '80%',
+    borderRadius: 20,
+    padding: 20,
+    borderWidth: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  code: {
+    fontSize: 12,
+    fontFamily: 'monospace',
+    marginTop: 2,
+  },
+  summary: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 12,
+  },
+  chart: {
+    height: CHART_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 2,
+    marginTop: 16,
+    borderBottomWidth: 1,
+    position: 'relative',
+  },
+  thresholdLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 1,
+  },
+  barSlot: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  bar: {
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+  },
+  list: {
+    marginTop: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    gap: 8,
+  },
+  rowDate: {
+    fontSize: 13,
+    flex: 1,
+  },
+  rowCount: {
+    fontSize: 12,
+    minWidth: 48,
+    textAlign: 'right',
+  },
+  rowPct: {
+    fontSize: 13,
+    fontWeight: '600',
+    minWidth: 48,
+    textAlign: 'right',
+  },
+  rowDelta: {
+    fontSize: 11,
+    fontWeight: '600',
+    minWidth: 36,
+    textAlign: 'right',
+  },
+});
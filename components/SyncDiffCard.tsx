@@ -0,0 +1,157 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useThemeContext } from '../contexts/ThemeContext';
+import { AttendanceDiff, SubjectDiff } from '../lib/attendanceDiff';
+import { formatDate, getStatusHexColor } from '../lib/utils';
+
+interface SyncDiffCardProps {
+  diff: AttendanceDiff;
+  onDismiss: () => void;
+}
+
+const STATUS_LABELS: Record<SubjectDiff['currentStatus'], string> = {
+  safe: 'safe',
+  critical: 'critical',
+  low: 'low',
+  no_data: 'no data',
+};
+
+function describeChange(change: SubjectDiff): string {
+  if (change.previousStatus === null) return `New subject · ${change.attendedAdded}/${change.classesAdded} attended`;
+  if (change.isCorrection) {
+    return `ERP corrected: ${change.classesAdded >= 0 ? '+' : ''}${change.classesAdded} classes, ${change.attendedAdded >= 0 ? '+' : ''}${change.attendedAdded} attended`;
+  }
+  const parts = [`+${change.classesAdded} ${change.classesAdded === 1 ? 'class' : 'classes'}`];
+  if (change.attendedAdded > 0) parts.push(`${change.attendedAdded} attended`);
+  if (change.absentAdded > 0) parts.push(`${change.absentAdded} absent`);
+  return parts.join(' · ');
+}
+
+export default function SyncDiffCard({ diff, onDismiss }: SyncDiffCardProps) {
+  const { dark, colors } = useThemeContext();
+  const warnColor = dark ? '#fbbf24' : '#f59e0b';
+
+  return (
+    <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}>
+      <View style={styles.header}>
+        <Text style={[styles.label, { color: colors.textTertiary }]}>
+          SINCE LAST SYNC
+        </Text>
+        <TouchableOpacity
+          onPress={onDismiss}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          accessibilityLabel="Dismiss sync summary"
+          accessibilityRole="button"
+        >
+          <Ionicons name="close" size={16} color={colors.textTertiary} />
+        </TouchableOpacity>
+      </View>
+
+      <Text style={[styles.since, { color: colors.textSecondary }]}>
+        {diff.changes.length === 0
+          ? `No new classes since ${formatDate(diff.since)}`
+          : `${diff.totalAdded} new ${diff.totalAdded === 1 ? 'class' : 'classes'} since ${formatDate(diff.since)} — ${diff.totalAttended} attended, ${diff.totalAbsent} absent`}
+      </Text>
+
+      {diff.changes.map((change, idx) => {
+        const transitioned = change.previousStatus !== null && change.previousStatus !== change.currentStatus;
+        return (
+          <View
+            key={change.key}
+            style={[styles.row, idx > 0 && { borderTopWidth: 1, borderTopColor: colors.divider }]}
+          >
+            <View style={styles.rowLeft}>
+              <View style={styles.nameRow}>
+                {change.isCorrection && <Ionicons name="alert-circle" size={13} color={warnColor} />}
+                <Text style={[styles.name, { color: colors.text }]} numberOfLines={1}>
+                  {change.name}
+                </Text>
+              </View>
+              <Text style={[styles.detail, { color: change.isCorrection ? warnColor : colors.textTertiary }]}>
+                {describeChange(change)}
+              </Text>
+            </View>
+            {transitioned && (
+              <View style={styles.transition}>
+                <Text style={[styles.statusText, { color: getStatusHexColor(change.previousStatus!, dark) }]}>
+                  {STATUS_LABELS[change.previousStatus!]}
+                </Text>
+                <Ionicons name="arrow-forward" size={11} color={colors.textTertiary} />
+                <Text style={[styles.statusText, { color: getStatusHexColor(change.currentStatus, dark) }]}>
+                  {STATUS_LABELS[change.currentStatus]}
+                </Text>
+              </View>
+            )}
+          </View>
+        );
+      })}
+
+      {diff.removed.length > 0 && (
+        <Text style={[styles.removed, { color: colors.textTertiary }]}>
+          No longer listed: {diff.removed.map(s => s.code || s.name).join(', ')}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  label: {
+    fontSize: 10,
+    fontWeight: '600',
+    letterSpacing: 1.2,
+    textTransform: 'uppercase',
+  },
+  since: {
+    fontSize: 12,
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    gap: 8,
+  },
+  rowLeft: {
+    flex: 1,
+    gap: 2,
+  },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  name: {
+    fontSize: 13,
+    fontWeight: '500',
+    flexShrink: 1,
+  },
+  detail: {
+    fontSize: 11,
+  },
+  transition: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  statusText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  removed: {
+    fontSize: 11,
+    marginTop: 6,
+  },
+});
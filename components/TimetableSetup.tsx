@@ -5,6 +5,7 @@ import {
   TouchableOpacity,
   Modal,
   ScrollView,
+  TextInput,
   Image,
   ActivityIndicator,
   StyleSheet,
@@ -13,19 +14,58 @@ import { Ionicons } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
 import * as FileSystem from 'expo-file-system/legacy';
 import { useThemeContext } from '../contexts/ThemeContext';
-import { Subject, Timetable } from '../lib/types';
+import { SlotKind, Subject, Timetable, TimetableRotation, TimetableSlot } from '../lib/types';
 import { getSubjectKey } from '../lib/utils';
 import { parseTimetableFromApi } from '../lib/api';
+import { describeApiError } from '../lib/apiClient';
+import {
+  SLOT_KINDS,
+  anchorForIndex,
+  createSlot,
+  defaultWeight,
+  formatTime,
+  getRotationIndex,
+  nextSlotStart,
+  normalizeTimetable,
+  parseTime,
+  slotMinutes,
+  sortSlots,
+  sortTimetable,
+} from '../lib/timetable';
 
 const INDIGO = '#6366f1';
 const DAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const TIME_STEP = 15;
+const MAX_WEIGHT = 6;
+const MAX_ROTATION_WEEKS = 4;
+const MIN_DAY_ORDER = 2;
+const MAX_DAY_ORDER = 10;
+
+type RotationMode = 'none' | TimetableRotation['mode'];
+
+const ROTATION_OPTIONS: { mode: RotationMode; label: string }[] = [
+  { mode: 'none', label: 'Every week' },
+  { mode: 'weeks', label: 'Rotating weeks' },
+  { mode: 'dayOrder', label: 'Day order' },
+];
+
+function weekLetter(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+const KIND_LABELS: Record<SlotKind, string> = {
+  lecture: 'Lecture',
+  lab: 'Lab',
+  tutorial: 'Tutorial',
+};
 
 interface TimetableSetupProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (timetable: Timetable) => void;
+  onSave: (timetable: Timetable, rotation: TimetableRotation | null) => void;
   subjects: Subject[];
   currentTimetable: Timetable;
+  currentRotation: TimetableRotation | null;
   isPremium?: boolean;
   onUpgradePress?: () => void;
 }
@@ -36,6 +76,7 @@ export default function TimetableSetup({
   onSave,
   subjects,
   currentTimetable,
+  currentRotation,
   isPremium = false,
   onUpgradePress,
 }: TimetableSetupProps) {
@@ -43,6 +84,13 @@ export default function TimetableSetup({
 
   const [activeDay, setActiveDay] = useState(0);
   const [draft, setDraft] = useState<Timetable>({});
+  const [rotationMode, setRotationMode] = useState<RotationMode>('none');
+  const [extraWeeks, setExtraWeeks] = useState<Timetable[]>([]);
+  const [dayOrderDraft, setDayOrderDraft] = useState<Timetable>({});
+  const [cycleLength, setCycleLength] = useState(6);
+  const [activeWeek, setActiveWeek] = useState(0);
+  const [currentIndex, setCurrentIndex] = useState(0); // week or day order that applies today
+  const [expandedSlot, setExpandedSlot] = useState<number | null>(null);
   const [showUpload, setShowUpload] = useState(false);
   const [parsing, setParsing] = useState(false);
   const [parseError, setParseError] = useState('');
@@ -52,30 +100,118 @@ export default function TimetableSetup({
   useEffect(() => {
     if (isOpen) {
       setDraft({ ...currentTimetable });
+      setRotationMode(currentRotation?.mode ?? 'none');
+      setExtraWeeks(currentRotation?.mode === 'weeks' ? currentRotation.weeks : []);
+      setDayOrderDraft(currentRotation?.mode === 'dayOrder' ? currentRotation.days : {});
+      setCycleLength(currentRotation?.mode === 'dayOrder' ? currentRotation.cycleLength : 6);
+      setCurrentIndex(currentRotation ? getRotationIndex(currentRotation, new Date()) : 0);
+      setActiveWeek(0);
       setActiveDay(0);
+      setExpandedSlot(null);
       setShowUpload(false);
       setParsing(false);
       setParseError('');
       setPreviewUri('');
     }
-  }, [isOpen, currentTimetable]);
+  }, [isOpen, currentTimetable, currentRotation]);
 
   const subjectCodes = subjects.map((s) => s.code || s.name);
+  const subjectNames = new Map(subjects.map((s) => [getSubjectKey(s), s.name]));
 
-  const toggleSubjectForDay = useCallback(
-    (subjectKey: string) => {
-      setDraft((prev) => {
-        const dayCodes = prev[activeDay] ?? [];
-        const exists = dayCodes.includes(subjectKey);
-        const updated = exists
-          ? dayCodes.filter((c) => c !== subjectKey)
-          : [...dayCodes, subjectKey];
-        return { ...prev, [activeDay]: updated };
-      });
+  // The timetable being edited: the base week, a later rotating week, or
+  // the day-order schedule
+  const page: Timetable = rotationMode === 'dayOrder'
+    ? dayOrderDraft
+    : activeWeek === 0 ? draft : extraWeeks[activeWeek - 1] ?? {};
+
+  const updatePage = useCallback(
+    (update: (timetable: Timetable) => Timetable) => {
+      if (rotationMode === 'dayOrder') {
+        setDayOrderDraft(update);
+      } else if (activeWeek === 0) {
+        setDraft(update);
+      } else {
+        setExtraWeeks((prev) => prev.map((week, i) => (i === activeWeek - 1 ? update(week) : week)));
+      }
     },
-    [activeDay],
+    [rotationMode, activeWeek],
   );
 
+  const updateDay = useCallback(
+    (update: (slots: TimetableSlot[]) => TimetableSlot[]) => {
+      updatePage((prev) => ({ ...prev, [activeDay]: update(prev[activeDay] ?? []) }));
+    },
+    [updatePage, activeDay],
+  );
+
+  const addSlot = (subjectKey: string) => {
+    updateDay((slots) => sortSlots([...slots, createSlot(subjectKey, nextSlotStart(slots))]));
+    setExpandedSlot(null);
+  };
+
+  const removeSlot = (index: number) => {
+    updateDay((slots) => slots.filter((_, i) => i !== index));
+    setExpandedSlot(null);
+  };
+
+  const updateSlot = (index: number, patch: Partial<TimetableSlot>) => {
+    updateDay((slots) => slots.map((slot, i) => (i === index ? { ...slot, ...patch } : slot)));
+  };
+
+  // Moving the start keeps the class length the same
+  const shiftStart = (index: number, delta: number) => {
+    const slot = (page[activeDay] ?? [])[index];
+    if (!slot) return;
+    const start = Math.max(0, Math.min(parseTime(slot.start) + delta, 1440 - TIME_STEP - slotMinutes(slot)));
+    updateSlot(index, { start: formatTime(start), end: formatTime(start + slotMinutes(slot)) });
+  };
+
+  const shiftEnd = (index: number, delta: number) => {
+    const slot = (page[activeDay] ?? [])[index];
+    if (!slot) return;
+    const end = Math.max(parseTime(slot.start) + TIME_STEP, Math.min(parseTime(slot.end) + delta, 1440 - TIME_STEP));
+    updateSlot(index, { end: formatTime(end) });
+  };
+
+  const handleSelectDay = (index: number) => {
+    setActiveDay(index);
+    setExpandedSlot(null);
+  };
+
+  const handleRotationMode = (mode: RotationMode) => {
+    setRotationMode(mode);
+    // Week B starts as a copy of week A — alternating weeks rarely differ by much
+    if (mode === 'weeks' && extraWeeks.length === 0) setExtraWeeks([{ ...draft }]);
+    setActiveWeek(0);
+    setActiveDay(0);
+    setCurrentIndex(0);
+    setExpandedSlot(null);
+  };
+
+  const rotationLength = rotationMode === 'weeks' ? extraWeeks.length + 1 : cycleLength;
+
+  const changeRotationLength = (delta: number) => {
+    if (rotationMode === 'weeks') {
+      const next = Math.max(2, Math.min(MAX_ROTATION_WEEKS, extraWeeks.length + 1 + delta));
+      setExtraWeeks((prev) => (next > prev.length + 1 ? [...prev, { ...draft }] : prev.slice(0, next - 1)));
+      setActiveWeek((prev) => Math.min(prev, next - 1));
+      setCurrentIndex((prev) => Math.min(prev, next - 1));
+    } else {
+      const next = Math.max(MIN_DAY_ORDER, Math.min(MAX_DAY_ORDER, cycleLength + delta));
+      setCycleLength(next);
+      setActiveDay((prev) => Math.min(prev, next - 1));
+      setCurrentIndex((prev) => Math.min(prev, next - 1));
+    }
+    setExpandedSlot(null);
+  };
+
+  const rotationName = (index: number) =>
+    rotationMode === 'weeks' ? `Week ${weekLetter(index)}` : `Day ${index + 1}`;
+
+  const dayLabels = rotationMode === 'dayOrder'
+    ? Array.from({ length: cycleLength }, (_, i) => `Day ${i + 1}`)
+    : DAY_NAMES;
+
   const handlePickImage = async () => {
     setParseError('');
 
@@ -109,11 +245,12 @@ export default function TimetableSetup({
         subjectCodes,
       );
 
-      if (response.success && response.timetable) {
-        setDraft(response.timetable);
+      if (response.ok) {
+        const parsed = normalizeTimetable(response.value);
+        updatePage(() => parsed);
         setShowUpload(false);
       } else {
-        setParseError(response.error || 'Could not parse timetable from image');
+        setParseError(describeApiError(response.error));
       }
     } catch (err) {
       const msg = err instanceof Error ? err.message : 'Unknown error';
@@ -138,17 +275,65 @@ export default function TimetableSetup({
   };
 
   const handleSave = () => {
-    onSave(draft);
+    const today = new Date();
+    let rotation: TimetableRotation | null = null;
+    if (rotationMode === 'weeks') {
+      rotation = {
+        mode: 'weeks',
+        anchorDate: anchorForIndex('weeks', currentIndex, today),
+        weeks: extraWeeks.map(sortTimetable),
+      };
+    } else if (rotationMode === 'dayOrder') {
+      const days: Timetable = {};
+      for (let i = 0; i < cycleLength; i++) days[i] = dayOrderDraft[i] ?? [];
+      rotation = {
+        mode: 'dayOrder',
+        anchorDate: anchorForIndex('dayOrder', currentIndex, today),
+        cycleLength,
+        days: sortTimetable(days),
+      };
+    }
+    onSave(sortTimetable(draft), rotation);
     onClose();
   };
 
-  // Count total configured subjects across all days
-  const totalConfigured = Object.values(draft).reduce(
-    (sum, codes) => sum + codes.length,
+  // Count total configured classes across every schedule in use
+  const tables = rotationMode === 'dayOrder'
+    ? [dayOrderDraft]
+    : rotationMode === 'weeks' ? [draft, ...extraWeeks] : [draft];
+  const totalConfigured = tables.reduce(
+    (sum, table) => sum + Object.entries(table)
+      .filter(([day]) => rotationMode !== 'dayOrder' || Number(day) < cycleLength)
+      .reduce((daySum, [, slots]) => daySum + slots.length, 0),
     0,
   );
 
-  const daySubjects = draft[activeDay] ?? [];
+  const daySlots = page[activeDay] ?? [];
+
+  const renderStepper = (label: string, value: string, onMinus: () => void, onPlus: () => void) => (
+    <View style={styles.stepperRow}>
+      <Text style={[styles.stepperLabel, { color: colors.textSecondary }]}>{label}</Text>
+      <View style={styles.stepper}>
+        <TouchableOpacity
+          onPress={onMinus}
+          style={[styles.stepButton, { backgroundColor: colors.inputBg, borderColor: colors.inputBorder }]}
+          accessibilityLabel={`${label} decrease`}
+          accessibilityRole="button"
+        >
+          <Ionicons name="remove" size={14} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.stepValue, { color: colors.text }]}>{value}</Text>
+        <TouchableOpacity
+          onPress={onPlus}
+          style={[styles.stepButton, { backgroundColor: colors.inputBg, borderColor: colors.inputBorder }]}
+          accessibilityLabel={`${label} increase`}
+          accessibilityRole="button"
+        >
+          <Ionicons name="add" size={14} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
 
   return (
     <Modal
@@ -312,6 +497,77 @@ export default function TimetableSetup({
             ) : (
               /* Manual Mode */
               <View style={styles.manualContainer}>
+                {/* Rotation */}
+                <View style={[styles.rotationBlock, { borderBottomColor: colors.divider }]}>
+                  <View style={styles.kindRow}>
+                    {ROTATION_OPTIONS.map(({ mode, label }) => {
+                      const isActive = rotationMode === mode;
+                      return (
+                        <TouchableOpacity
+                          key={mode}
+                          onPress={() => handleRotationMode(mode)}
+                          style={[
+                            styles.kindPill,
+                            isActive
+                              ? { backgroundColor: INDIGO, borderColor: INDIGO }
+                              : { backgroundColor: colors.inputBg, borderColor: colors.inputBorder },
+                          ]}
+                          accessibilityRole="button"
+                          accessibilityState={{ selected: isActive }}
+                        >
+                          <Text style={[styles.kindText, { color: isActive ? '#ffffff' : colors.textSecondary }]}>
+                            {label}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+
+                  {rotationMode !== 'none' && (
+                    <>
+                      {renderStepper(
+                        rotationMode === 'weeks' ? 'Weeks in cycle' : 'Days in cycle',
+                        String(rotationLength),
+                        () => changeRotationLength(-1),
+                        () => changeRotationLength(1),
+                      )}
+                      {renderStepper(
+                        rotationMode === 'weeks' ? 'This week is' : 'Today is',
+                        rotationName(currentIndex),
+                        () => setCurrentIndex((prev) => (prev + rotationLength - 1) % rotationLength),
+                        () => setCurrentIndex((prev) => (prev + 1) % rotationLength),
+                      )}
+                    </>
+                  )}
+
+                  {rotationMode === 'weeks' && (
+                    <View style={styles.kindRow}>
+                      {Array.from({ length: rotationLength }, (_, i) => {
+                        const isActive = activeWeek === i;
+                        return (
+                          <TouchableOpacity
+                            key={i}
+                            onPress={() => { setActiveWeek(i); setExpandedSlot(null); }}
+                            style={[
+                              styles.kindPill,
+                              isActive
+                                ? { backgroundColor: INDIGO, borderColor: INDIGO }
+                                : { backgroundColor: colors.inputBg, borderColor: colors.inputBorder },
+                            ]}
+                            accessibilityLabel={`Edit ${rotationName(i)}`}
+                            accessibilityRole="button"
+                            accessibilityState={{ selected: isActive }}
+                          >
+                            <Text style={[styles.kindText, { color: isActive ? '#ffffff' : colors.textSecondary }]}>
+                              {rotationName(i)}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  )}
+                </View>
+
                 {/* Day tabs */}
                 <ScrollView
                   horizontal
@@ -319,13 +575,13 @@ export default function TimetableSetup({
                   contentContainerStyle={styles.dayTabsContent}
                   style={styles.dayTabsScroll}
                 >
-                  {DAY_NAMES.map((day, index) => {
+                  {dayLabels.map((day, index) => {
                     const isActive = index === activeDay;
-                    const dayCount = (draft[index] ?? []).length;
+                    const dayCount = (page[index] ?? []).length;
                     return (
                       <TouchableOpacity
                         key={day}
-                        onPress={() => setActiveDay(index)}
+                        onPress={() => handleSelectDay(index)}
                         style={[
                           styles.dayTab,
                           {
@@ -336,7 +592,7 @@ export default function TimetableSetup({
                                 : 'rgba(148, 163, 184, 0.12)',
                           },
                         ]}
-                        accessibilityLabel={`${day}${dayCount > 0 ? `, ${dayCount} subjects` : ''}`}
+                        accessibilityLabel={`${day}${dayCount > 0 ? `, ${dayCount} classes` : ''}`}
                         accessibilityRole="button"
                         accessibilityState={{ selected: isActive }}
                       >
@@ -378,11 +634,123 @@ export default function TimetableSetup({
                   })}
                 </ScrollView>
 
-                {/* Subject checklist */}
                 <ScrollView
                   style={styles.subjectList}
                   showsVerticalScrollIndicator={false}
+                  keyboardShouldPersistTaps="handled"
                 >
+                  {/* Day's classes */}
+                  {daySlots.length > 0 && (
+                    <Text style={[styles.sectionLabel, { color: colors.textTertiary }]}>
+                      CLASSES
+                    </Text>
+                  )}
+                  {daySlots.map((slot, index) => {
+                    const isExpanded = expandedSlot === index;
+                    const name = subjectNames.get(slot.code) ?? slot.code;
+                    return (
+                      <View
+                        key={`${slot.code}-${index}`}
+                        style={[styles.slotContainer, { borderBottomColor: colors.divider }]}
+                      >
+                        <TouchableOpacity
+                          onPress={() => setExpandedSlot(isExpanded ? null : index)}
+                          style={styles.subjectRow}
+                          accessibilityLabel={`${name}, ${slot.start} to ${slot.end}`}
+                          accessibilityRole="button"
+                          accessibilityState={{ expanded: isExpanded }}
+                        >
+                          <Text style={[styles.slotTime, { color: colors.accent }]}>
+                            {slot.start}
+                          </Text>
+                          <View style={styles.subjectInfo}>
+                            <Text
+                              style={[styles.subjectName, { color: colors.text }]}
+                              numberOfLines={1}
+                            >
+                              {name}
+                            </Text>
+                            <Text style={[styles.subjectCode, { color: colors.textTertiary }]}>
+                              {[
+                                `until ${slot.end}`,
+                                KIND_LABELS[slot.kind],
+                                slot.room,
+                                slot.weight > 1 ? `counts ×${slot.weight}` : '',
+                              ].filter(Boolean).join(' · ')}
+                            </Text>
+                          </View>
+                          <Ionicons
+                            name={isExpanded ? 'chevron-up' : 'chevron-down'}
+                            size={16}
+                            color={colors.textTertiary}
+                          />
+                        </TouchableOpacity>
+
+                        {isExpanded && (
+                          <View style={styles.slotEditor}>
+                            {renderStepper('Starts', slot.start, () => shiftStart(index, -TIME_STEP), () => shiftStart(index, TIME_STEP))}
+                            {renderStepper('Ends', slot.end, () => shiftEnd(index, -TIME_STEP), () => shiftEnd(index, TIME_STEP))}
+                            {renderStepper(
+                              'Counts as',
+                              `${slot.weight} ${slot.weight === 1 ? 'unit' : 'units'}`,
+                              () => updateSlot(index, { weight: Math.max(1, slot.weight - 1) }),
+                              () => updateSlot(index, { weight: Math.min(MAX_WEIGHT, slot.weight + 1) }),
+                            )}
+
+                            <View style={styles.kindRow}>
+                              {SLOT_KINDS.map(kind => {
+                                const isActive = slot.kind === kind;
+                                return (
+                                  <TouchableOpacity
+                                    key={kind}
+                                    onPress={() => updateSlot(index, {
+                                      kind,
+                                      weight: defaultWeight(kind, slotMinutes(slot)),
+                                    })}
+                                    style={[
+                                      styles.kindPill,
+                                      isActive
+                                        ? { backgroundColor: INDIGO, borderColor: INDIGO }
+                                        : { backgroundColor: colors.inputBg, borderColor: colors.inputBorder },
+                                    ]}
+                                    accessibilityRole="button"
+                                    accessibilityState={{ selected: isActive }}
+                                  >
+                                    <Text style={[styles.kindText, { color: isActive ? '#ffffff' : colors.textSecondary }]}>
+                                      {KIND_LABELS[kind]}
+                                    </Text>
+                                  </TouchableOpacity>
+                                );
+                              })}
+                            </View>
+
+                            <TextInput
+                              value={slot.room}
+                              onChangeText={(room) => updateSlot(index, { room })}
+                              placeholder="Room (optional)"
+                              placeholderTextColor={colors.textTertiary}
+                              style={[
+                                styles.roomInput,
+                                { color: colors.text, backgroundColor: colors.inputBg, borderColor: colors.inputBorder },
+                              ]}
+                            />
+
+                            <TouchableOpacity
+                              onPress={() => removeSlot(index)}
+                              style={styles.removeButton}
+                              accessibilityLabel={`Remove ${name}`}
+                              accessibilityRole="button"
+                            >
+                              <Ionicons name="trash-outline" size={14} color="#ef4444" />
+                              <Text style={styles.removeText}>Remove class</Text>
+                            </TouchableOpacity>
+                          </View>
+                        )}
+                      </View>
+                    );
+                  })}
+
+                  {/* Subjects to add */}
                   {subjects.length === 0 ? (
                     <View style={styles.emptySubjects}>
                       <Text
@@ -395,68 +763,52 @@ export default function TimetableSetup({
                       </Text>
                     </View>
                   ) : (
-                    subjects.map((subject) => {
-                      const key = getSubjectKey(subject);
-                      const isChecked = daySubjects.includes(key);
-                      return (
-                        <TouchableOpacity
-                          key={key}
-                          onPress={() => toggleSubjectForDay(key)}
-                          style={[
-                            styles.subjectRow,
-                            {
-                              borderBottomColor: colors.divider,
-                            },
-                          ]}
-                          accessibilityLabel={`${subject.name}${isChecked ? ', selected' : ''}`}
-                          accessibilityRole="checkbox"
-                          accessibilityState={{ checked: isChecked }}
-                        >
-                          <View
+                    <>
+                      <Text style={[styles.sectionLabel, { color: colors.textTertiary }]}>
+                        ADD A CLASS
+                      </Text>
+                      {subjects.map((subject) => {
+                        const key = getSubjectKey(subject);
+                        return (
+                          <TouchableOpacity
+                            key={key}
+                            onPress={() => addSlot(key)}
                             style={[
-                              styles.checkbox,
+                              styles.subjectRow,
                               {
-                                backgroundColor: isChecked
-                                  ? INDIGO
-                                  : 'transparent',
-                                borderColor: isChecked
-                                  ? INDIGO
-                                  : colors.inputBorder,
+                                borderBottomColor: colors.divider,
+                                borderBottomWidth: 1,
                               },
                             ]}
+                            accessibilityLabel={`Add ${subject.name}`}
+                            accessibilityRole="button"
                           >
-                            {isChecked ? (
-                              <Ionicons
-                                name="checkmark"
-                                size={14}
-                                color="#ffffff"
-                              />
-                            ) : null}
-                          </View>
-                          <View style={styles.subjectInfo}>
-                            <Text
-                              style={[
-                                styles.subjectName,
-                                { color: colors.text },
-                              ]}
-                              numberOfLines={1}
-                            >
-                              {subject.name}
-                            </Text>
-                            {subject.code ? (
+                            <Ionicons name="add-circle-outline" size={20} color={colors.accent} />
+                            <View style={styles.subjectInfo}>
                               <Text
                                 style={[
-                                  styles.subjectCode,
-                                  { color: colors.textTertiary },
+                                  styles.subjectName,
+                                  { color: colors.text },
                                 ]}
+                                numberOfLines={1}
                               >
-                                {subject.code}
+                                {subject.name}
                               </Text>
-                            ) : null}
-                          </View>
-                        </TouchableOpacity>
-                      );
-                    })
+                              {subject.code ? (
+                                <Text
+                                  style={[
+                                    styles.subjectCode,
+                                    { color: colors.textTertiary },
+                                  ]}
+                                >
+                                  {subject.code}
+                                </Text>
+                              ) : null}
+                            </View>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </>
                   )}
                 </ScrollView>
               </View>
@@ -653,6 +1005,12 @@ const styles = StyleSheet.create({
   manualContainer: {
     flex: 1,
   },
+  rotationBlock: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    gap: 8,
+  },
   dayTabsScroll: {
     flexGrow: 0,
   },
@@ -697,22 +1055,94 @@ const styles = StyleSheet.create({
     fontSize: 14,
     textAlign: 'center',
   },
-  subjectRow: {
-    flexDirection: 'row',
-    alignItems: 'center',
+  sectionLabel: {
+    fontSize: 10,
+    fontWeight: '600',
+    letterSpacing: 1.2,
     paddingHorizontal: 16,
-    paddingVertical: 10,
+    paddingTop: 12,
+    paddingBottom: 4,
+  },
+  slotContainer: {
     borderBottomWidth: 1,
+  },
+  slotTime: {
+    fontSize: 13,
+    fontWeight: '700',
+    fontFamily: 'monospace',
+  },
+  slotEditor: {
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    gap: 8,
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  stepperLabel: {
+    fontSize: 13,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
     gap: 10,
   },
-  checkbox: {
-    width: 20,
-    height: 20,
-    borderRadius: 6,
-    borderWidth: 2,
+  stepButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 8,
+    borderWidth: 1,
     alignItems: 'center',
     justifyContent: 'center',
   },
+  stepValue: {
+    fontSize: 13,
+    fontWeight: '600',
+    minWidth: 56,
+    textAlign: 'center',
+  },
+  kindRow: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  kindPill: {
+    paddingHorizontal: 12,
+    paddingVertical: 5,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  kindText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  roomInput: {
+    height: 38,
+    borderRadius: 8,
+    borderWidth: 1,
+    paddingHorizontal: 10,
+    fontSize: 13,
+  },
+  removeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    alignSelf: 'flex-start',
+    paddingVertical: 4,
+  },
+  removeText: {
+    color: '#ef4444',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  subjectRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    gap: 10,
+  },
   subjectInfo: {
     flex: 1,
     gap: 1,
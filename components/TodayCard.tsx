@@ -2,17 +2,28 @@ import React, { useMemo, useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useThemeContext } from '../contexts/ThemeContext';
-import { Subject, Timetable } from '../lib/types';
+import { AcademicCalendar, AttendanceLedger, MarkStatus, SkipPlan, SlotKind, Subject, Timetable, TimetableRotation, TimetableSlot } from '../lib/types';
 import {
-  calculateClassesToBunk,
   calculateStatus,
   getEffectiveThreshold,
   getSubjectKey,
   getStatusHexColor,
+  getVerdict,
+  Verdict,
 } from '../lib/utils';
+import { getRotationLabel, getSlotsForDate } from '../lib/timetable';
+import { EVENT_KIND_LABELS, getCalendarEvent, isOutsideSemester } from '../lib/academicCalendar';
+import { formatDateStr } from '../lib/dates';
+import { isPlannedSkip, planCoversDate } from '../lib/skipOptimizer';
+import { getMark } from '../lib/ledger';
 
 interface TodayCardProps {
   timetable: Timetable;
+  rotation: TimetableRotation | null;
+  calendar: AcademicCalendar;
+  skipPlan: SkipPlan | null;
+  ledger: AttendanceLedger;
+  onMark: (dateStr: string, slot: TimetableSlot, status: MarkStatus | null) => void;
   subjectMap: Map<string, Subject>;
   globalThreshold: number;
   subjectThresholds: Record<string, number>;
@@ -50,8 +61,6 @@ function getSundayMessage(): string {
   return SUNDAY_MESSAGES[seed % SUNDAY_MESSAGES.length];
 }
 
-type Verdict = 'skip' | 'risky' | 'attend' | 'no_data';
-
 interface VerdictStyle {
   label: string;
   bg: string;
@@ -113,29 +122,37 @@ const VERDICT_STYLES_DARK: Record<Verdict, VerdictStyle> = {
   },
 };
 
-function getVerdict(subject: Subject, threshold: number): Verdict {
-  const status = calculateStatus(subject.percentage, threshold, subject.total);
-
-  if (status === 'no_data') return 'no_data';
+const TAB_LABELS = ['Today', 'Tomorrow', 'Day After'];
 
-  if (status === 'safe') {
-    const classesToBunk = calculateClassesToBunk(
-      subject.attended,
-      subject.total,
-      threshold
-    );
-    if (classesToBunk > 0) return 'skip';
-  }
+const MARK_OPTIONS: { status: MarkStatus; label: string; icon: 'checkmark' | 'close' | 'ban-outline' }[] = [
+  { status: 'attended', label: 'Attended', icon: 'checkmark' },
+  { status: 'absent', label: 'Absent', icon: 'close' },
+  { status: 'cancelled', label: 'Cancelled', icon: 'ban-outline' },
+];
 
-  if (status === 'low') return 'attend';
+const KIND_LABELS: Record<SlotKind, string> = {
+  lecture: 'Lecture',
+  lab: 'Lab',
+  tutorial: 'Tutorial',
+};
 
-  return 'risky';
+function getSlotMeta(slot: TimetableSlot, code: string): string {
+  return [
+    code,
+    `${slot.start}–${slot.end}`,
+    slot.room,
+    slot.kind !== 'lecture' ? KIND_LABELS[slot.kind] : '',
+    slot.weight > 1 ? `×${slot.weight}` : '',
+  ].filter(Boolean).join(' · ');
 }
 
-const TAB_LABELS = ['Today', 'Tomorrow', 'Day After'];
-
 export default function TodayCard({
   timetable,
+  rotation,
+  calendar,
+  skipPlan,
+  ledger,
+  onMark,
   subjectMap,
   globalThreshold,
   subjectThresholds,
@@ -144,27 +161,41 @@ export default function TodayCard({
   const VERDICT_STYLES = dark ? VERDICT_STYLES_DARK : VERDICT_STYLES_LIGHT;
   const [selectedDay, setSelectedDay] = useState(0);
 
-  const todayJsDay = new Date().getDay();
-  const targetJsDay = (todayJsDay + selectedDay) % 7;
+  const targetDate = new Date();
+  targetDate.setDate(targetDate.getDate() + selectedDay);
+  const targetJsDay = targetDate.getDay();
   const dayName = DAY_NAMES[targetJsDay];
-  const timetableDayIndex = targetJsDay === 0 ? -1 : targetJsDay - 1;
+  const targetDateStr = targetDate.toDateString();
+  const dateStr = formatDateStr(targetDate);
+  const rotationLabel = targetJsDay === 0 ? '' : getRotationLabel(rotation, targetDate);
+
+  const calendarEvent = getCalendarEvent(calendar, targetDate);
+  const outsideSemester = isOutsideSemester(calendar, targetDate);
+  const isNoClassDay = !!calendarEvent || outsideSemester;
 
-  const subjects = useMemo(() => {
-    const codes = timetableDayIndex >= 0 ? (timetable[timetableDayIndex] || []) : [];
-    return codes.map(code => subjectMap.get(code)).filter((s): s is Subject => !!s);
-  }, [timetable, subjectMap, timetableDayIndex]);
+  const classes = useMemo(() => {
+    const slots = isNoClassDay ? [] : getSlotsForDate(timetable, rotation, new Date(targetDateStr));
+    return slots
+      .map(slot => ({ slot, subject: subjectMap.get(slot.code) }))
+      .filter((c): c is { slot: TimetableSlot; subject: Subject } => !!c.subject);
+  }, [timetable, rotation, subjectMap, targetDateStr, isNoClassDay]);
 
   const verdicts = useMemo(() => {
-    return subjects.map((subject) => {
+    return classes.map(({ slot, subject }) => {
       const threshold = getEffectiveThreshold(
         subject,
         globalThreshold,
         subjectThresholds
       );
-      const verdict = getVerdict(subject, threshold);
-      return { subject, verdict, threshold };
+      const planned = isPlannedSkip(skipPlan, dateStr, slot);
+      // Inside an accepted plan the skip budget is already spoken for, so
+      // only the planned classes are safe to miss
+      let verdict = getVerdict(subject, threshold, slot.weight);
+      if (planned) verdict = 'skip';
+      else if (verdict === 'skip' && planCoversDate(skipPlan, dateStr)) verdict = 'risky';
+      return { slot, subject, verdict, threshold, planned };
     });
-  }, [subjects, globalThreshold, subjectThresholds]);
+  }, [classes, globalThreshold, subjectThresholds, skipPlan, dateStr]);
 
   const skippableCount = useMemo(() => {
     return verdicts.filter((v) => v.verdict === 'skip').length;
@@ -175,7 +206,8 @@ export default function TodayCard({
     borderColor: colors.cardBorder,
   };
 
-  const headerLabel = selectedDay === 0 ? `Today — ${dayName}` : `${TAB_LABELS[selectedDay]} — ${dayName}`;
+  const headerDay = rotationLabel ? `${dayName} · ${rotationLabel}` : dayName;
+  const headerLabel = selectedDay === 0 ? `Today — ${headerDay}` : `${TAB_LABELS[selectedDay]} — ${headerDay}`;
 
   const dayTabs = (
     <View style={styles.tabRow}>
@@ -212,12 +244,16 @@ export default function TodayCard({
     </View>
   );
 
-  const noClassesMessage = selectedDay === 0
-    ? 'No classes today — enjoy your free time!'
-    : `No classes on ${dayName}`;
+  const noClassesMessage = calendarEvent
+    ? `${EVENT_KIND_LABELS[calendarEvent.kind]} — ${calendarEvent.title}`
+    : outsideSemester
+      ? 'Outside the semester — no classes'
+      : selectedDay === 0
+        ? 'No classes today — enjoy your free time!'
+        : `No classes on ${dayName}`;
 
   const summaryMessage = skippableCount > 0
-    ? `You can safely skip ${skippableCount} of ${subjects.length} ${subjects.length === 1 ? 'class' : 'classes'}`
+    ? `You can safely skip ${skippableCount} of ${classes.length} ${classes.length === 1 ? 'class' : 'classes'}`
     : selectedDay === 0
       ? 'Better attend all classes today'
       : `Better attend all classes on ${dayName}`;
@@ -242,7 +278,7 @@ export default function TodayCard({
     );
   }
 
-  if (subjects.length === 0) {
+  if (classes.length === 0) {
     return (
       <View style={[styles.card, cardBase]}>
         {dayTabs}
@@ -276,7 +312,7 @@ export default function TodayCard({
           </Text>
         </View>
         <Text style={[styles.headerCount, { color: colors.textSecondary }]}>
-          {subjects.length} {subjects.length === 1 ? 'class' : 'classes'}
+          {classes.length} {classes.length === 1 ? 'class' : 'classes'}
         </Text>
       </View>
 
@@ -285,7 +321,7 @@ export default function TodayCard({
 
       {/* Subject Rows */}
       {verdicts.map((item, index) => {
-        const { subject, verdict } = item;
+        const { slot, subject, verdict, planned } = item;
         const threshold = getEffectiveThreshold(
           subject,
           globalThreshold,
@@ -309,13 +345,12 @@ export default function TodayCard({
                 >
                   {subject.name}
                 </Text>
-                {subject.code ? (
-                  <Text
-                    style={[styles.subjectCode, { color: colors.textTertiary }]}
-                  >
-                    {subject.code}
-                  </Text>
-                ) : null}
+                <Text
+                  style={[styles.subjectCode, { color: colors.textTertiary }]}
+                  numberOfLines={1}
+                >
+                  {getSlotMeta(slot, subject.code)}
+                </Text>
               </View>
 
               <View style={styles.subjectRight}>
@@ -334,12 +369,44 @@ export default function TodayCard({
                   ]}
                 >
                   <Text style={[styles.verdictText, { color: vs.text }]}>
-                    {vs.label}
+                    {planned ? 'Planned skip' : vs.label}
                   </Text>
                 </View>
               </View>
             </View>
 
+            {/* Marks are for classes that already happened, so only today */}
+            {selectedDay === 0 && (
+              <View style={styles.markRow}>
+                {MARK_OPTIONS.map(option => {
+                  const active = getMark(ledger, dateStr, slot)?.status === option.status;
+                  return (
+                    <TouchableOpacity
+                      key={option.status}
+                      onPress={() => onMark(dateStr, slot, active ? null : option.status)}
+                      style={[
+                        styles.markButton,
+                        {
+                          backgroundColor: active
+                            ? colors.accent
+                            : dark ? 'rgba(148, 163, 184, 0.12)' : 'rgba(148, 163, 184, 0.15)',
+                        },
+                      ]}
+                      activeOpacity={0.7}
+                      accessibilityLabel={`Mark ${subject.name} as ${option.label.toLowerCase()}`}
+                      accessibilityRole="button"
+                      accessibilityState={{ selected: active }}
+                    >
+                      <Ionicons name={option.icon} size={12} color={active ? '#ffffff' : colors.textSecondary} />
+                      <Text style={[styles.markText, { color: active ? '#ffffff' : colors.textSecondary }]}>
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+
             {index < verdicts.length - 1 && (
               <View
                 style={[styles.divider, { backgroundColor: colors.divider }]}
@@ -484,6 +551,25 @@ const styles = StyleSheet.create({
     minWidth: 38,
     textAlign: 'right',
   },
+  markRow: {
+    flexDirection: 'row',
+    gap: 6,
+    paddingHorizontal: 16,
+    marginTop: -4,
+    paddingBottom: 12,
+  },
+  markButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 20,
+  },
+  markText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
   verdictBadge: {
     paddingHorizontal: 10,
     paddingVertical: 4,
@@ -13,6 +13,7 @@ import { useThemeContext } from '../contexts/ThemeContext';
 import { PremiumStatus } from '../lib/usePremium';
 import { PaymentRecord } from '../lib/firestore';
 import { createPaymentOrder, verifyPayment } from '../lib/api';
+import { describeApiError } from '../lib/apiClient';
 import { openRazorpayCheckout } from '../lib/razorpay';
 
 const INDIGO = '#6366f1';
@@ -92,21 +93,16 @@ export default function UpgradeModal({
     try {
       const orderResult = await createPaymentOrder(uid, email);
       if (!orderResult.ok) {
-        setError(orderResult.error || 'Failed to create payment order');
-        setLoading(false);
-        return;
-      }
-
-      if (!orderResult.orderId || !orderResult.amount || !orderResult.currency) {
-        setError('Invalid order data from server');
+        setError(describeApiError(orderResult.error));
         setLoading(false);
         return;
       }
 
+      const order = orderResult.value;
       const razorpayResponse = await openRazorpayCheckout({
-        orderId: orderResult.orderId,
-        amount: orderResult.amount,
-        currency: orderResult.currency,
+        orderId: order.orderId,
+        amount: order.amount,
+        currency: order.currency,
         email,
       });
 
@@ -119,21 +115,24 @@ export default function UpgradeModal({
       );
 
       if (!verifyResult.ok) {
-        setError(verifyResult.error || 'Payment verification failed');
-        setLoading(false);
-        return;
-      }
-
-      if (!verifyResult.premiumUntil || !verifyResult.payment) {
-        setError('Payment verified but server returned incomplete data');
+        // The money has moved by now, so say so rather than a generic error
+        setError(verifyResult.error.kind === 'validation'
+          ? 'Payment verified but server returned incomplete data'
+          : describeApiError(verifyResult.error));
         setLoading(false);
         return;
       }
 
-      await onPaymentSuccess(
-        verifyResult.premiumUntil,
-        verifyResult.payment as PaymentRecord,
-      );
+      // Without the server's record, keep what the app knows about the payment
+      const { premiumUntil, payment } = verifyResult.value;
+      await onPaymentSuccess(premiumUntil, payment ?? {
+        orderId: order.orderId,
+        paymentId: razorpayResponse.razorpay_payment_id,
+        amount: order.amount,
+        currency: order.currency,
+        paidAt: new Date().toISOString(),
+        premiumUntil,
+      });
       onClose();
     } catch (err: unknown) {
       const message =
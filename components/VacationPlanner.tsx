@@ -8,17 +8,21 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useThemeContext } from '../contexts/ThemeContext';
-import { Subject, Timetable } from '../lib/types';
+import { AcademicCalendar, Subject, Timetable, TimetableRotation } from '../lib/types';
 import {
   getVacationDays,
   calculateVacationImpact,
   findBestVacationWindows,
   VacationWindow,
 } from '../lib/vacationPlanner';
+import { getEventDates, manualHolidayId, toggleManualHoliday } from '../lib/academicCalendar';
 import CalendarPicker from './CalendarPicker';
 
 interface VacationPlannerProps {
   timetable: Timetable;
+  rotation: TimetableRotation | null;
+  calendar: AcademicCalendar;
+  onCalendarChange: (calendar: AcademicCalendar) => void;
   subjectMap: Map<string, Subject>;
   globalThreshold: number;
   subjectThresholds: Record<string, number>;
@@ -32,6 +36,9 @@ const DAY_NAMES_SHORT = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
 export default function VacationPlanner({
   timetable,
+  rotation,
+  calendar,
+  onCalendarChange,
   subjectMap,
   globalThreshold,
   subjectThresholds,
@@ -39,7 +46,6 @@ export default function VacationPlanner({
   const { dark, colors } = useThemeContext();
   const [startDate, setStartDate] = useState<Date | null>(null);
   const [endDate, setEndDate] = useState<Date | null>(null);
-  const [holidays, setHolidays] = useState<Set<string>>(new Set());
   const [showCalendar, setShowCalendar] = useState(false);
   const [suggestions, setSuggestions] = useState<VacationWindow[] | null>(null);
   const [showSuggestions, setShowSuggestions] = useState(false);
@@ -53,43 +59,35 @@ export default function VacationPlanner({
   const handleSelectDate = useCallback((s: Date | null, e: Date | null) => {
     setStartDate(s);
     setEndDate(e);
-    setHolidays(new Set());
     setSuggestions(null);
     setShowSuggestions(false);
   }, []);
 
+  // Holidays marked here are saved to the academic calendar
   const handleToggleHoliday = useCallback((dateStr: string) => {
-    setHolidays(prev => {
-      const next = new Set(prev);
-      if (next.has(dateStr)) next.delete(dateStr);
-      else next.add(dateStr);
-      return next;
-    });
-  }, []);
+    onCalendarChange(toggleManualHoliday(calendar, dateStr));
+  }, [calendar, onCalendarChange]);
+
+  const holidays = useMemo(() => getEventDates(calendar), [calendar]);
 
   const toggleCalendar = useCallback(() => {
     setShowCalendar(prev => !prev);
   }, []);
 
-  // Days in range — stable, only changes when date range changes (not holidays)
-  const daysInRange = useMemo(() => {
-    if (!startDate || !endDate) return [];
-    return getVacationDays(startDate, endDate, new Set());
-  }, [startDate, endDate]);
-
-  // Vacation days with holiday awareness — for impact calculation only
   const vacationDays = useMemo(() => {
     if (!startDate || !endDate) return [];
-    return getVacationDays(startDate, endDate, holidays);
-  }, [startDate, endDate, holidays]);
+    return getVacationDays(startDate, endDate, timetable, rotation, calendar);
+  }, [startDate, endDate, timetable, rotation, calendar]);
+
+  const excludedCount = vacationDays.filter(d => d.isHoliday && !d.isSunday).length;
 
   // Calculate impact
   const impactResult = useMemo(() => {
     if (vacationDays.length === 0) return null;
     return calculateVacationImpact(
-      vacationDays, timetable, subjectMap, globalThreshold, subjectThresholds,
+      vacationDays, timetable, rotation, calendar, subjectMap, globalThreshold, subjectThresholds,
     );
-  }, [vacationDays, timetable, subjectMap, globalThreshold, subjectThresholds]);
+  }, [vacationDays, timetable, rotation, calendar, subjectMap, globalThreshold, subjectThresholds]);
 
   const atRiskCount = impactResult
     ? impactResult.impacts.filter(i => i.breachesThreshold && !i.isNoData).length
@@ -97,16 +95,15 @@ export default function VacationPlanner({
 
   const handleFindBest = useCallback(() => {
     const windows = findBestVacationWindows(
-      timetable, subjectMap, globalThreshold, subjectThresholds,
+      timetable, rotation, calendar, subjectMap, globalThreshold, subjectThresholds,
     );
     setSuggestions(windows);
     setShowSuggestions(true);
-  }, [timetable, subjectMap, globalThreshold, subjectThresholds]);
+  }, [timetable, rotation, calendar, subjectMap, globalThreshold, subjectThresholds]);
 
   const handleApplySuggestion = useCallback((w: VacationWindow) => {
     setStartDate(w.startDate);
     setEndDate(w.endDate);
-    setHolidays(new Set());
     setShowCalendar(false);
     setShowSuggestions(false);
     setSuggestions(null);
@@ -180,38 +177,46 @@ export default function VacationPlanner({
       )}
 
       {/* Holiday markers */}
-      {startDate && endDate && daysInRange.length > 0 && (
+      {startDate && endDate && vacationDays.length > 0 && (
         <View style={styles.holidaySection}>
           <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
             Mark holidays
           </Text>
           <View style={styles.holidayList}>
-            {daysInRange.map(day => {
-              const isHoliday = holidays.has(day.dateStr);
+            {vacationDays.map(day => {
+              const isHoliday = day.isHoliday;
+              // Imported events and semester bounds are edited in the academic calendar
+              const isFixed = day.isSunday || day.isOutsideSemester
+                || (!!day.calendarEvent && day.calendarEvent.id !== manualHolidayId(day.dateStr));
+              const fixedLabel = day.isSunday
+                ? 'Auto-excluded'
+                : day.isOutsideSemester
+                  ? 'Outside semester'
+                  : isFixed ? day.calendarEvent?.title : null;
               return (
-                <View key={day.dateStr} style={[styles.holidayRow, day.isSunday && { opacity: 0.5 }]}>
+                <View key={day.dateStr} style={[styles.holidayRow, isFixed && { opacity: 0.5 }]}>
                   <View style={styles.holidayLabelRow}>
-                    <Text style={[styles.holidayDate, { color: day.isSunday ? colors.textTertiary : colors.text }]}>
+                    <Text style={[styles.holidayDate, { color: isFixed ? colors.textTertiary : colors.text }]}>
                       {DAY_NAMES_SHORT[day.jsDay]} {day.date.getDate()}
                     </Text>
-                    {day.isSunday && (
-                      <Text style={[styles.autoExcludedLabel, { color: colors.textTertiary }]}>
-                        Auto-excluded
+                    {fixedLabel && (
+                      <Text style={[styles.autoExcludedLabel, { color: colors.textTertiary }]} numberOfLines={1}>
+                        {fixedLabel}
                       </Text>
                     )}
                   </View>
                   <Switch
                     value={day.isSunday || isHoliday}
-                    onValueChange={() => { if (!day.isSunday) handleToggleHoliday(day.dateStr); }}
-                    disabled={day.isSunday}
+                    onValueChange={() => { if (!isFixed) handleToggleHoliday(day.dateStr); }}
+                    disabled={isFixed}
                     trackColor={{
                       false: dark ? '#475569' : '#cbd5e1',
-                      true: day.isSunday
+                      true: isFixed
                         ? (dark ? 'rgba(148, 163, 184, 0.3)' : 'rgba(148, 163, 184, 0.25)')
                         : (dark ? 'rgba(165, 180, 252, 0.5)' : 'rgba(99, 102, 241, 0.4)'),
                     }}
                     thumbColor={
-                      day.isSunday
+                      isFixed
                         ? (dark ? '#64748b' : '#94a3b8')
                         : isHoliday ? colors.accent : (dark ? '#94a3b8' : '#f1f5f9')
                     }
@@ -232,7 +237,7 @@ export default function VacationPlanner({
             </Text>
             <Text style={[styles.impactSubtitle, { color: colors.textSecondary }]}>
               {impactResult.totalClasses} {impactResult.totalClasses === 1 ? 'class' : 'classes'} across {impactResult.activeDays} {impactResult.activeDays === 1 ? 'day' : 'days'}
-              {holidays.size > 0 ? ` (${holidays.size} holiday${holidays.size > 1 ? 's' : ''} excluded)` : ''}
+              {excludedCount > 0 ? ` (${excludedCount} holiday${excludedCount > 1 ? 's' : ''} excluded)` : ''}
             </Text>
           </View>
 
@@ -472,6 +477,7 @@ const styles = StyleSheet.create({
   autoExcludedLabel: {
     fontSize: 11,
     fontStyle: 'italic',
+    flexShrink: 1,
   },
   impactSection: {
     marginTop: 16,
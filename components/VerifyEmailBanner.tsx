@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useThemeContext } from '../contexts/ThemeContext';
+import { describeAuthError } from '../lib/useAuth';
+
+interface VerifyEmailBannerProps {
+  email: string;
+  onResend: () => Promise<void>;
+  // Re-checks with Firebase; the banner goes away once it reports verified
+  onCheck: () => Promise<void>;
+}
+
+export default function VerifyEmailBanner({ email, onResend, onCheck }: VerifyEmailBannerProps) {
+  const { dark, colors } = useThemeContext();
+  const [note, setNote] = useState<string | null>(null);
+  const warnColor = dark ? '#fbbf24' : '#d97706';
+
+  const handle = (action: () => Promise<void>, done: string) => async () => {
+    setNote(null);
+    try {
+      await action();
+      setNote(done);
+    } catch (err) {
+      setNote(describeAuthError(err));
+    }
+  };
+
+  return (
+    <View
+      style={[
+        styles.banner,
+        {
+          backgroundColor: dark ? 'rgba(251, 191, 36, 0.12)' : 'rgba(245, 158, 11, 0.1)',
+          borderColor: dark ? 'rgba(251, 191, 36, 0.25)' : 'rgba(245, 158, 11, 0.25)',
+        },
+      ]}
+    >
+      <View style={styles.row}>
+        <Ionicons name="mail-unread-outline" size={16} color={warnColor} />
+        <Text style={[styles.text, { color: colors.text }]}>
+          Verify your email. We sent a link to {email}.
+        </Text>
+      </View>
+      <View style={styles.actions}>
+        <TouchableOpacity onPress={handle(onResend, 'Sent. Check your inbox and spam folder.')} accessibilityRole="button">
+          <Text style={[styles.action, { color: colors.accent }]}>Resend link</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={handle(onCheck, "Not verified yet. Open the link, then try again.")} accessibilityRole="button">
+          <Text style={[styles.action, { color: colors.accent }]}>I've verified</Text>
+        </TouchableOpacity>
+      </View>
+      {note && <Text style={[styles.note, { color: colors.textSecondary }]}>{note}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    marginHorizontal: 16,
+    marginTop: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  text: {
+    flex: 1,
+    fontSize: 13,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 20,
+    marginTop: 8,
+    marginLeft: 24,
+  },
+  action: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  note: {
+    fontSize: 12,
+    marginTop: 6,
+    marginLeft: 24,
+  },
+});
@@ -1,7 +1,7 @@
 import React, { useMemo, useState } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
 import { useThemeContext } from '../contexts/ThemeContext';
-import { Subject, Timetable } from '../lib/types';
+import { Subject, Timetable, TimetableRotation } from '../lib/types';
 import {
   calculateStatus,
   getEffectiveThreshold,
@@ -9,9 +9,11 @@ import {
   getStatusBgRgba,
   getSubjectKey,
 } from '../lib/utils';
+import { getRotationLabel, getSlotsForDate } from '../lib/timetable';
 
 interface WeekOverviewProps {
   timetable: Timetable;
+  rotation: TimetableRotation | null;
   subjects: Subject[];
   globalThreshold: number;
   subjectThresholds: Record<string, number>;
@@ -25,9 +27,24 @@ function getTodayIndex(): number {
   return jsDay === 0 ? -1 : jsDay - 1;
 }
 
+// Dates of this week's Mon..Sat (next week's on a Sunday)
+function getWeekDates(): Date[] {
+  const monday = new Date();
+  monday.setHours(0, 0, 0, 0);
+  const jsDay = monday.getDay();
+  monday.setDate(monday.getDate() + (jsDay === 0 ? 1 : 1 - jsDay));
+  return DAY_NAMES.map((_, i) => {
+    const d = new Date(monday);
+    d.setDate(monday.getDate() + i);
+    return d;
+  });
+}
+
 interface DayDetail {
   code: string;
   name: string;
+  start: string;
+  units: number;
   percentage: number;
   status: 'safe' | 'critical' | 'low' | 'no_data';
   color: string;
@@ -35,6 +52,7 @@ interface DayDetail {
 
 export default function WeekOverview({
   timetable,
+  rotation,
   subjects,
   globalThreshold,
   subjectThresholds,
@@ -43,6 +61,8 @@ export default function WeekOverview({
   const [expandedDay, setExpandedDay] = useState<number | null>(null);
 
   const todayIndex = getTodayIndex();
+  const weekDates = useMemo(() => getWeekDates(), []);
+  const rotationLabel = rotation && rotation.mode === 'weeks' ? getRotationLabel(rotation, weekDates[0]) : '';
 
   const subjectMap = useMemo(() => {
     const map: Record<string, Subject> = {};
@@ -55,8 +75,8 @@ export default function WeekOverview({
   // For each day, compute dot colors + detail info
   const dayData = useMemo(() => {
     return DAY_NAMES.map((_, dayIdx) => {
-      const codes = timetable[dayIdx] ?? [];
-      if (codes.length === 0) {
+      const slots = getSlotsForDate(timetable, rotation, weekDates[dayIdx]);
+      if (slots.length === 0) {
         return {
           dots: [{ color: dark ? '#cbd5e1' : '#94a3b8' }],
           details: [] as DayDetail[],
@@ -64,8 +84,8 @@ export default function WeekOverview({
       }
       const dots: { color: string }[] = [];
       const details: DayDetail[] = [];
-      for (const code of codes) {
-        const subject = subjectMap[code];
+      for (const slot of slots) {
+        const subject = subjectMap[slot.code];
         if (!subject) {
           dots.push({ color: dark ? '#cbd5e1' : '#94a3b8' });
           continue;
@@ -75,8 +95,10 @@ export default function WeekOverview({
         const color = getStatusHexColor(status, dark);
         dots.push({ color });
         details.push({
-          code,
+          code: slot.code,
           name: subject.name,
+          start: slot.start,
+          units: slot.weight,
           percentage: subject.percentage,
           status,
           color,
@@ -84,7 +106,7 @@ export default function WeekOverview({
       }
       return { dots, details };
     });
-  }, [timetable, subjectMap, globalThreshold, subjectThresholds, dark]);
+  }, [timetable, rotation, weekDates, subjectMap, globalThreshold, subjectThresholds, dark]);
 
   const handleDayPress = (dayIdx: number) => {
     setExpandedDay(expandedDay === dayIdx ? null : dayIdx);
@@ -100,7 +122,7 @@ export default function WeekOverview({
   return (
     <View style={[styles.card, cardBase]}>
       <Text style={[styles.label, { color: colors.textTertiary }]}>
-        WEEK AT A GLANCE
+        WEEK AT A GLANCE{rotationLabel ? ` · ${rotationLabel}` : ''}
       </Text>
 
       <View style={styles.daysRow}>
@@ -169,8 +191,11 @@ export default function WeekOverview({
               ]}
             >
               <View style={[styles.detailDot, { backgroundColor: detail.color }]} />
+              <Text style={[styles.detailTime, { color: colors.textTertiary }]}>
+                {detail.start}
+              </Text>
               <Text style={[styles.detailName, { color: colors.text }]} numberOfLines={1}>
-                {detail.name}
+                {detail.name}{detail.units > 1 ? ` ×${detail.units}` : ''}
               </Text>
               <Text style={[styles.detailPct, { color: detail.color }]}>
                 {detail.percentage.toFixed(0)}%
@@ -266,6 +291,10 @@ const styles = StyleSheet.create({
     height: 8,
     borderRadius: 4,
   },
+  detailTime: {
+    fontSize: 11,
+    fontFamily: 'monospace',
+  },
   detailName: {
     fontSize: 13,
     flex: 1,
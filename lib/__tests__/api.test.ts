@@ -0,0 +1,89 @@
+import { verifyPayment } from '../api';
+import { apiRequest } from '../apiClient';
+import { object, string } from '../schema';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+jest.mock('../firebase', () => ({ getFirebaseAuth: jest.fn(() => ({ currentUser: null })) }));
+
+const fetchMock = jest.fn();
+
+function respond(status: number, body: unknown) {
+  fetchMock.mockResolvedValueOnce({ ok: status < 400, status, json: async () => body });
+}
+
+const okSchema = object<{ ok: string }>({ ok: string });
+
+beforeAll(() => {
+  global.fetch = fetchMock as unknown as typeof fetch;
+});
+
+beforeEach(() => {
+  fetchMock.mockReset();
+});
+
+describe('apiRequest errors', () => {
+  it('reads the quota from a 429', async () => {
+    respond(429, { error: 'Limit reached', quota: { used: 3, resetMonth: '2024-03' } });
+
+    const result = await apiRequest('/api/test', { schema: okSchema, timeoutMs: 1000 });
+
+    expect(result).toEqual({
+      ok: false,
+      error: { kind: 'quota', message: 'Limit reached', quota: { used: 3, resetMonth: '2024-03' } },
+    });
+  });
+
+  it('drops a malformed quota', async () => {
+    respond(200, { success: false, code: 'QUOTA_EXCEEDED', quota: { used: 'three' } });
+
+    const result = await apiRequest('/api/test', { schema: okSchema, timeoutMs: 1000 });
+
+    expect(result).toEqual({ ok: false, error: { kind: 'quota', message: 'Server error (200)', quota: undefined } });
+  });
+
+  it('treats a body that is not an object as a plain server error', async () => {
+    respond(502, ['Bad gateway']);
+
+    const result = await apiRequest('/api/test', { schema: okSchema, timeoutMs: 1000 });
+
+    expect(result).toEqual({ ok: false, error: { kind: 'server', message: 'Server error (502)', status: 502 } });
+  });
+});
+
+describe('verifyPayment', () => {
+  const verify = () => verifyPayment('order_1', 'pay_1', 'sig', 'u1', null);
+
+  it('keeps the payment record the server sends', async () => {
+    const payment = {
+      orderId: 'order_1',
+      paymentId: 'pay_1',
+      amount: 1900,
+      currency: 'INR',
+      paidAt: '2024-03-04T09:00:00.000Z',
+      premiumUntil: '2024-04-04T09:00:00.000Z',
+    };
+    respond(200, { premiumUntil: payment.premiumUntil, payment });
+
+    const result = await verify();
+
+    expect(result).toEqual({ ok: true, value: { premiumUntil: payment.premiumUntil, payment } });
+  });
+
+  it('still succeeds when the payment record is incomplete', async () => {
+    respond(200, { premiumUntil: '2024-04-04T09:00:00.000Z', payment: { orderId: 'order_1' } });
+
+    const result = await verify();
+
+    expect(result).toEqual({ ok: true, value: { premiumUntil: '2024-04-04T09:00:00.000Z' } });
+  });
+
+  it('fails without premiumUntil', async () => {
+    respond(200, { payment: null });
+
+    const result = await verify();
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error.kind).toBe('validation');
+  });
+});
@@ -0,0 +1,214 @@
+import {
+  AppState,
+  appReducer,
+  INITIAL_STATE,
+  selectCanRefresh,
+  selectIsStale,
+  selectProvisionalData,
+} from '../appStore';
+import { UserData } from '../firestore';
+import { RefreshOutcome } from '../refreshService';
+import { AttendanceData, AttendanceMark } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+jest.mock('../firebase', () => ({ getFirebaseAuth: jest.fn() }));
+
+const attendance: AttendanceData = {
+  student: { name: 'A', usn: '1' },
+  subjects: [{ name: 'Physics', code: 'PH101', attended: 8, total: 10, percentage: 80, status: 'safe' }],
+  lastUpdated: '2024-03-04T08:00:00.000Z',
+  threshold: 75,
+};
+
+const loaded: AppState = { ...INITIAL_STATE, attendanceData: attendance, threshold: 80, isInitialized: true };
+
+function remote(overrides: Partial<UserData> = {}): UserData {
+  return {
+    attendance,
+    threshold: 80,
+    subjectThresholds: {},
+    timetable: {},
+    timetableRotation: null,
+    academicCalendar: INITIAL_STATE.academicCalendar,
+    skipPlan: null,
+    erpUrl: '',
+    erpAdapterId: '',
+    erpCredentials: null,
+    erpVault: null,
+    erpCredentialsStorage: 'cloud',
+    lastSynced: '',
+    premiumUntil: null,
+    trialEndsAt: null,
+    refreshCount: 0,
+    refreshCountResetMonth: '',
+    payments: [],
+    ...overrides,
+  };
+}
+
+function outcome(overrides: Partial<RefreshOutcome> = {}): RefreshOutcome {
+  return {
+    mode: 'pull',
+    ok: true,
+    startedAt: '2024-03-04T09:00:00.000Z',
+    durationMs: 1200,
+    errorClass: null,
+    error: null,
+    quota: null,
+    joined: 0,
+    ...overrides,
+  };
+}
+
+function mark(status: AttendanceMark['status']): AttendanceMark {
+  return { date: '2024-03-04', code: 'PH101', start: '09:00', weight: 1, status, markedAt: '2024-03-04T09:00:00.000Z' };
+}
+
+describe('appReducer', () => {
+  describe('remoteUpdate', () => {
+    it('takes remote values for unlocked fields', () => {
+      const next = appReducer(loaded, {
+        type: 'remoteUpdate',
+        remote: remote({ threshold: 70, subjectThresholds: { PH101: 85 } }),
+        locked: [],
+      });
+
+      expect(next.threshold).toBe(70);
+      expect(next.subjectThresholds).toEqual({ PH101: 85 });
+    });
+
+    it('keeps local values for locked fields', () => {
+      const state = { ...loaded, premiumUntil: '2024-06-01T00:00:00.000Z' };
+      const next = appReducer(state, {
+        type: 'remoteUpdate',
+        remote: remote({ threshold: 70, premiumUntil: '2024-04-01T00:00:00.000Z' }),
+        locked: ['threshold', 'premiumUntil'],
+      });
+
+      expect(next.threshold).toBe(80);
+      expect(next.premiumUntil).toBe('2024-06-01T00:00:00.000Z');
+    });
+
+    it('locks the timetable and its rotation together', () => {
+      const timetable = { 0: [] };
+      const next = appReducer(loaded, {
+        type: 'remoteUpdate',
+        remote: remote({ timetable }),
+        locked: ['timetableRotation'],
+      });
+
+      expect(next.timetable).toBe(loaded.timetable);
+    });
+
+    it('keeps the reference of unchanged attendance', () => {
+      const next = appReducer(loaded, {
+        type: 'remoteUpdate',
+        remote: remote({ attendance: { ...attendance } }),
+        locked: [],
+      });
+
+      expect(next.attendanceData).toBe(attendance);
+    });
+
+    it('always takes the refresh count the server wrote', () => {
+      const state = { ...loaded, refreshCount: 2, refreshCountResetMonth: '2024-02' };
+      const next = appReducer(state, {
+        type: 'remoteUpdate',
+        remote: remote({ refreshCount: 1, refreshCountResetMonth: '2024-03' }),
+        locked: ['attendance'],
+      });
+
+      expect(next.refreshCount).toBe(1);
+      expect(next.refreshCountResetMonth).toBe('2024-03');
+    });
+  });
+
+  describe('refreshSettled', () => {
+    it('takes the server quota when there is one', () => {
+      const quota = { used: 4, resetMonth: '2024-03' };
+      const next = appReducer({ ...loaded, refreshCount: 2 }, { type: 'refreshSettled', outcome: outcome({ quota }) });
+
+      expect(next.refreshCount).toBe(4);
+      expect(next.refreshCountResetMonth).toBe('2024-03');
+      expect(next.lastRefresh?.quota).toBe(quota);
+    });
+
+    it('shows an error for a failed pull and notes a locked login', () => {
+      const next = appReducer(loaded, {
+        type: 'refreshSettled',
+        outcome: outcome({ ok: false, errorClass: 'locked', error: 'Your ERP account is locked.' }),
+      });
+
+      expect(next.error).toBe('Refresh failed. Your ERP account is locked.');
+      expect(next.loginUnavailable).toBe('locked');
+    });
+
+    it('keeps quiet about a quota refused during auto refresh', () => {
+      const next = appReducer(loaded, {
+        type: 'refreshSettled',
+        outcome: outcome({ mode: 'auto', ok: false, errorClass: 'quota', error: 'Monthly limit reached.' }),
+      });
+
+      expect(next.error).toBeNull();
+    });
+  });
+
+  it('reset returns the initial state', () => {
+    const state = { ...loaded, ledger: { marks: [mark('attended')], conflicts: [] }, error: 'boom' };
+
+    expect(appReducer(state, { type: 'reset' })).toBe(INITIAL_STATE);
+  });
+});
+
+describe('selectIsStale', () => {
+  const updatedAt = new Date(attendance.lastUpdated).getTime();
+
+  it('is false without attendance', () => {
+    expect(selectIsStale(INITIAL_STATE, updatedAt)).toBe(false);
+  });
+
+  it('turns stale after two hours', () => {
+    expect(selectIsStale(loaded, updatedAt + 2 * 60 * 60 * 1000)).toBe(false);
+    expect(selectIsStale(loaded, updatedAt + 2 * 60 * 60 * 1000 + 1)).toBe(true);
+  });
+});
+
+describe('selectCanRefresh', () => {
+  const now = new Date('2024-03-04T10:00:00.000Z');
+  const spent = { ...loaded, refreshCount: 3, refreshCountResetMonth: '2024-03' };
+
+  it('lets the first connect through without checking the quota', () => {
+    expect(selectCanRefresh({ ...INITIAL_STATE, refreshCount: 3, refreshCountResetMonth: '2024-03' }, 'connect', now)).toBe(true);
+    expect(selectCanRefresh(INITIAL_STATE, 'pull', now)).toBe(false);
+  });
+
+  it('holds a reconnect to the quota like any other refresh', () => {
+    expect(selectCanRefresh(spent, 'connect', now)).toBe(false);
+    expect(selectCanRefresh(spent, 'pull', now)).toBe(false);
+    expect(selectCanRefresh({ ...spent, refreshCount: 2 }, 'connect', now)).toBe(true);
+  });
+
+  it('lets premium users reconnect with the quota spent', () => {
+    expect(selectCanRefresh({ ...spent, premiumUntil: '2024-04-01T00:00:00.000Z' }, 'connect', now)).toBe(true);
+  });
+});
+
+describe('selectProvisionalData', () => {
+  it('is null without attendance', () => {
+    expect(selectProvisionalData(INITIAL_STATE)).toBeNull();
+  });
+
+  it('returns the ERP figures as-is without marks', () => {
+    expect(selectProvisionalData(loaded)).toBe(attendance);
+  });
+
+  it('layers pending marks on top', () => {
+    const state = { ...loaded, ledger: { marks: [mark('attended'), mark('absent'), mark('cancelled')], conflicts: [] } };
+    const subject = selectProvisionalData(state)!.subjects[0];
+
+    expect(subject.attended).toBe(9);
+    expect(subject.total).toBe(12);
+    expect(subject.percentage).toBe(75);
+  });
+});
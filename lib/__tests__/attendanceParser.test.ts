@@ -0,0 +1,78 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  AttendanceParser,
+  htmlTableParser,
+  jsonParser,
+  parseAttendance,
+  splitSubject,
+} from '../attendanceParser';
+
+// Each saved portal page sits next to the subjects it should produce, in
+// <name>.expected.json (null for pages that aren't attendance pages). When
+// a portal changes, add its page here with the output it should give.
+const FIXTURES = path.join(__dirname, 'fixtures', 'attendance');
+const OPTIONS = { threshold: 75 };
+
+const fixtures = fs.readdirSync(FIXTURES)
+  .filter(file => !file.endsWith('.expected.json'))
+  .map(file => ({
+    file,
+    body: fs.readFileSync(path.join(FIXTURES, file), 'utf8'),
+    expected: JSON.parse(fs.readFileSync(path.join(FIXTURES, file.replace(/\.(html|json)$/, '.expected.json')), 'utf8')),
+  }));
+
+describe('parseAttendance golden files', () => {
+  it.each(fixtures.map(f => [f.file, f] as const))('%s', (_, { body, expected }) => {
+    expect(parseAttendance(body, OPTIONS)).toEqual(expected);
+  });
+});
+
+describe.each([
+  ['htmlTable', htmlTableParser, '.html'],
+  ['json', jsonParser, '.json'],
+] as [string, AttendanceParser, string][])('%s parser', (_, parser, extension) => {
+  const own = fixtures.filter(f => f.file.endsWith(extension));
+  const others = fixtures.filter(f => !f.file.endsWith(extension));
+
+  it.each(own.map(f => [f.file, f] as const))('reads %s', (_, { body, expected }) => {
+    expect(parser.parse(body, OPTIONS)).toEqual(expected);
+  });
+
+  it.each(others.map(f => [f.file, f] as const))('leaves %s to other parsers', (_, { body }) => {
+    expect(parser.parse(body, OPTIONS)).toBeNull();
+  });
+});
+
+describe('parseAttendance', () => {
+  const page = fixtures.find(f => f.file === 'aspnet-gridview.html')!.body;
+
+  it('tries the portal\'s preferred parser first', () => {
+    const custom: AttendanceParser = { id: 'custom', parse: () => [] };
+    expect(parseAttendance(page, OPTIONS, 'custom', [htmlTableParser, custom])).toEqual([]);
+  });
+
+  it('falls back to the other parsers when the preferred one declines', () => {
+    const custom: AttendanceParser = { id: 'custom', parse: () => null };
+    expect(parseAttendance(page, OPTIONS, 'custom', [custom, htmlTableParser])).toHaveLength(4);
+  });
+
+  it('uses the threshold for statuses', () => {
+    const strict = parseAttendance(page, { threshold: 85 })!;
+    expect(strict.map(s => s.status)).toEqual(['safe', 'low', 'low', 'no_data']);
+  });
+});
+
+describe('splitSubject', () => {
+  it.each([
+    ['CS301 - Data Structures', 'CS301', 'Data Structures'],
+    ['Data Structures (CS301)', 'CS301', 'Data Structures'],
+    ['CS301 Data Structures', 'CS301', 'Data Structures'],
+    ['21CSL55: DBMS Laboratory', '21CSL55', 'DBMS Laboratory'],
+    ['CS301', 'CS301', 'CS301'],
+    ['Professional Ethics', '', 'Professional Ethics'],
+    ['LAB 2 Electronics', '', 'LAB 2 Electronics'],
+  ])('%s', (text, code, name) => {
+    expect(splitSubject(text)).toEqual({ code, name });
+  });
+});
@@ -0,0 +1,85 @@
+import fs from 'fs';
+import path from 'path';
+import { EncryptedData, decryptData, encryptData, generateKey, isLegacyEncrypted, needsReencrypt, reencryptData } from '../crypto';
+
+// Blobs written with each past format, made outside this module so they
+// show what's actually stored rather than what encryptData writes today
+interface Envelopes {
+  uid: string;
+  field: string;
+  plaintext: string;
+  dataKey: string;
+  passphrase: string;
+  v1: EncryptedData;
+  v2Passphrase: EncryptedData;
+  v2Key: EncryptedData;
+  v3Key: EncryptedData;
+  v3Passphrase: EncryptedData;
+}
+
+const envelopes: Envelopes = JSON.parse(
+  fs.readFileSync(path.join(__dirname, 'fixtures', 'crypto', 'envelopes.json'), 'utf8')
+);
+const { uid, field, plaintext, dataKey, passphrase } = envelopes;
+const context = { uid, field };
+
+jest.setTimeout(20000);
+
+describe('decryptData', () => {
+  it('reads a v1 blob with the uid as the password', async () => {
+    expect(isLegacyEncrypted(envelopes.v1)).toBe(true);
+    await expect(decryptData(envelopes.v1, uid, context)).resolves.toBe(plaintext);
+  });
+
+  it('reads v2 blobs wrapped by a passphrase or by a key', async () => {
+    await expect(decryptData(envelopes.v2Passphrase, passphrase, context)).resolves.toBe(plaintext);
+    await expect(decryptData(envelopes.v2Key, dataKey, context)).resolves.toBe(plaintext);
+  });
+
+  it('reads v3 blobs in the context they were bound to', async () => {
+    await expect(decryptData(envelopes.v3Key, dataKey, context)).resolves.toBe(plaintext);
+    await expect(
+      decryptData(envelopes.v3Passphrase, passphrase, { uid, field: 'erpVault.passphrase' })
+    ).resolves.toBe(plaintext);
+  });
+
+  it('refuses a v3 blob read as another user or field', async () => {
+    await expect(decryptData(envelopes.v3Key, dataKey, { uid: 'someone-else', field })).rejects.toThrow();
+    await expect(decryptData(envelopes.v3Key, dataKey, { uid, field: 'erpVault.passphrase' })).rejects.toThrow();
+  });
+
+  it('refuses a v3 blob whose recorded context was rewritten to match', async () => {
+    const moved = { ...envelopes.v3Key, aad: `unitrack:someone-else:${field}` } as EncryptedData;
+
+    await expect(decryptData(moved, dataKey, { uid: 'someone-else', field })).rejects.toThrow();
+  });
+
+  it('refuses the wrong secret', async () => {
+    await expect(decryptData(envelopes.v3Key, generateKey(), context)).rejects.toThrow();
+  });
+});
+
+describe('reencryptData', () => {
+  it('upgrades every older blob to v3, readable with the same secret', async () => {
+    const older: [EncryptedData, string][] = [
+      [envelopes.v1, uid],
+      [envelopes.v2Passphrase, passphrase],
+      [envelopes.v2Key, dataKey],
+    ];
+
+    for (const [blob, secret] of older) {
+      expect(needsReencrypt(blob)).toBe(true);
+      const upgraded = await reencryptData(blob, secret, context);
+
+      expect(upgraded.v).toBe(3);
+      expect(needsReencrypt(upgraded)).toBe(false);
+      await expect(decryptData(upgraded, secret, context)).resolves.toBe(plaintext);
+    }
+  });
+
+  it('leaves current blobs alone', async () => {
+    expect(needsReencrypt(envelopes.v3Key)).toBe(false);
+    expect(needsReencrypt(envelopes.v3Passphrase)).toBe(false);
+    expect(needsReencrypt(await encryptData(plaintext, dataKey, 'none', context))).toBe(false);
+  });
+});
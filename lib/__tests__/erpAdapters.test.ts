@@ -0,0 +1,48 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ErpAdapter, loadCachedAdapters, refreshAdapters } from '../erpAdapters';
+import { SEED_ADAPTERS } from '../erpAdapterSeed';
+import { fetchErpAdapters } from '../api';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+jest.mock('../api', () => ({ fetchErpAdapters: jest.fn() }));
+
+const fetchRemote = fetchErpAdapters as jest.MockedFunction<typeof fetchErpAdapters>;
+
+const college: ErpAdapter = {
+  id: 'eit',
+  college: 'Example Institute of Technology',
+  vendor: 'Contineo',
+  erpUrl: 'https://erp.example.edu',
+  usernameLabel: 'USN',
+  passwordLabel: 'Password',
+  extraFields: [],
+};
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.clearAllMocks();
+});
+
+describe('college registry', () => {
+  it('starts from the bundled list on a fresh install', async () => {
+    expect(SEED_ADAPTERS.length).toBeGreaterThan(0);
+    expect(await loadCachedAdapters()).toBe(SEED_ADAPTERS);
+  });
+
+  it('caches what the server sends and prefers it next time', async () => {
+    fetchRemote.mockResolvedValue({ ok: true, value: [college] });
+
+    expect(await refreshAdapters()).toEqual([college]);
+    expect(await loadCachedAdapters()).toEqual([college]);
+  });
+
+  it('keeps the current list when the server fails or sends nothing', async () => {
+    fetchRemote.mockResolvedValueOnce({ ok: false, error: { kind: 'network', message: 'offline' } });
+    fetchRemote.mockResolvedValueOnce({ ok: true, value: [] });
+
+    expect(await refreshAdapters()).toBeNull();
+    expect(await refreshAdapters()).toBeNull();
+    expect(await loadCachedAdapters()).toBe(SEED_ADAPTERS);
+  });
+});
@@ -0,0 +1,65 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { loadHistory } from '../history';
+import { loadAttendanceSnapshots, saveAttendanceSnapshot } from '../firestore';
+import { AttendanceData, AttendanceSnapshot } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+jest.mock('../firestore', () => ({
+  loadAttendanceSnapshots: jest.fn(),
+  saveAttendanceSnapshot: jest.fn(() => Promise.resolve()),
+}));
+
+const loadRemote = loadAttendanceSnapshots as jest.MockedFunction<typeof loadAttendanceSnapshots>;
+const saveRemote = saveAttendanceSnapshot as jest.MockedFunction<typeof saveAttendanceSnapshot>;
+
+const UID = 'u1';
+
+function snapshot(takenAt: string): AttendanceSnapshot {
+  return { takenAt, lastUpdated: takenAt, subjects: [] };
+}
+
+const seed: AttendanceData = {
+  student: { name: 'A', usn: '1' },
+  subjects: [{ name: 'Maths', code: 'MA101', attended: 8, total: 10, percentage: 80, status: 'safe' }],
+  lastUpdated: 'yesterday, 5pm',
+  threshold: 75,
+};
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.clearAllMocks();
+});
+
+describe('loadHistory', () => {
+  it('uploads snapshots that only the local cache has', async () => {
+    const local = snapshot('2024-03-01T08:00:00.000Z');
+    const shared = snapshot('2024-03-02T08:00:00.000Z');
+    await AsyncStorage.setItem(`@attendanceHistory:${UID}`, JSON.stringify([local, shared]));
+    loadRemote.mockResolvedValue([shared]);
+
+    const history = await loadHistory(UID, null);
+
+    expect(history).toEqual([local, shared]);
+    expect(saveRemote).toHaveBeenCalledTimes(1);
+    expect(saveRemote).toHaveBeenCalledWith(UID, local);
+  });
+
+  it('uploads nothing while offline', async () => {
+    await AsyncStorage.setItem(`@attendanceHistory:${UID}`, JSON.stringify([snapshot('2024-03-01T08:00:00.000Z')]));
+    loadRemote.mockRejectedValue(new Error('offline'));
+
+    expect(await loadHistory(UID, null)).toHaveLength(1);
+    expect(saveRemote).not.toHaveBeenCalled();
+  });
+
+  it('seeds the first snapshot even when lastUpdated is not a date', async () => {
+    loadRemote.mockResolvedValue([]);
+
+    const [first] = await loadHistory(UID, seed);
+
+    expect(Number.isNaN(Date.parse(first.takenAt))).toBe(false);
+    expect(first.lastUpdated).toBe('yesterday, 5pm');
+    expect(saveRemote).toHaveBeenCalledWith(UID, first);
+  });
+});
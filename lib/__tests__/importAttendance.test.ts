@@ -0,0 +1,38 @@
+import { parseDelimited } from '../importAttendance';
+
+describe('parseDelimited', () => {
+  it('reads CSV with quoted delimiters and doubled quotes', () => {
+    const csv = 'Subject,Attended,Total\n"Maths, Applied",18,20\n"The ""Lab""",9,10\n';
+
+    expect(parseDelimited(csv)).toEqual([
+      ['Subject', 'Attended', 'Total'],
+      ['Maths, Applied', '18', '20'],
+      ['The "Lab"', '9', '10'],
+    ]);
+  });
+
+  it('keeps a line break inside a quoted cell in that cell', () => {
+    // Excel writes wrapped header and cell text like this
+    const csv = 'Subject,"Classes\r\nAttended",Total\r\n"Data\r\nStructures",18,20\r\nPhysics,9,12\r\n';
+
+    expect(parseDelimited(csv)).toEqual([
+      ['Subject', 'Classes\nAttended', 'Total'],
+      ['Data\nStructures', '18', '20'],
+      ['Physics', '9', '12'],
+    ]);
+  });
+
+  it('splits a pasted table on tabs and drops blank lines', () => {
+    expect(parseDelimited('\uFEFFSubject\tAttended\n\nPhysics\t9\n')).toEqual([
+      ['Subject', 'Attended'],
+      ['Physics', '9'],
+    ]);
+  });
+
+  it('falls back to runs of spaces for text that lost its tabs', () => {
+    expect(parseDelimited('Subject   Attended\nPhysics   9')).toEqual([
+      ['Subject', 'Attended'],
+      ['Physics', '9'],
+    ]);
+  });
+});
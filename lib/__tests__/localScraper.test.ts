@@ -0,0 +1,168 @@
+import fs from 'fs';
+import path from 'path';
+import { HttpResponse, PortalConfig, scrapeAttendance, Transport } from '../localScraper';
+import { fetchAttendance } from '../attendanceSource';
+import { fetchAttendanceFromApi, recordDeviceRefresh } from '../api';
+import { loadCachedAdapters } from '../erpAdapters';
+import { ErpLogin, FetchStage } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+jest.mock('../firebase', () => ({ getFirebaseAuth: jest.fn() }));
+jest.mock('../api', () => ({
+  ...jest.requireActual('../api'),
+  fetchAttendanceFromApi: jest.fn(),
+  recordDeviceRefresh: jest.fn(),
+}));
+jest.mock('../erpAdapters', () => ({
+  ...jest.requireActual('../erpAdapters'),
+  loadCachedAdapters: jest.fn(),
+}));
+
+// Saved pages from an ASP.NET student portal; the attendance page is the
+// parser fixture of the same portal
+const FIXTURES = path.join(__dirname, 'fixtures');
+const page = (name: string) => fs.readFileSync(path.join(FIXTURES, name), 'utf8');
+const LOGIN = page('portal/login.html');
+const LOGIN_FAILED = page('portal/login-failed.html');
+const HOME = page('portal/home.html');
+const ATTENDANCE = page('attendance/aspnet-gridview.html');
+const EXPECTED_SUBJECTS = JSON.parse(page('attendance/aspnet-gridview.expected.json'));
+
+const portal: PortalConfig = {
+  type: 'form',
+  loginPath: '/Student/Login.aspx',
+  usernameField: 'txtUserName',
+  passwordField: 'txtPassword',
+  extraFieldNames: { semester: 'ddlSem' },
+  loginFailedText: ['Invalid USN or Password'],
+  attendancePath: '/Student/StudentAttendance.aspx',
+  studentNamePattern: 'Welcome,\\s*([^(<]+?)\\s*\\(',
+};
+
+const login: ErpLogin = {
+  adapterId: 'eit',
+  erpUrl: 'https://erp.example.edu',
+  username: '1XX21CS045',
+  password: 'secret',
+  extra: { semester: '5' },
+  onDevice: true,
+};
+
+const ATTENDANCE_URL = 'https://erp.example.edu/Student/StudentAttendance.aspx';
+
+// Serves saved pages by URL and answers the login post with `afterLogin`
+class FixtureTransport implements Transport {
+  posts: { url: string; fields: Record<string, string> }[] = [];
+  requested: string[] = [];
+
+  constructor(private pages: Record<string, string>, private afterLogin: string) {}
+
+  get = async (url: string): Promise<HttpResponse> => {
+    this.requested.push(url);
+    const body = this.pages[url];
+    return body === undefined ? { status: 404, body: 'Not found' } : { status: 200, body };
+  };
+
+  postForm = async (url: string, fields: Record<string, string>): Promise<HttpResponse> => {
+    this.posts.push({ url, fields });
+    return { status: 200, body: this.afterLogin };
+  };
+}
+
+function portalWith(attendancePage: string, afterLogin = HOME) {
+  return new FixtureTransport({
+    'https://erp.example.edu/Student/Login.aspx': LOGIN,
+    [ATTENDANCE_URL]: attendancePage,
+  }, afterLogin);
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('scrapeAttendance', () => {
+  it('signs in and reads the attendance page', async () => {
+    const transport = portalWith(ATTENDANCE);
+    const stages: FetchStage[] = [];
+
+    const result = await scrapeAttendance(portal, login, 75, transport, undefined, stage => stages.push(stage));
+
+    expect(result.ok && result.value.subjects).toEqual(EXPECTED_SUBJECTS);
+    expect(result.ok && result.value.student).toEqual({ name: 'PRIYA S', usn: '1XX21CS045' });
+    expect(stages).toEqual(['login', 'navigate', 'parse']);
+  });
+
+  it('posts the hidden fields back with the login and extra fields', async () => {
+    const transport = portalWith(ATTENDANCE);
+
+    await scrapeAttendance(portal, login, 75, transport);
+
+    expect(transport.posts).toHaveLength(1);
+    expect(transport.posts[0].url).toBe('https://erp.example.edu/Student/./Login.aspx');
+    expect(transport.posts[0].fields).toEqual({
+      __VIEWSTATE: '/wEPDwULLTE2',
+      __EVENTVALIDATION: '/wEWBAK',
+      txtUserName: '1XX21CS045',
+      txtPassword: 'secret',
+      ddlSem: '5',
+    });
+  });
+
+  it('reports a rejected login without opening the attendance page', async () => {
+    const transport = portalWith(ATTENDANCE, LOGIN_FAILED);
+
+    const result = await scrapeAttendance(portal, login, 75, transport);
+
+    expect(!result.ok && result.error.kind).toBe('erpAuth');
+    expect(transport.requested).not.toContain(ATTENDANCE_URL);
+  });
+
+  it('reports a session that sends the attendance page back to the login', async () => {
+    const result = await scrapeAttendance(portal, login, 75, portalWith(LOGIN));
+
+    expect(result).toEqual({ ok: false, error: { kind: 'erpAuth', message: 'The portal signed us out' } });
+  });
+
+  it('reports a page without an attendance table as a layout change', async () => {
+    const result = await scrapeAttendance(portal, login, 75, portalWith(HOME));
+
+    expect(!result.ok && result.error.kind).toBe('erpLayout');
+  });
+});
+
+describe('fetchAttendance on the device', () => {
+  beforeEach(() => {
+    (loadCachedAdapters as jest.Mock).mockResolvedValue([{
+      id: 'eit',
+      college: 'Example Institute of Technology',
+      vendor: '',
+      erpUrl: login.erpUrl,
+      usernameLabel: 'USN',
+      passwordLabel: 'Password',
+      extraFields: [],
+      portal,
+    }]);
+  });
+
+  it('uses the given transport and never calls the backend fetch', async () => {
+    (recordDeviceRefresh as jest.Mock).mockResolvedValue({ ok: true, value: { quota: { used: 1, resetMonth: '2024-03' } } });
+    const transport = portalWith(ATTENDANCE);
+
+    const result = await fetchAttendance(login, 75, undefined, undefined, transport);
+
+    expect(result.ok && result.value.data.subjects).toEqual(EXPECTED_SUBJECTS);
+    expect(result.ok && result.value.quota).toEqual({ used: 1, resetMonth: '2024-03' });
+    expect(transport.posts).toHaveLength(1);
+    expect(fetchAttendanceFromApi).not.toHaveBeenCalled();
+  });
+
+  it('drops what it fetched when the server refuses to count it', async () => {
+    const quota = { used: 3, resetMonth: '2024-03' };
+    (recordDeviceRefresh as jest.Mock).mockResolvedValue({ ok: false, error: { kind: 'quota', message: 'Monthly limit reached', quota } });
+
+    const result = await fetchAttendance(login, 75, undefined, undefined, portalWith(ATTENDANCE));
+
+    expect(result).toEqual({ ok: false, error: { kind: 'quota', message: 'Monthly limit reached', quota } });
+  });
+});
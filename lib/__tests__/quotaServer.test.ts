@@ -0,0 +1,98 @@
+import { fetchAttendanceFromApi, recordDeviceRefresh } from '../api';
+import { AppState, appReducer, INITIAL_STATE } from '../appStore';
+import { createRefreshService } from '../refreshService';
+import { computePremiumStatus } from '../usePremium';
+import { AttendanceData, ErpLogin } from '../types';
+import { QuotaServer } from './support/quotaServer';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+jest.mock('../firebase', () => ({
+  getFirebaseAuth: jest.fn(() => ({ currentUser: { getIdToken: async () => 'u1' } })),
+}));
+
+const login: ErpLogin = { adapterId: 'custom', erpUrl: 'https://erp.example.edu', username: 'u', password: 'p', extra: {} };
+
+const data: AttendanceData = {
+  student: { name: 'A', usn: '1' },
+  subjects: [],
+  lastUpdated: '2024-03-15T08:00:00.000Z',
+  threshold: 75,
+};
+
+const MID_MARCH = new Date(2024, 2, 15, 9, 0);
+
+let server: QuotaServer;
+
+const refresh = () => fetchAttendanceFromApi(login, 75);
+
+beforeEach(() => {
+  server = new QuotaServer(data, () => MID_MARCH);
+  global.fetch = jest.fn(server.fetch) as unknown as typeof fetch;
+});
+
+describe('refresh quota on the server', () => {
+  it('counts each refresh and sends the count back', async () => {
+    const first = await refresh();
+    const second = await recordDeviceRefresh();
+
+    expect(first.ok && first.value.quota).toEqual({ used: 1, resetMonth: '2024-03' });
+    expect(second.ok && second.value.quota).toEqual({ used: 2, resetMonth: '2024-03' });
+    expect(server.getUser('u1').refreshCount).toBe(2);
+  });
+
+  it('starts over in a new month', async () => {
+    server.setUser('u1', { refreshCount: 3, refreshCountResetMonth: '2024-02' });
+
+    const result = await refresh();
+
+    expect(result.ok && result.value.quota).toEqual({ used: 1, resetMonth: '2024-03' });
+  });
+
+  it('refuses once the free refreshes are spent, without counting', async () => {
+    server.setUser('u1', { refreshCount: 3, refreshCountResetMonth: '2024-03' });
+
+    const result = await refresh();
+
+    expect(result).toEqual({
+      ok: false,
+      error: { kind: 'quota', message: 'Monthly limit reached', quota: { used: 3, resetMonth: '2024-03' } },
+    });
+    expect(server.getUser('u1').refreshCount).toBe(3);
+  });
+
+  it('lets trial and premium users past the free limit', async () => {
+    server.setUser('u1', { refreshCount: 3, refreshCountResetMonth: '2024-03', trialEndsAt: '2024-03-20T00:00:00.000Z' });
+
+    const result = await refresh();
+
+    expect(result.ok).toBe(true);
+  });
+
+  it('counts refreshes sent at the same time one by one', async () => {
+    const results = await Promise.all([refresh(), refresh(), refresh(), refresh()]);
+
+    expect(results.filter(r => r.ok)).toHaveLength(3);
+    expect(results.filter(r => !r.ok && r.error.kind === 'quota')).toHaveLength(1);
+    expect(server.getUser('u1').refreshCount).toBe(3);
+  });
+
+  it('is where the app gets its count from', async () => {
+    server.setUser('u1', { refreshCount: 2, refreshCountResetMonth: '2024-03' });
+    let state: AppState = { ...INITIAL_STATE, attendanceData: data, isInitialized: true };
+    const refreshService = createRefreshService({
+      canRefresh: () => computePremiumStatus(state, MID_MARCH).canRefresh,
+      loadLogin: async () => login,
+      fetchAttendance: (creds, signal) => fetchAttendanceFromApi(creds, 75, signal),
+      apply: async () => {},
+      onProgress: () => {},
+      onSettled: outcome => { state = appReducer(state, { type: 'refreshSettled', outcome }); },
+    });
+
+    expect((await refreshService.request('pull')).ok).toBe(true);
+    expect(state.refreshCount).toBe(3);
+    expect((await refreshService.request('pull')).errorClass).toBe('quota');
+    // The job start (a 404 here) and the one-shot fetch; the refused refresh never left the app
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+});
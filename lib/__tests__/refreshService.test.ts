@@ -0,0 +1,169 @@
+import { createRefreshService, RefreshServiceDeps } from '../refreshService';
+import { AttendanceFetch } from '../api';
+import { ApiResult } from '../apiClient';
+import { UnlockCancelledError } from '../credentialVault';
+import { AttendanceData, ErpLogin } from '../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+jest.mock('../firebase', () => ({ getFirebaseAuth: jest.fn() }));
+
+const login: ErpLogin = { adapterId: 'custom', erpUrl: 'https://erp.example.edu', username: 'u', password: 'p', extra: {} };
+
+const data: AttendanceData = {
+  student: { name: 'A', usn: '1' },
+  subjects: [],
+  lastUpdated: '2024-03-04T08:00:00.000Z',
+  threshold: 75,
+};
+
+function service(fetched: AttendanceFetch, overrides: Partial<RefreshServiceDeps> = {}) {
+  const deps = {
+    canRefresh: jest.fn(() => true),
+    loadLogin: jest.fn(async () => login),
+    fetchAttendance: jest.fn(async () => ({ ok: true as const, value: fetched })),
+    apply: jest.fn(async () => {}),
+    onProgress: jest.fn(),
+    onSettled: jest.fn(),
+    ...overrides,
+  };
+  return { deps, refreshService: createRefreshService(deps) };
+}
+
+// A fetch that stays pending until the test settles it or it's aborted,
+// like the real one
+function pendingFetch() {
+  let resolve: (fetched: AttendanceFetch) => void = () => {};
+  let signal: AbortSignal | undefined;
+  const fetchAttendance = jest.fn((_login: ErpLogin, abort: AbortSignal) => {
+    signal = abort;
+    return new Promise<ApiResult<AttendanceFetch>>(done => {
+      resolve = fetched => done({ ok: true, value: fetched });
+      abort.addEventListener('abort', () => done({ ok: false, error: { kind: 'network', message: 'Aborted' } }));
+    });
+  });
+  return { fetchAttendance, resolve: (fetched: AttendanceFetch) => resolve(fetched), signal: () => signal };
+}
+
+// Lets the service reach its fetch
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('createRefreshService', () => {
+  it('reports the server count with the outcome', async () => {
+    const quota = { used: 2, resetMonth: '2024-03' };
+    const { deps, refreshService } = service({ data, quota });
+
+    const outcome = await refreshService.request('pull');
+
+    expect(deps.apply).toHaveBeenCalledWith(data, 'pull', undefined);
+    expect(outcome.quota).toBe(quota);
+  });
+
+  it('reports the count the server refused with, without applying anything', async () => {
+    const quota = { used: 3, resetMonth: '2024-03' };
+    const { deps, refreshService } = service({ data }, {
+      fetchAttendance: jest.fn(async () => ({
+        ok: false as const,
+        error: { kind: 'quota' as const, message: 'Monthly limit reached', quota },
+      })),
+    });
+
+    const outcome = await refreshService.request('pull');
+
+    expect(deps.apply).not.toHaveBeenCalled();
+    expect(outcome.errorClass).toBe('quota');
+    expect(outcome.quota).toBe(quota);
+  });
+
+  it('refuses without fetching when the quota is spent', async () => {
+    const { deps, refreshService } = service({ data }, { canRefresh: jest.fn(() => false) });
+
+    const outcome = await refreshService.request('pull');
+
+    expect(deps.fetchAttendance).not.toHaveBeenCalled();
+    expect(outcome.errorClass).toBe('quota');
+  });
+
+  it('cancels, rather than failing, when the biometric prompt is dismissed', async () => {
+    const { deps, refreshService } = service({ data }, {
+      loadLogin: jest.fn(async () => { throw new UnlockCancelledError(); }),
+    });
+
+    const outcome = await refreshService.request('pull');
+
+    expect(deps.fetchAttendance).not.toHaveBeenCalled();
+    expect(outcome.errorClass).toBe('cancelled');
+  });
+
+  it('runs one fetch for requests made at the same time', async () => {
+    const fetch = pendingFetch();
+    const { deps, refreshService } = service({ data }, { fetchAttendance: fetch.fetchAttendance });
+
+    const first = refreshService.request('auto');
+    const second = refreshService.request('pull');
+    await flush();
+    fetch.resolve({ data });
+
+    const [a, b] = await Promise.all([first, second]);
+    expect(deps.fetchAttendance).toHaveBeenCalledTimes(1);
+    expect(deps.apply).toHaveBeenCalledTimes(1);
+    expect(a).toBe(b);
+    expect(a.ok).toBe(true);
+    expect(a.joined).toBe(1);
+  });
+
+  it('settles as cancelled without applying when cancelled during the fetch', async () => {
+    const fetch = pendingFetch();
+    const { deps, refreshService } = service({ data }, { fetchAttendance: fetch.fetchAttendance });
+
+    const pending = refreshService.request('pull');
+    await flush();
+    refreshService.cancel();
+    expect(fetch.signal()?.aborted).toBe(true);
+    fetch.resolve({ data });
+
+    const outcome = await pending;
+    expect(outcome.errorClass).toBe('cancelled');
+    expect(deps.apply).not.toHaveBeenCalled();
+    expect(deps.onSettled).toHaveBeenCalledWith(outcome);
+  });
+
+  it('replaces the running refresh when given a fresh login', async () => {
+    const fetch = pendingFetch();
+    const { deps, refreshService } = service({ data }, { fetchAttendance: fetch.fetchAttendance });
+    const fresh = { ...login, username: 'new' };
+
+    const running = refreshService.request('auto');
+    await flush();
+    const firstSignal = fetch.signal();
+    const replacing = refreshService.request('connect', fresh);
+    await flush();
+    fetch.resolve({ data });
+
+    expect(firstSignal?.aborted).toBe(true);
+    expect((await running).errorClass).toBe('cancelled');
+    expect((await replacing).ok).toBe(true);
+    expect(deps.fetchAttendance).toHaveBeenCalledTimes(2);
+    expect(deps.fetchAttendance).toHaveBeenLastCalledWith(fresh, expect.anything(), expect.any(Function));
+    expect(deps.apply).toHaveBeenCalledTimes(1);
+    expect(deps.apply).toHaveBeenCalledWith(data, 'connect', fresh);
+  });
+
+  it('is idle only once the refresh that replaced the running one has settled', async () => {
+    const fetch = pendingFetch();
+    const { deps, refreshService } = service({ data }, { fetchAttendance: fetch.fetchAttendance });
+    let idle = false;
+
+    refreshService.request('auto');
+    await flush();
+    refreshService.request('connect', { ...login, username: 'new' });
+    refreshService.idle().then(() => { idle = true; });
+    await flush();
+    expect(idle).toBe(false);
+
+    fetch.resolve({ data });
+    await flush();
+    expect(idle).toBe(true);
+    expect(deps.apply).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,124 @@
+import {
+  Clock,
+  DEFAULT_REMINDER_SETTINGS,
+  isInQuietHours,
+  Notifier,
+  PlannedNotification,
+  planReminders,
+  ReminderInput,
+  syncReminders,
+} from '../reminders';
+import { EMPTY_CALENDAR } from '../academicCalendar';
+import { Subject, TimetableSlot } from '../types';
+
+// Keeps what's pending the way the OS does: by id, until cancelled
+class FakeNotifier implements Notifier {
+  pending = new Map<string, PlannedNotification>();
+
+  async cancelAll() {
+    this.pending.clear();
+  }
+
+  async schedule(notification: PlannedNotification) {
+    if (this.pending.has(notification.id)) throw new Error(`Scheduled twice: ${notification.id}`);
+    this.pending.set(notification.id, notification);
+  }
+}
+
+function fakeClock(start: Date): Clock & { set: (d: Date) => void } {
+  let now = start;
+  return Object.assign(() => now, { set: (d: Date) => { now = d; } });
+}
+
+function subject(code: string, attended: number, total: number): Subject {
+  return { name: code, code, attended, total, percentage: (attended / total) * 100, status: 'low' };
+}
+
+function slot(code: string, start: string, end: string): TimetableSlot {
+  return { code, start, end, room: 'R1', kind: 'lecture', weight: 1 };
+}
+
+// Monday 4 March 2024, local time
+const MONDAY = (hours: number, minutes = 0) => new Date(2024, 2, 4, hours, minutes);
+
+function input(overrides: Partial<ReminderInput> = {}): ReminderInput {
+  return {
+    timetable: { 0: [slot('MA101', '07:00', '08:00'), slot('PH101', '09:00', '10:00')] },
+    rotation: null,
+    calendar: EMPTY_CALENDAR,
+    subjectMap: new Map([['MA101', subject('MA101', 6, 10)], ['PH101', subject('PH101', 7, 10)]]),
+    globalThreshold: 75,
+    subjectThresholds: {},
+    settings: { ...DEFAULT_REMINDER_SETTINGS, digestEnabled: true, classRemindersEnabled: true },
+    ...overrides,
+  };
+}
+
+describe('isInQuietHours', () => {
+  const settings = { ...DEFAULT_REMINDER_SETTINGS, quietStart: '22:00', quietEnd: '07:00' };
+
+  it('wraps past midnight', () => {
+    expect(isInQuietHours(MONDAY(23, 30), settings)).toBe(true);
+    expect(isInQuietHours(MONDAY(6, 59), settings)).toBe(true);
+    expect(isInQuietHours(MONDAY(7, 0), settings)).toBe(false);
+    expect(isInQuietHours(MONDAY(12, 0), settings)).toBe(false);
+  });
+
+  it('is off when start and end are the same', () => {
+    expect(isInQuietHours(MONDAY(3, 0), { ...settings, quietStart: '00:00', quietEnd: '00:00' })).toBe(false);
+  });
+});
+
+describe('planReminders', () => {
+  it('drops reminders that would fire in quiet hours', () => {
+    const planned = planReminders(input(), MONDAY(6));
+    // The 7:00 class would remind at 6:50, inside the 22:00–07:00 quiet window
+    expect(planned.map(n => n.id)).toEqual([
+      'digest-2024-03-04',
+      'class-2024-03-04-PH101-540',
+    ]);
+    expect(planned[1].fireAt).toEqual(MONDAY(8, 50));
+  });
+
+  it('skips muted subjects but keeps them in the digest', () => {
+    const settings = { ...input().settings, mutedSubjects: ['PH101'] };
+    const planned = planReminders(input({ settings }), MONDAY(6));
+    expect(planned.map(n => n.id)).toEqual(['digest-2024-03-04']);
+    expect(planned[0].body).toContain('PH101');
+  });
+});
+
+describe('syncReminders', () => {
+  it('replaces the pending set instead of adding to it when rescheduling', async () => {
+    const notifier = new FakeNotifier();
+    const clock = fakeClock(MONDAY(6));
+
+    await syncReminders(notifier, clock, input());
+    const first = [...notifier.pending.keys()];
+    clock.set(MONDAY(6, 30));
+    await syncReminders(notifier, clock, input());
+
+    expect([...notifier.pending.keys()]).toEqual(first);
+  });
+
+  it('drops reminders whose time has passed', async () => {
+    const notifier = new FakeNotifier();
+    const clock = fakeClock(MONDAY(8, 0));
+
+    await syncReminders(notifier, clock, input());
+
+    expect([...notifier.pending.keys()]).toEqual(['class-2024-03-04-PH101-540']);
+  });
+
+  it('cancels reminders for a subject removed from the timetable', async () => {
+    const notifier = new FakeNotifier();
+    const clock = fakeClock(MONDAY(6));
+
+    await syncReminders(notifier, clock, input());
+    expect(notifier.pending.has('class-2024-03-04-PH101-540')).toBe(true);
+
+    await syncReminders(notifier, clock, input({ timetable: { 0: [slot('MA101', '07:00', '08:00')] } }));
+
+    expect([...notifier.pending.keys()]).toEqual(['digest-2024-03-04']);
+  });
+});
@@ -0,0 +1,67 @@
+import { optimizeSkips } from '../skipOptimizer';
+import { forecastSemester } from '../forecast';
+import { createSlot } from '../timetable';
+import { AcademicCalendar, Subject, Timetable, TimetableSlot } from '../types';
+
+// Monday; the semester ends on Wednesday, so only these three days count
+const MONDAY = new Date(2024, 2, 4, 9, 0);
+const calendar: AcademicCalendar = { semesterStart: null, semesterEnd: '2024-03-06', events: [] };
+
+function slot(code: string, start: string, weight = 1): TimetableSlot {
+  return { ...createSlot(code, start), weight };
+}
+
+function subject(code: string, attended: number, total: number): Subject {
+  return { name: code, code, attended, total, percentage: (attended / total) * 100, status: 'safe' };
+}
+
+function plan(timetable: Timetable, subjects: Subject[]) {
+  const subjectMap = new Map(subjects.map(s => [s.code, s]));
+  return optimizeSkips(timetable, null, calendar, subjectMap, 75, {}, 7, { type: 'max' });
+}
+
+beforeAll(() => {
+  jest.useFakeTimers({ now: MONDAY });
+});
+
+afterAll(() => {
+  jest.useRealTimers();
+});
+
+describe('optimizeSkips', () => {
+  it('uses the whole budget when the biggest slot would not fill it', () => {
+    // 9/9 with 7 units left can miss 4 and finish at 75%
+    const result = plan(
+      { 0: [slot('PH101', '09:00', 3)], 1: [slot('PH101', '09:00', 2)], 2: [slot('PH101', '09:00', 2)] },
+      [subject('PH101', 9, 9)],
+    );
+
+    expect(result.budgets[0].budget).toBe(4);
+    expect(result.totalSkipped).toBe(4);
+    expect(result.days.map(d => d.skipped.length)).toEqual([0, 1, 1]);
+  });
+
+  it('skips on the day with fewer classes so it frees up', () => {
+    // MA101 can miss one of its two classes; CS101 can't miss any
+    const result = plan(
+      { 0: [slot('MA101', '09:00'), slot('CS101', '10:00')], 1: [slot('MA101', '09:00')] },
+      [subject('MA101', 3, 3), subject('CS101', 1, 2)],
+    );
+
+    expect(result.totalSkipped).toBe(1);
+    expect(result.freeDays).toBe(1);
+    expect(result.days[1].isFree).toBe(true);
+  });
+
+  it('counts the same classes left as the semester forecast, today included', () => {
+    const timetable = { 0: [slot('PH101', '09:00', 3)], 1: [slot('PH101', '09:00', 2)], 2: [slot('PH101', '09:00', 2)] };
+    const subjects = [subject('PH101', 9, 9)];
+
+    const result = plan(timetable, subjects);
+    const forecast = forecastSemester(subjects, timetable, null, calendar, [], 75, {}, 0, 'attend_all');
+
+    expect(result.budgets[0].remaining).toBe(7);
+    expect(forecast?.totalRemaining).toBe(7);
+    expect(forecast?.maxTotalSkips).toBe(result.budgets[0].budget);
+  });
+});
@@ -0,0 +1,73 @@
+import { AttendanceData, RefreshQuota } from '../../types';
+import { FREE_REFRESHES_PER_MONTH, getRefreshMonth } from '../../usePremium';
+
+// A stand-in for the UniTrack API's refresh accounting, for tests. Like the
+// backend, it knows the caller only from the ID token and counts each
+// refresh in one transaction on the user document: start over in a new
+// month, refuse once a free user's refreshes are spent, otherwise add one.
+
+export interface QuotaUser {
+  premiumUntil: string | null;
+  trialEndsAt: string | null;
+  refreshCount: number;
+  refreshCountResetMonth: string;
+}
+
+type Spend = { ok: boolean; quota: RefreshQuota };
+
+const NEW_USER: QuotaUser = { premiumUntil: null, trialEndsAt: null, refreshCount: 0, refreshCountResetMonth: '' };
+
+function respond(status: number, body: unknown): Response {
+  return { ok: status < 400, status, json: async () => body } as Response;
+}
+
+export class QuotaServer {
+  private users = new Map<string, QuotaUser>();
+  // Transactions run one after another, as Firestore's would on one document
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(private data: AttendanceData, private now: () => Date = () => new Date()) {}
+
+  setUser(uid: string, user: Partial<QuotaUser>): void {
+    this.users.set(uid, { ...this.getUser(uid), ...user });
+  }
+
+  getUser(uid: string): QuotaUser {
+    return this.users.get(uid) ?? NEW_USER;
+  }
+
+  private transaction<T>(body: () => T): Promise<T> {
+    const run = this.lock.then(body);
+    this.lock = run.catch(() => {});
+    return run;
+  }
+
+  spendRefresh(uid: string): Promise<Spend> {
+    return this.transaction(() => {
+      const user = this.getUser(uid);
+      const now = this.now();
+      const resetMonth = getRefreshMonth(now);
+      const used = user.refreshCountResetMonth === resetMonth ? user.refreshCount : 0;
+      const isPremium = [user.premiumUntil, user.trialEndsAt].some(until => !!until && new Date(until) > now);
+      if (!isPremium && used >= FREE_REFRESHES_PER_MONTH) return { ok: false, quota: { used, resetMonth } };
+
+      this.users.set(uid, { ...user, refreshCount: used + 1, refreshCountResetMonth: resetMonth });
+      return { ok: true, quota: { used: used + 1, resetMonth } };
+    });
+  }
+
+  // Drop-in for the global fetch. Answers the one-shot fetch and the device
+  // refresh record; everything else, background jobs included, is a 404.
+  fetch = async (url: string, init?: RequestInit): Promise<Response> => {
+    const headers = (init?.headers ?? {}) as Record<string, string>;
+    const uid = headers.Authorization?.replace(/^Bearer /, '');
+    if (!uid) return respond(401, { error: 'Not signed in' });
+
+    const { pathname } = new URL(url);
+    if (pathname !== '/api/fetch' && pathname !== '/api/fetch/record') return respond(404, { error: 'Not found' });
+
+    const { ok, quota } = await this.spendRefresh(uid);
+    if (!ok) return respond(429, { error: 'Monthly limit reached', code: 'QUOTA_EXCEEDED', quota });
+    return respond(200, pathname === '/api/fetch' ? { data: this.data, quota } : { quota });
+  };
+}
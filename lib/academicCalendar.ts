@@ -0,0 +1,190 @@
+import { AcademicCalendar, CalendarEvent, CalendarEventKind } from './types';
+import { formatDateStr, parseDateStr } from './dates';
+
+export const EMPTY_CALENDAR: AcademicCalendar = {
+  semesterStart: null,
+  semesterEnd: null,
+  events: [],
+};
+
+export const EVENT_KIND_LABELS: Record<CalendarEventKind, string> = {
+  holiday: 'Holiday',
+  exam: 'Exams',
+  break: 'Break',
+};
+
+// ── Lookups ────────────────────────────────────────────────
+
+export function getCalendarEvent(calendar: AcademicCalendar, date: Date): CalendarEvent | null {
+  const dateStr = formatDateStr(date);
+  return calendar.events.find(e => e.start <= dateStr && dateStr <= e.end) ?? null;
+}
+
+export function isOutsideSemester(calendar: AcademicCalendar, date: Date): boolean {
+  const dateStr = formatDateStr(date);
+  if (calendar.semesterStart && dateStr < calendar.semesterStart) return true;
+  if (calendar.semesterEnd && dateStr > calendar.semesterEnd) return true;
+  return false;
+}
+
+/**
+ * True when the calendar says regular classes don't run on this date —
+ * outside the semester, or during a holiday, exam block or break.
+ */
+export function isNoClassDay(calendar: AcademicCalendar, date: Date): boolean {
+  return isOutsideSemester(calendar, date) || getCalendarEvent(calendar, date) !== null;
+}
+
+/**
+ * Every date covered by an event, for marking a month grid.
+ */
+export function getEventDates(calendar: AcademicCalendar): Set<string> {
+  const dates = new Set<string>();
+  for (const event of calendar.events) {
+    const current = parseDateStr(event.start);
+    const end = parseDateStr(event.end);
+    while (current <= end) {
+      dates.add(formatDateStr(current));
+      current.setDate(current.getDate() + 1);
+    }
+  }
+  return dates;
+}
+
+// ── Editing ────────────────────────────────────────────────
+
+export function sortEvents(events: CalendarEvent[]): CalendarEvent[] {
+  return [...events].sort((a, b) => a.start.localeCompare(b.start) || a.end.localeCompare(b.end));
+}
+
+// One-day holidays marked from the vacation planner use a stable id so the
+// same toggle can remove them again
+export function manualHolidayId(dateStr: string): string {
+  return `manual-${dateStr}`;
+}
+
+export function toggleManualHoliday(calendar: AcademicCalendar, dateStr: string): AcademicCalendar {
+  const id = manualHolidayId(dateStr);
+  const exists = calendar.events.some(e => e.id === id);
+  const events = exists
+    ? calendar.events.filter(e => e.id !== id)
+    : sortEvents([...calendar.events, { id, kind: 'holiday', title: 'Holiday', start: dateStr, end: dateStr }]);
+  return { ...calendar, events };
+}
+
+export function normalizeCalendar(raw: unknown): AcademicCalendar {
+  if (!raw || typeof raw !== 'object') return { ...EMPTY_CALENDAR };
+  const r = raw as Partial<AcademicCalendar>;
+  return {
+    semesterStart: typeof r.semesterStart === 'string' ? r.semesterStart : null,
+    semesterEnd: typeof r.semesterEnd === 'string' ? r.semesterEnd : null,
+    events: Array.isArray(r.events) ? sortEvents(r.events.filter(e => e && e.start && e.end)) : [],
+  };
+}
+
+// ── .ics import ────────────────────────────────────────────
+
+const EXAM_PATTERN = /\b(exam|exams|examination|mid[- ]?sem|end[- ]?sem|test|assessment)\b/i;
+const BREAK_PATTERN = /\b(break|vacation|recess|holidays)\b/i;
+const START_PATTERN = /\b(semester (start|begins|commences)|commencement|classes (begin|start|commence)|first day of (classes|instruction))\b/i;
+const END_PATTERN = /\b(semester (end|ends)|last (working|instructional) day|classes end|last day of (classes|instruction))\b/i;
+
+// RFC 5545 folds long lines by starting continuations with a space or tab
+function unfoldLines(text: string): string[] {
+  return text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n').map(line => line.trimEnd());
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+}
+
+// DTSTART;VALUE=DATE:20250815 or DTSTART:20250815T090000Z → 2025-08-15
+function parseIcsDate(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+function shiftDateStr(dateStr: string, days: number): string {
+  const d = parseDateStr(dateStr);
+  d.setDate(d.getDate() + days);
+  return formatDateStr(d);
+}
+
+export function classifyEvent(title: string): CalendarEventKind {
+  if (EXAM_PATTERN.test(title)) return 'exam';
+  if (BREAK_PATTERN.test(title)) return 'break';
+  return 'holiday';
+}
+
+/**
+ * Build a calendar from an .ics export. Events are sorted into holidays,
+ * exams and breaks by their titles; events named like "Semester begins" or
+ * "Last working day" set the semester bounds instead.
+ */
+export function parseIcs(text: string): AcademicCalendar {
+  const calendar: AcademicCalendar = { ...EMPTY_CALENDAR, events: [] };
+  let current: { title: string; start: string | null; end: string | null; allDay: boolean; uid: string } | null = null;
+
+  for (const line of unfoldLines(text)) {
+    if (line === 'BEGIN:VEVENT') {
+      current = { title: '', start: null, end: null, allDay: false, uid: '' };
+      continue;
+    }
+    if (!current) continue;
+
+    if (line === 'END:VEVENT') {
+      const { title, start, allDay, uid } = current;
+      if (start) {
+        // All-day DTEND is exclusive; timed events end on the day they end
+        let end = current.end ?? start;
+        if (current.end && allDay) end = shiftDateStr(current.end, -1);
+        if (end < start) end = start;
+
+        if (START_PATTERN.test(title)) {
+          calendar.semesterStart = start;
+        } else if (END_PATTERN.test(title)) {
+          calendar.semesterEnd = end;
+        } else {
+          calendar.events.push({
+            id: uid || `ics-${start}-${calendar.events.length}`,
+            kind: classifyEvent(title),
+            title: title || 'Holiday',
+            start,
+            end,
+          });
+        }
+      }
+      current = null;
+      continue;
+    }
+
+    const colon = line.indexOf(':');
+    if (colon < 0) continue;
+    const [name, ...params] = line.slice(0, colon).split(';');
+    const value = line.slice(colon + 1);
+
+    if (name === 'SUMMARY') current.title = unescapeText(value);
+    else if (name === 'UID') current.uid = value.trim();
+    else if (name === 'DTSTART') {
+      current.start = parseIcsDate(value);
+      current.allDay = params.includes('VALUE=DATE') || !value.includes('T');
+    } else if (name === 'DTEND') current.end = parseIcsDate(value);
+  }
+
+  calendar.events = sortEvents(calendar.events);
+  return calendar;
+}
+
+/**
+ * Combine an imported calendar with the existing one. Imported semester
+ * bounds win; events are de-duplicated by id.
+ */
+export function mergeCalendars(base: AcademicCalendar, imported: AcademicCalendar): AcademicCalendar {
+  const byId = new Map(base.events.map(e => [e.id, e]));
+  for (const event of imported.events) byId.set(event.id, event);
+  return {
+    semesterStart: imported.semesterStart ?? base.semesterStart,
+    semesterEnd: imported.semesterEnd ?? base.semesterEnd,
+    events: sortEvents([...byId.values()]),
+  };
+}
@@ -0,0 +1,56 @@
+import { Platform, Share } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import { PaymentRecord } from './firestore';
+import { forgetDevice } from './credentialVault';
+
+const PAYMENT_COLUMNS: (keyof PaymentRecord)[] = ['paidAt', 'orderId', 'paymentId', 'amount', 'currency', 'premiumUntil'];
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Payment history as CSV, oldest first, for the user to keep
+export function formatPaymentsCsv(payments: PaymentRecord[]): string {
+  const rows = [...payments]
+    .sort((a, b) => a.paidAt.localeCompare(b.paidAt))
+    .map(p => PAYMENT_COLUMNS.map(column => csvCell(p[column])).join(','));
+  return [PAYMENT_COLUMNS.join(','), ...rows].join('\n');
+}
+
+/**
+ * Save the payment history as a CSV file the user can keep, and resolve to
+ * its name. On Android they pick the folder, since the app's own storage
+ * goes with the app; on iOS it's written to the app's documents and offered
+ * to the share sheet, to save to Files or send somewhere.
+ */
+export async function savePaymentsCsv(payments: PaymentRecord[]): Promise<string> {
+  const csv = formatPaymentsCsv(payments);
+  const name = `unitrack-payments-${new Date().toISOString().slice(0, 10)}`;
+
+  if (Platform.OS === 'android') {
+    const { StorageAccessFramework } = FileSystem;
+    const permission = await StorageAccessFramework.requestDirectoryPermissionsAsync();
+    if (!permission.granted) throw new Error('Choose a folder to save your payment history in.');
+    const uri = await StorageAccessFramework.createFileAsync(permission.directoryUri, name, 'text/csv');
+    await FileSystem.writeAsStringAsync(uri, csv);
+    return `${name}.csv`;
+  }
+
+  const uri = `${FileSystem.documentDirectory}${name}.csv`;
+  await FileSystem.writeAsStringAsync(uri, csv);
+  await Share.share({ title: 'UniTrack payment history', url: uri });
+  return `${name}.csv`;
+}
+
+/**
+ * Remove everything kept on this device for the user: per-user
+ * AsyncStorage entries (all keyed `…:${uid}`) and secure storage. Settings
+ * shared by every account on the device, like the theme, stay.
+ */
+export async function clearLocalUserData(uid: string): Promise<void> {
+  const keys = await AsyncStorage.getAllKeys();
+  await AsyncStorage.multiRemove(keys.filter(key => key.endsWith(`:${uid}`)));
+  await forgetDevice(uid);
+}
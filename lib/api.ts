@@ -1,108 +1,276 @@
-import { API_BASE_URL } from './config';
-import { FetchResponse } from './types';
+import { apiRequest, ApiResult, quotaSchema, wait } from './apiClient';
+import { ErpAdapter, ErpExtraField } from './erpAdapters';
+import { PortalConfig } from './localScraper';
+import { PaymentRecord } from './firestore';
+import { array, boolean, lenient, literal, nullable, number, object, optional, record, string } from './schema';
+import { AttendanceData, ErpLogin, FetchStage, RefreshQuota, StudentInfo, Subject } from './types';
 
+export const FETCH_STAGE_LABELS: Record<FetchStage, string> = {
+  login: 'Logging in to your college portal...',
+  navigate: 'Opening your attendance page...',
+  parse: 'Reading your subjects...',
+  done: 'Done',
+};
+
+// How long each step may take before we stop waiting. The portal owns the
+// first two, so a timeout there tells the user it's down rather than slow.
+const STAGE_TIMEOUTS_MS: Record<FetchStage, number> = {
+  login: 20_000,
+  navigate: 20_000,
+  parse: 10_000,
+  done: 0,
+};
+
+const POLL_INTERVAL_MS = 1000;
+
+// ── Response schemas ───────────────────────────────────────
+
+const subjectSchema = object<Subject>({
+  name: string,
+  code: string,
+  attended: number,
+  total: number,
+  percentage: number,
+  status: literal('safe', 'critical', 'low', 'no_data'),
+});
+
+const attendanceDataSchema = object<AttendanceData>({
+  student: object<StudentInfo>({ name: string, usn: string }),
+  subjects: array(subjectSchema),
+  lastUpdated: string,
+  threshold: number,
+});
+
+export interface AttendanceFetch {
+  data: AttendanceData;
+  quota?: RefreshQuota;
+}
+
+const attendanceFetchSchema = object<AttendanceFetch>({
+  data: attendanceDataSchema,
+  quota: optional(quotaSchema),
+});
+
+const deviceRefreshSchema = object<{ quota: RefreshQuota }>({ quota: quotaSchema });
+
+const fetchJobSchema = object<{ jobId: string }>({ jobId: string });
+
+interface FetchJobStatus {
+  stage: FetchStage;
+  result?: AttendanceFetch;
+}
+
+const fetchJobStatusSchema = object<FetchJobStatus>({
+  stage: literal('login', 'navigate', 'parse', 'done'),
+  result: optional(attendanceFetchSchema),
+});
+
+const timetableScanSchema = object<{ timetable: Record<string, string[]> }>({
+  timetable: record(array(string)),
+});
+
+const erpAdapterSchema = object<ErpAdapter>({
+  id: string,
+  college: string,
+  vendor: string,
+  aliases: optional(array(string)),
+  erpUrl: nullable(string),
+  usernameLabel: string,
+  usernameHint: optional(string),
+  usernamePattern: optional(string),
+  passwordLabel: string,
+  extraFields: array(object<ErpExtraField>({
+    key: string,
+    label: string,
+    kind: literal('text', 'number', 'select'),
+    placeholder: optional(string),
+    options: optional(array(string)),
+    required: boolean,
+  })),
+  notes: optional(string),
+  portal: optional(object<PortalConfig>({
+    type: literal('form'),
+    loginPath: string,
+    usernameField: string,
+    passwordField: string,
+    extraFieldNames: optional(record(string)),
+    loginFailedText: array(string),
+    attendancePath: string,
+    parser: optional(string),
+    studentNamePattern: optional(string),
+  })),
+});
+
+const erpAdaptersSchema = object<{ adapters: ErpAdapter[] }>({ adapters: array(erpAdapterSchema) });
+
+export interface PaymentOrder {
+  keyId?: string;
+  amount: number;
+  currency: string;
+  orderId: string;
+}
+
+const paymentOrderSchema = object<PaymentOrder>({
+  keyId: optional(string),
+  amount: number,
+  currency: string,
+  orderId: string,
+});
+
+export interface VerifiedPayment {
+  premiumUntil: string;
+  // Left out if the server's record is incomplete; the payment went through
+  // and premium is granted either way
+  payment?: PaymentRecord;
+}
+
+const verifiedPaymentSchema = object<VerifiedPayment>({
+  premiumUntil: string,
+  payment: lenient(object<PaymentRecord>({
+    orderId: string,
+    paymentId: string,
+    amount: number,
+    currency: string,
+    paidAt: string,
+    premiumUntil: string,
+  })),
+});
+
+// ── Endpoints ──────────────────────────────────────────────
+
+// Each fetch spends a refresh server-side, so it's never retried automatically
+function fetchAttendanceOnce(
+  body: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<ApiResult<AttendanceFetch>> {
+  return apiRequest('/api/fetch', {
+    body,
+    schema: attendanceFetchSchema,
+    timeoutMs: 25_000,
+    auth: true,
+    signal,
+  });
+}
+
+/**
+ * Start a scrape as a background job and poll it, reporting each stage as
+ * the backend moves through it. Each stage has its own timeout. Falls back
+ * to the one-shot endpoint on backends that don't offer jobs.
+ */
 export async function fetchAttendanceFromApi(
-  erpUrl: string,
-  username: string,
-  password: string,
-  threshold: number
-): Promise<FetchResponse> {
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), 25_000);
-
-  try {
-    const response = await fetch(`${API_BASE_URL}/api/fetch`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ erpUrl, username, password, threshold }),
-      signal: controller.signal,
+  login: ErpLogin,
+  threshold: number,
+  signal?: AbortSignal,
+  onStage?: (stage: FetchStage) => void
+): Promise<ApiResult<AttendanceFetch>> {
+  const { adapterId, erpUrl, username, password, extra } = login;
+  const body = { adapterId, erpUrl, username, password, extra, threshold };
+  const job = await apiRequest('/api/fetch/start', {
+    body,
+    schema: fetchJobSchema,
+    timeoutMs: 15_000,
+    auth: true,
+    signal,
+  });
+  if (!job.ok && job.error.kind === 'server' && job.error.status === 404) {
+    return fetchAttendanceOnce(body, signal);
+  }
+  if (!job.ok) return job;
+
+  let stage: FetchStage = 'login';
+  let stageStartedAt = Date.now();
+  onStage?.(stage);
+
+  for (;;) {
+    await wait(POLL_INTERVAL_MS, signal);
+    if (signal?.aborted) return { ok: false, error: { kind: 'cancelled', message: 'Cancelled' } };
+
+    // Polling only reads the job, so it's safe to retry
+    const status = await apiRequest('/api/fetch/status', {
+      body: { jobId: job.value.jobId },
+      schema: fetchJobStatusSchema,
+      timeoutMs: 10_000,
+      idempotent: true,
+      auth: true,
+      signal,
     });
-    clearTimeout(timeout);
-    if (!response.ok) {
-      const data = await response.json().catch(() => null);
-      return { success: false, error: data?.error || `Server error (${response.status})` };
+    if (!status.ok) return status;
+
+    const { stage: reported, result } = status.value;
+    if (reported === 'done') {
+      if (result) return { ok: true, value: result };
+      return { ok: false, error: { kind: 'validation', message: 'Finished job has no result', issues: ['result: missing'] } };
     }
-    return await response.json();
-  } catch (err) {
-    clearTimeout(timeout);
-    if (err instanceof Error && err.name === 'AbortError') {
-      return { success: false, error: 'Request timed out — the ERP server took too long to respond. Try again.' };
+    if (reported !== stage) {
+      stage = reported;
+      stageStartedAt = Date.now();
+      onStage?.(stage);
+    } else if (Date.now() - stageStartedAt > STAGE_TIMEOUTS_MS[stage]) {
+      return { ok: false, error: { kind: 'timeout', message: `Timed out at stage "${stage}"`, stage } };
     }
-    return { success: false, error: err instanceof Error ? err.message : 'Network error — check your connection' };
   }
 }
 
+/**
+ * Count a refresh the device fetched on its own against the monthly quota.
+ * Never retried, since the server adds one each time it's called.
+ */
+export function recordDeviceRefresh(): Promise<ApiResult<{ quota: RefreshQuota }>> {
+  return apiRequest('/api/fetch/record', {
+    schema: deviceRefreshSchema,
+    timeoutMs: 10_000,
+    auth: true,
+  });
+}
+
+// The college registry the ERP login screen searches
+export async function fetchErpAdapters(): Promise<ApiResult<ErpAdapter[]>> {
+  const result = await apiRequest('/api/erp-adapters', {
+    schema: erpAdaptersSchema,
+    timeoutMs: 15_000,
+    idempotent: true,
+  });
+  return result.ok ? { ok: true, value: result.value.adapters } : result;
+}
+
 export async function parseTimetableFromApi(
   imageBase64: string,
   mimeType: string,
   subjectCodes: string[]
-): Promise<{ success: boolean; timetable?: Record<number, string[]>; error?: string }> {
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), 60_000);
-
-  try {
-    const response = await fetch(`${API_BASE_URL}/api/parse-timetable`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ image: imageBase64, mimeType, subjectCodes }),
-      signal: controller.signal,
-    });
-    clearTimeout(timeout);
-    if (!response.ok) {
-      const data = await response.json().catch(() => null);
-      return { success: false, error: data?.error || `Server error (${response.status})` };
-    }
-    return await response.json();
-  } catch (err) {
-    clearTimeout(timeout);
-    if (err instanceof Error && err.name === 'AbortError') {
-      return { success: false, error: 'Request timed out — try a clearer image' };
-    }
-    return { success: false, error: 'Network error — could not reach the server' };
-  }
+): Promise<ApiResult<Record<number, string[]>>> {
+  const result = await apiRequest('/api/parse-timetable', {
+    body: { image: imageBase64, mimeType, subjectCodes },
+    schema: timetableScanSchema,
+    timeoutMs: 60_000,
+    idempotent: true,
+  });
+  return result.ok ? { ok: true, value: result.value.timetable } : result;
 }
 
-export async function createPaymentOrder(
-  uid: string,
-  email: string
-): Promise<{ ok: boolean; keyId?: string; amount?: number; currency?: string; orderId?: string; error?: string }> {
-  try {
-    const response = await fetch(`${API_BASE_URL}/api/payments/create-order`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ uid, email }),
-    });
-    const data = await response.json();
-    if (!response.ok) return { ok: false, error: data.error || 'Failed to create order' };
-    return { ok: true, ...data };
-  } catch {
-    return { ok: false, error: 'Network error' };
-  }
+export function createPaymentOrder(uid: string, email: string): Promise<ApiResult<PaymentOrder>> {
+  return apiRequest('/api/payments/create-order', {
+    body: { uid, email },
+    schema: paymentOrderSchema,
+    timeoutMs: 15_000,
+  });
 }
 
-export async function verifyPayment(
+export function verifyPayment(
   razorpay_order_id: string,
   razorpay_payment_id: string,
   razorpay_signature: string,
   uid: string,
   currentPremiumUntil: string | null
-): Promise<{ ok: boolean; premiumUntil?: string; payment?: unknown; error?: string }> {
-  try {
-    const response = await fetch(`${API_BASE_URL}/api/payments/verify-payment`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        razorpay_order_id,
-        razorpay_payment_id,
-        razorpay_signature,
-        uid,
-        currentPremiumUntil,
-      }),
-    });
-    const data = await response.json();
-    if (!response.ok) return { ok: false, error: data.error || 'Verification failed' };
-    return { ok: true, ...data };
-  } catch {
-    return { ok: false, error: 'Network error' };
-  }
+): Promise<ApiResult<VerifiedPayment>> {
+  return apiRequest('/api/payments/verify-payment', {
+    body: {
+      razorpay_order_id,
+      razorpay_payment_id,
+      razorpay_signature,
+      uid,
+      currentPremiumUntil,
+    },
+    schema: verifiedPaymentSchema,
+    timeoutMs: 30_000,
+  });
 }
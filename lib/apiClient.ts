@@ -0,0 +1,175 @@
+import { API_BASE_URL } from './config';
+import { getFirebaseAuth } from './firebase';
+import { number, object, Schema, string } from './schema';
+import { FetchStage, RefreshQuota } from './types';
+
+const BASE_RETRY_MS = 800;
+
+export type ApiError =
+  | { kind: 'network'; message: string }
+  // `stage` is set when a step of an ERP scrape ran out of time
+  | { kind: 'timeout'; message: string; stage?: FetchStage }
+  | { kind: 'cancelled'; message: string }
+  // The college portal rejected the student's username or password
+  | { kind: 'erpAuth'; message: string }
+  // The portal's pages no longer look the way the scraper expects
+  | { kind: 'erpLayout'; message: string }
+  | { kind: 'quota'; message: string; quota?: RefreshQuota }
+  | { kind: 'server'; message: string; status: number }
+  | { kind: 'validation'; message: string; issues: string[] };
+
+export type ApiErrorKind = ApiError['kind'];
+
+export type ApiResult<T> = { ok: true; value: T } | { ok: false; error: ApiError };
+
+export interface ApiRequestOptions<T> {
+  body?: unknown;
+  schema: Schema<T>;
+  timeoutMs: number;
+  // Only requests that are safe to send twice are retried
+  idempotent?: boolean;
+  retries?: number;
+  // Send the Firebase ID token so the API knows which account is calling
+  auth?: boolean;
+  signal?: AbortSignal;
+}
+
+// Error codes the API puts next to `error` in a failed response
+const ERROR_CODES: Record<string, 'erpAuth' | 'erpLayout' | 'quota'> = {
+  ERP_AUTH_FAILED: 'erpAuth',
+  ERP_LAYOUT_CHANGED: 'erpLayout',
+  QUOTA_EXCEEDED: 'quota',
+};
+
+export const quotaSchema = object<RefreshQuota>({ used: number, resetMonth: string });
+
+// The fields of a JSON object body; any other body has none
+function fieldsOf(body: unknown): Record<string, unknown> {
+  return typeof body === 'object' && body !== null && !Array.isArray(body) ? body as Record<string, unknown> : {};
+}
+
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  const user = getFirebaseAuth().currentUser;
+  if (!user) return {};
+  return { Authorization: `Bearer ${await user.getIdToken()}` };
+}
+
+function toApiError(status: number, body: unknown): ApiError {
+  const { error, code, quota } = fieldsOf(body);
+  const message = typeof error === 'string' ? error : `Server error (${status})`;
+  const kind = (typeof code === 'string' ? ERROR_CODES[code] : undefined) ?? (status === 429 ? 'quota' : undefined);
+  if (kind === 'quota') {
+    const parsed = quotaSchema(quota);
+    return { kind, message, quota: parsed.ok ? parsed.value : undefined };
+  }
+  if (kind) return { kind, message };
+  return { kind: 'server', message, status };
+}
+
+function isRetryable(error: ApiError): boolean {
+  return error.kind === 'network' || error.kind === 'timeout' || (error.kind === 'server' && error.status >= 500);
+}
+
+// 0.8s, 1.6s, 3.2s… with jitter so clients don't retry in lockstep
+function getBackoff(attempt: number): number {
+  return Math.round(BASE_RETRY_MS * 2 ** attempt * (0.5 + Math.random()));
+}
+
+// Resolves early if the signal aborts; callers check `signal.aborted`
+export function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
+}
+
+async function attempt<T>(path: string, options: ApiRequestOptions<T>): Promise<ApiResult<T>> {
+  const { signal } = options;
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), options.timeoutMs);
+  const onCancel = () => controller.abort();
+  signal?.addEventListener('abort', onCancel);
+
+  try {
+    const response = await fetch(`${API_BASE_URL}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(options.auth ? await getAuthHeaders() : {}) },
+      body: JSON.stringify(options.body ?? {}),
+      signal: controller.signal,
+    });
+    const body: unknown = await response.json().catch(() => null);
+
+    // Older endpoints report failures as 200 with `success: false`
+    if (!response.ok || fieldsOf(body).success === false) {
+      return { ok: false, error: toApiError(response.status, body) };
+    }
+
+    const result = options.schema(body);
+    if (!result.ok) {
+      return {
+        ok: false,
+        error: { kind: 'validation', message: 'Unexpected response from the server', issues: result.issues },
+      };
+    }
+    return { ok: true, value: result.value };
+  } catch (err) {
+    if (signal?.aborted) return { ok: false, error: { kind: 'cancelled', message: 'Cancelled' } };
+    if (err instanceof Error && err.name === 'AbortError') {
+      return { ok: false, error: { kind: 'timeout', message: 'Request timed out' } };
+    }
+    return {
+      ok: false,
+      error: { kind: 'network', message: err instanceof Error ? err.message : 'Network error' },
+    };
+  } finally {
+    clearTimeout(timeout);
+    signal?.removeEventListener('abort', onCancel);
+  }
+}
+
+/**
+ * POST to the UniTrack API and validate the response. Never throws — every
+ * failure comes back as a typed ApiError. Idempotent requests are retried
+ * on network errors, timeouts and 5xx responses.
+ */
+export async function apiRequest<T>(path: string, options: ApiRequestOptions<T>): Promise<ApiResult<T>> {
+  const retries = options.idempotent ? options.retries ?? 2 : 0;
+  for (let tries = 0; ; tries++) {
+    const result = await attempt(path, options);
+    if (result.ok || tries >= retries || !isRetryable(result.error)) return result;
+    await wait(getBackoff(tries), options.signal);
+    if (options.signal?.aborted) return { ok: false, error: { kind: 'cancelled', message: 'Cancelled' } };
+  }
+}
+
+/**
+ * What to tell the user, phrased as what they can do about it.
+ */
+export function describeApiError(error: ApiError): string {
+  switch (error.kind) {
+    case 'network':
+      return "Couldn't reach UniTrack — check your connection and try again.";
+    case 'timeout':
+      if (error.stage === 'login') return "Your college portal isn't answering the login — it looks down. Try again later.";
+      if (error.stage === 'navigate') return 'Your college portal let you in but is very slow right now. Try again in a few minutes.';
+      if (error.stage === 'parse') return 'Reading your attendance took too long. Try again.';
+      return 'That took too long — your college portal may be slow or down. Try again in a few minutes.';
+    case 'cancelled':
+      return 'Cancelled.';
+    case 'erpAuth':
+      return 'Your college portal rejected the username or password. Check them and sign in again.';
+    case 'erpLayout':
+      return "Your college portal has changed and UniTrack can't read it yet. This needs a fix on our side — try again later.";
+    case 'quota':
+      return "You've used this month's free refreshes. Upgrade to Pro for unlimited refreshes.";
+    case 'server':
+      return error.message;
+    case 'validation':
+      return "The server sent something this version of the app can't read. Try updating the app.";
+  }
+}
@@ -0,0 +1,354 @@
+import { UserData, UserDataUpdate } from './firestore';
+import { AttendanceDiff, diffAttendance } from './attendanceDiff';
+import { EMPTY_CALENDAR } from './academicCalendar';
+import { LoginHint } from './credentialVault';
+import { CUSTOM_ADAPTER_ID } from './erpAdapters';
+import { applyLedger, EMPTY_LEDGER, reconcileLedger, setMark } from './ledger';
+import { RefreshMode, RefreshOutcome, RefreshProgress } from './refreshService';
+import { computePremiumStatus } from './usePremium';
+import {
+  AcademicCalendar,
+  AttendanceData,
+  AttendanceLedger,
+  AttendanceSnapshot,
+  ErpLogin,
+  MarkStatus,
+  SkipPlan,
+  Timetable,
+  TimetableRotation,
+  TimetableSlot,
+  UnavailableLogin,
+} from './types';
+
+const STALE_THRESHOLD_MS = 2 * 60 * 60 * 1000; // 2 hours
+
+// Background refreshes say which refresh failed before the remediation
+const REFRESH_CONTEXT: Record<RefreshMode, string> = {
+  connect: '',
+  auto: 'Auto-refresh failed. ',
+  pull: 'Refresh failed. ',
+};
+
+export interface AppState {
+  // Synced through the user document
+  attendanceData: AttendanceData | null;
+  threshold: number;
+  subjectThresholds: Record<string, number>;
+  timetable: Timetable;
+  timetableRotation: TimetableRotation | null;
+  academicCalendar: AcademicCalendar;
+  skipPlan: SkipPlan | null;
+  savedErpUrl: string;
+  savedAdapterId: string;
+  premiumUntil: string | null;
+  trialEndsAt: string | null;
+  refreshCount: number;
+  refreshCountResetMonth: string;
+
+  // Device-local
+  ledger: AttendanceLedger;
+  savedUsername: string;
+  savedErpExtra: Record<string, string>;
+  savedOnDevice: boolean;
+  // Set when the saved login can't be used here, so the dashboard can say why
+  loginUnavailable: UnavailableLogin | null;
+  history: AttendanceSnapshot[];
+  syncDiff: AttendanceDiff | null;
+
+  isInitialized: boolean;
+  refresh: RefreshProgress | null;
+  lastRefresh: RefreshOutcome | null;
+  error: string | null;
+}
+
+export const INITIAL_STATE: AppState = {
+  attendanceData: null,
+  threshold: 75,
+  subjectThresholds: {},
+  timetable: {},
+  timetableRotation: null,
+  academicCalendar: EMPTY_CALENDAR,
+  skipPlan: null,
+  savedErpUrl: '',
+  savedAdapterId: CUSTOM_ADAPTER_ID,
+  premiumUntil: null,
+  trialEndsAt: null,
+  refreshCount: 0,
+  refreshCountResetMonth: '',
+  ledger: EMPTY_LEDGER,
+  savedUsername: '',
+  savedErpExtra: {},
+  savedOnDevice: false,
+  loginUnavailable: null,
+  history: [],
+  syncDiff: null,
+  isInitialized: false,
+  refresh: null,
+  lastRefresh: null,
+  error: null,
+};
+
+// Settings the user edits on this device; each one is queued as a write
+export type SettingsEdit =
+  | { type: 'thresholdSet'; threshold: number }
+  | { type: 'subjectThresholdSet'; subjectKey: string; value: number | null }
+  | { type: 'timetableSet'; timetable: Timetable; rotation: TimetableRotation | null }
+  | { type: 'calendarSet'; calendar: AcademicCalendar }
+  | { type: 'skipPlanSet'; skipPlan: SkipPlan | null };
+
+export type AppAction =
+  | SettingsEdit
+  | { type: 'reset' }
+  | { type: 'loaded'; data: UserData | null; ledger: AttendanceLedger; premiumBackup: string | null }
+  | { type: 'remoteUpdate'; remote: UserData; locked: (keyof UserData)[] }
+  | { type: 'credentialsLoaded'; login: ErpLogin }
+  | { type: 'loginHintLoaded'; hint: LoginHint }
+  | { type: 'loginUnavailable'; reason: UnavailableLogin }
+  | { type: 'historyLoaded'; history: AttendanceSnapshot[] }
+  | { type: 'refreshProgressed'; progress: RefreshProgress | null }
+  | { type: 'refreshSucceeded'; data: AttendanceData; login?: ErpLogin }
+  | { type: 'refreshSettled'; outcome: RefreshOutcome }
+  | { type: 'premiumPurchased'; premiumUntil: string }
+  | { type: 'marked'; dateStr: string; slot: TimetableSlot; status: MarkStatus | null }
+  | { type: 'conflictsDismissed' }
+  | { type: 'syncDiffDismissed' }
+  | { type: 'errorDismissed' };
+
+function differs(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) !== JSON.stringify(b);
+}
+
+function withAttendance(state: AppState, data: AttendanceData): AppState {
+  const prev = state.attendanceData;
+  return {
+    ...state,
+    attendanceData: data,
+    ledger: prev ? reconcileLedger(state.ledger, prev, data) : state.ledger,
+  };
+}
+
+export function appReducer(state: AppState, action: AppAction): AppState {
+  switch (action.type) {
+    case 'reset':
+      return INITIAL_STATE;
+
+    case 'loaded': {
+      const { data, ledger, premiumBackup } = action;
+      if (!data) return { ...state, premiumUntil: premiumBackup, isInitialized: true };
+      return {
+        ...state,
+        attendanceData: data.attendance ?? null,
+        threshold: data.threshold ?? INITIAL_STATE.threshold,
+        subjectThresholds: data.subjectThresholds ?? {},
+        timetable: data.timetable ?? {},
+        timetableRotation: data.timetableRotation ?? null,
+        academicCalendar: data.academicCalendar ?? EMPTY_CALENDAR,
+        skipPlan: data.skipPlan ?? null,
+        savedErpUrl: data.erpUrl || '',
+        savedAdapterId: data.erpAdapterId || CUSTOM_ADAPTER_ID,
+        premiumUntil: data.premiumUntil ?? null,
+        trialEndsAt: data.trialEndsAt ?? null,
+        refreshCount: data.refreshCount ?? 0,
+        refreshCountResetMonth: data.refreshCountResetMonth || '',
+        ledger,
+        isInitialized: true,
+      };
+    }
+
+    case 'remoteUpdate': {
+      // Locked fields have a queued local write or an open editor and keep
+      // the local value. Unchanged fields keep their reference so nothing
+      // downstream recomputes.
+      const { remote, locked } = action;
+      const isLocked = (...fields: (keyof UserData)[]) => fields.some(f => locked.includes(f));
+      let next = state;
+
+      if (remote.attendance && !isLocked('attendance') && differs(remote.attendance, state.attendanceData)) {
+        next = withAttendance(next, remote.attendance);
+      }
+      if (!isLocked('threshold') && remote.threshold !== state.threshold) {
+        next = { ...next, threshold: remote.threshold };
+      }
+      if (!isLocked('subjectThresholds') && differs(remote.subjectThresholds, state.subjectThresholds)) {
+        next = { ...next, subjectThresholds: remote.subjectThresholds };
+      }
+      if (
+        !isLocked('timetable', 'timetableRotation')
+        && (differs(remote.timetable, state.timetable) || differs(remote.timetableRotation, state.timetableRotation))
+      ) {
+        next = { ...next, timetable: remote.timetable, timetableRotation: remote.timetableRotation };
+      }
+      if (!isLocked('academicCalendar') && differs(remote.academicCalendar, state.academicCalendar)) {
+        next = { ...next, academicCalendar: remote.academicCalendar };
+      }
+      if (!isLocked('skipPlan') && differs(remote.skipPlan, state.skipPlan)) {
+        next = { ...next, skipPlan: remote.skipPlan };
+      }
+
+      return {
+        ...next,
+        premiumUntil: !isLocked('premiumUntil') && remote.premiumUntil != null ? remote.premiumUntil : next.premiumUntil,
+        trialEndsAt: remote.trialEndsAt ?? next.trialEndsAt,
+        // Only the API writes the refresh count, so the document always has the latest
+        refreshCount: remote.refreshCount,
+        refreshCountResetMonth: remote.refreshCountResetMonth,
+        savedErpUrl: remote.erpUrl || next.savedErpUrl,
+        savedAdapterId: remote.erpUrl ? remote.erpAdapterId : next.savedAdapterId,
+      };
+    }
+
+    case 'credentialsLoaded':
+      return {
+        ...state,
+        savedUsername: action.login.username,
+        savedErpExtra: action.login.extra,
+        savedOnDevice: action.login.onDevice === true,
+        loginUnavailable: null,
+      };
+
+    // Only what the login form shows; whether the login itself can be used
+    // on this device is found out when it's next needed
+    case 'loginHintLoaded':
+      return {
+        ...state,
+        savedUsername: action.hint.username,
+        savedOnDevice: action.hint.onDevice,
+      };
+
+    case 'loginUnavailable':
+      return { ...state, loginUnavailable: action.reason };
+
+    case 'historyLoaded':
+      return { ...state, history: action.history };
+
+    case 'thresholdSet':
+      return { ...state, threshold: action.threshold };
+
+    case 'subjectThresholdSet': {
+      const subjectThresholds = { ...state.subjectThresholds };
+      if (action.value === null) {
+        delete subjectThresholds[action.subjectKey];
+      } else {
+        subjectThresholds[action.subjectKey] = action.value;
+      }
+      return { ...state, subjectThresholds };
+    }
+
+    case 'timetableSet':
+      return { ...state, timetable: action.timetable, timetableRotation: action.rotation };
+
+    case 'calendarSet':
+      return { ...state, academicCalendar: action.calendar };
+
+    case 'skipPlanSet':
+      return { ...state, skipPlan: action.skipPlan };
+
+    case 'refreshProgressed':
+      return { ...state, refresh: action.progress };
+
+    case 'refreshSucceeded': {
+      const { data, login } = action;
+      const prev = state.attendanceData;
+      const next = withAttendance(state, data);
+      return {
+        ...next,
+        syncDiff: prev ? diffAttendance(prev, data, state.threshold, state.subjectThresholds) : state.syncDiff,
+        ...(login ? {
+          savedErpUrl: login.erpUrl,
+          savedAdapterId: login.adapterId,
+          savedUsername: login.username,
+          savedErpExtra: login.extra,
+          savedOnDevice: login.onDevice === true,
+          loginUnavailable: null,
+        } : {}),
+      };
+    }
+
+    case 'refreshSettled': {
+      // The server counts refreshes; its figure replaces whatever we had
+      const { quota, errorClass } = action.outcome;
+      return {
+        ...state,
+        lastRefresh: action.outcome,
+        loginUnavailable: errorClass === 'locked' || errorClass === 'elsewhere' ? errorClass : state.loginUnavailable,
+        error: getRefreshError(action.outcome) ?? state.error,
+        refreshCount: quota ? quota.used : state.refreshCount,
+        refreshCountResetMonth: quota ? quota.resetMonth : state.refreshCountResetMonth,
+      };
+    }
+
+    case 'premiumPurchased':
+      return { ...state, premiumUntil: action.premiumUntil };
+
+    case 'marked':
+      return { ...state, ledger: setMark(state.ledger, action.dateStr, action.slot, action.status) };
+
+    case 'conflictsDismissed':
+      return { ...state, ledger: { ...state.ledger, conflicts: [] } };
+
+    case 'syncDiffDismissed':
+      return { ...state, syncDiff: null };
+
+    case 'errorDismissed':
+      return { ...state, error: null };
+  }
+}
+
+/**
+ * The slice of the user document a local settings edit changed, so the
+ * caller can queue exactly that write.
+ */
+export function getEditedFields(state: AppState, edit: SettingsEdit): UserDataUpdate {
+  switch (edit.type) {
+    case 'thresholdSet':
+      return { threshold: state.threshold };
+    case 'subjectThresholdSet':
+      return { subjectThresholds: state.subjectThresholds };
+    case 'timetableSet':
+      return { timetable: state.timetable, timetableRotation: state.timetableRotation };
+    case 'calendarSet':
+      return { academicCalendar: state.academicCalendar };
+    case 'skipPlanSet':
+      return { skipPlan: state.skipPlan };
+  }
+}
+
+// ── Selectors ──────────────────────────────────────────────
+
+// ERP figures with pending manual marks layered on top
+export function selectProvisionalData(state: AppState): AttendanceData | null {
+  return state.attendanceData && applyLedger(state.attendanceData, state.ledger.marks);
+}
+
+export function selectIsRefreshing(state: AppState, mode: RefreshMode): boolean {
+  return state.refresh?.mode === mode;
+}
+
+/**
+ * Whether a refresh may start. Only the first connect, with nothing fetched
+ * yet, skips the quota; reconnecting from the ERP sign-in form counts like
+ * any other refresh.
+ */
+export function selectCanRefresh(state: AppState, mode: RefreshMode, now: Date = new Date()): boolean {
+  if (!state.attendanceData) return mode === 'connect';
+  return computePremiumStatus(state, now).canRefresh;
+}
+
+export function selectIsStale(state: AppState, now: number = Date.now()): boolean {
+  if (!state.attendanceData) return false;
+  return now - new Date(state.attendanceData.lastUpdated).getTime() > STALE_THRESHOLD_MS;
+}
+
+/**
+ * The toast for a finished refresh, if any. Cancelled refreshes aren't
+ * errors, and a missing saved login (imported attendance) or a quota the
+ * server refused is only worth a toast when the user asked for the refresh.
+ * A login that can't be used here gets a dashboard card instead.
+ */
+export function getRefreshError(outcome: RefreshOutcome): string | null {
+  if (outcome.ok || !outcome.error) return null;
+  if (outcome.errorClass === 'cancelled') return null;
+  const quiet: RefreshOutcome['errorClass'][] = ['quota', 'credentials', 'locked', 'elsewhere'];
+  if (quiet.includes(outcome.errorClass) && outcome.mode === 'auto') return null;
+  return REFRESH_CONTEXT[outcome.mode] + outcome.error;
+}
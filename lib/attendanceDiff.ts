@@ -0,0 +1,91 @@
+import { AttendanceData, Subject } from './types';
+import { calculateStatus, getEffectiveThreshold, getSubjectKey } from './utils';
+
+type Status = Subject['status'];
+
+export interface SubjectDiff {
+  key: string;
+  name: string;
+  code: string;
+  classesAdded: number;
+  attendedAdded: number;
+  absentAdded: number;
+  previousPct: number;
+  currentPct: number;
+  previousStatus: Status | null; // null when the subject is new
+  currentStatus: Status;
+  // ERP numbers went backwards or more attended than held — worth a second look
+  isCorrection: boolean;
+}
+
+export interface AttendanceDiff {
+  since: string; // lastUpdated of the previous data
+  changes: SubjectDiff[];
+  removed: Subject[];
+  totalAdded: number;
+  totalAttended: number;
+  totalAbsent: number;
+}
+
+/**
+ * Compare two attendance fetches subject by subject. Statuses are computed
+ * with the current thresholds on both sides, so a transition always means
+ * the numbers moved, not the settings.
+ */
+export function diffAttendance(
+  prev: AttendanceData,
+  next: AttendanceData,
+  globalThreshold: number,
+  subjectThresholds: Record<string, number>,
+): AttendanceDiff {
+  const prevMap = new Map(prev.subjects.map(s => [getSubjectKey(s), s]));
+  const changes: SubjectDiff[] = [];
+
+  for (const subject of next.subjects) {
+    const key = getSubjectKey(subject);
+    const before = prevMap.get(key);
+    prevMap.delete(key);
+
+    const threshold = getEffectiveThreshold(subject, globalThreshold, subjectThresholds);
+    const currentStatus = calculateStatus(subject.percentage, threshold, subject.total);
+    const previousStatus = before
+      ? calculateStatus(before.percentage, threshold, before.total)
+      : null;
+
+    const classesAdded = subject.total - (before?.total ?? 0);
+    const attendedAdded = subject.attended - (before?.attended ?? 0);
+    const absentAdded = classesAdded - attendedAdded;
+    const statusChanged = previousStatus !== null && previousStatus !== currentStatus;
+
+    if (before && classesAdded === 0 && attendedAdded === 0 && !statusChanged) continue;
+
+    changes.push({
+      key,
+      name: subject.name,
+      code: subject.code,
+      classesAdded,
+      attendedAdded,
+      absentAdded,
+      previousPct: before?.percentage ?? 0,
+      currentPct: subject.percentage,
+      previousStatus,
+      currentStatus,
+      isCorrection: classesAdded < 0 || attendedAdded < 0 || absentAdded < 0,
+    });
+  }
+
+  // Corrections first, then subjects with the most new classes
+  changes.sort((a, b) => {
+    if (a.isCorrection !== b.isCorrection) return a.isCorrection ? -1 : 1;
+    return b.classesAdded - a.classesAdded;
+  });
+
+  return {
+    since: prev.lastUpdated,
+    changes,
+    removed: [...prevMap.values()],
+    totalAdded: changes.reduce((sum, c) => sum + Math.max(0, c.classesAdded), 0),
+    totalAttended: changes.reduce((sum, c) => sum + Math.max(0, c.attendedAdded), 0),
+    totalAbsent: changes.reduce((sum, c) => sum + Math.max(0, c.absentAdded), 0),
+  };
+}
@@ -0,0 +1,240 @@
+import { extractTables } from './html';
+import { Subject } from './types';
+import { calculateStatus } from './utils';
+
+// Turns an ERP attendance page, HTML or JSON, into subjects. Each portal
+// family gets a parser; they're tried in order until one recognises the
+// page, so a new portal means adding a parser here rather than touching
+// the scraper.
+
+export interface ParseOptions {
+  threshold: number;
+}
+
+export interface AttendanceParser {
+  id: string;
+  // Null when the page isn't one this parser understands
+  parse: (body: string, options: ParseOptions) => Subject[] | null;
+}
+
+// What a table column holds; 'ratio' is a single "20/25" column
+export type AttendanceColumn = 'code' | 'name' | 'attended' | 'total' | 'percentage' | 'ratio';
+
+// Column index for each field the table has
+export type ColumnMap = Partial<Record<AttendanceColumn, number>>;
+
+// Checked in this order, so "Attendance %" is a percentage, "Subject Code"
+// a code rather than a name and "Total Attended" attended rather than total
+const COLUMN_PATTERNS: [AttendanceColumn, RegExp][] = [
+  ['percentage', /%|percent|\bpct\b/i],
+  ['code', /code/i],
+  ['attended', /attend|present/i],
+  ['total', /total|held|conducted|delivered|classes/i],
+  ['name', /subject|course|paper|name|title/i],
+];
+
+// Cells that mean "no figure yet" rather than zero
+const EMPTY_CELL = /^(-+|–|—|n\/?a|nil|null|not available)?$/i;
+
+// Words that mark a summary row rather than a subject
+const SUMMARY_ROW = /^(grand\s+)?total|^overall|^aggregate/i;
+
+// Subject codes mix capitals and digits: CS301, 21CS52, MA-101, BCS401L
+const SUBJECT_CODE = /^(?=[A-Z0-9-]*\d)(?=[A-Z0-9-]*[A-Z])[A-Z0-9][A-Z0-9-]{2,11}$/;
+
+function mapColumns(header: string[]): ColumnMap {
+  const columns: ColumnMap = {};
+  header.forEach((cell, idx) => {
+    const match = COLUMN_PATTERNS.find(([column, pattern]) => columns[column] === undefined && pattern.test(cell));
+    if (match) columns[match[0]] = idx;
+  });
+  // A lone attendance column holding "20/25" is both counts at once
+  if (columns.attended !== undefined && columns.total === undefined) {
+    columns.ratio = columns.attended;
+    delete columns.attended;
+  }
+  return columns;
+}
+
+// Some portals leave the percentage column unlabelled (or label it
+// "Status"); find it by its values instead
+function findPercentageColumn(rows: string[][], columns: ColumnMap): number {
+  const taken = new Set(Object.values(columns));
+  const width = Math.max(0, ...rows.map(r => r.length));
+  for (let idx = 0; idx < width; idx++) {
+    if (taken.has(idx)) continue;
+    const cells = rows.map(r => (r[idx] ?? '').trim()).filter(c => !EMPTY_CELL.test(c));
+    if (cells.length > 0 && cells.filter(c => /^\d+(\.\d+)?\s*%$/.test(c)).length * 2 >= cells.length) return idx;
+  }
+  return -1;
+}
+
+function detectColumns(table: string[][], headerIdx: number): ColumnMap {
+  const columns = mapColumns(table[headerIdx]);
+  if (columns.percentage === undefined) {
+    const idx = findPercentageColumn(table.slice(headerIdx + 1), columns);
+    if (idx !== -1) columns.percentage = idx;
+  }
+  return columns;
+}
+
+function isHeader(columns: ColumnMap): boolean {
+  const hasSubject = columns.name !== undefined || columns.code !== undefined;
+  const hasFigures = columns.percentage !== undefined || columns.ratio !== undefined
+    || (columns.attended !== undefined && columns.total !== undefined);
+  return hasSubject && hasFigures;
+}
+
+function toNumber(cell: string | undefined): number | null {
+  const match = cell?.replace(/,/g, '').match(/\d+(?:\.\d+)?/);
+  return match ? parseFloat(match[0]) : null;
+}
+
+function toRatio(cell: string | undefined): [number, number] | null {
+  const match = cell?.match(/(\d+)\s*(?:\/|of|out of)\s*(\d+)/i);
+  return match ? [parseInt(match[1], 10), parseInt(match[2], 10)] : null;
+}
+
+/**
+ * Split a combined subject cell into code and name: "CS301 - Data
+ * Structures", "Data Structures (CS301)" and "CS301 Data Structures" all
+ * give the same result. Anything without a recognisable code is all name.
+ */
+export function splitSubject(text: string): { code: string; name: string } {
+  const trimmed = text.trim();
+  const bracketed = trimmed.match(/^(.*?)\s*[([]\s*([A-Z0-9-]+)\s*[)\]]$/);
+  if (bracketed && SUBJECT_CODE.test(bracketed[2])) return { code: bracketed[2], name: bracketed[1].trim() };
+  const leading = trimmed.match(/^([A-Z0-9-]+)\s*(?:[-:–|]\s*|\s+)(.+)$/);
+  if (leading && SUBJECT_CODE.test(leading[1])) return { code: leading[1], name: leading[2].trim() };
+  if (SUBJECT_CODE.test(trimmed)) return { code: trimmed, name: trimmed };
+  return { code: '', name: trimmed };
+}
+
+// Portals disagree on whether 0.8 or 80 means 80%; the counts settle it
+function normalizePercentage(reported: number | null, attended: number, total: number): number | null {
+  if (reported === null || reported > 100) return null;
+  if (total > 0 && reported <= 1) {
+    const computed = attended / total;
+    if (Math.abs(computed - reported) < 0.01 && Math.abs(computed * 100 - reported) > 1) return reported * 100;
+  }
+  return reported;
+}
+
+function readRow(row: string[], columns: ColumnMap, options: ParseOptions): Subject | null {
+  const cell = (column: AttendanceColumn) => (columns[column] !== undefined ? (row[columns[column]!] ?? '').trim() : '');
+
+  let { code, name } = { code: cell('code'), name: cell('name') };
+  if (!code && name) ({ code, name } = splitSubject(name));
+  if (!name) name = code;
+  if (!name || SUMMARY_ROW.test(name)) return null;
+
+  const ratio = toRatio(cell('ratio'));
+  const attended = ratio ? ratio[0] : toNumber(cell('attended') || cell('ratio')) ?? 0;
+  const total = ratio ? ratio[1] : toNumber(cell('total')) ?? 0;
+  const hasCounts = ratio !== null || (columns.total !== undefined && !EMPTY_CELL.test(cell('total')));
+  const reported = EMPTY_CELL.test(cell('percentage')) ? null : normalizePercentage(toNumber(cell('percentage')), attended, total);
+
+  // No classes held yet, or no figure for the subject at all
+  const noData = hasCounts ? total === 0 : reported === null;
+  const percentage = noData ? 0 : reported ?? Math.round((attended / total) * 10000) / 100;
+  return {
+    name,
+    code,
+    attended,
+    total,
+    percentage,
+    status: noData ? 'no_data' : calculateStatus(percentage, options.threshold),
+  };
+}
+
+/**
+ * Find the header row and what each column holds. The header may sit
+ * below a title row or two.
+ */
+export function findHeader(table: string[][]): { headerIdx: number; columns: ColumnMap } | null {
+  const headerIdx = table.slice(0, 4).findIndex((_, idx) => isHeader(detectColumns(table, idx)));
+  return headerIdx === -1 ? null : { headerIdx, columns: detectColumns(table, headerIdx) };
+}
+
+// Subjects from data rows; summary and blank rows are skipped
+export function readRows(rows: string[][], columns: ColumnMap, options: ParseOptions): Subject[] {
+  return rows.map(row => readRow(row, columns, options)).filter((s): s is Subject => s !== null);
+}
+
+// Read subjects from a table if it looks like an attendance table
+export function parseTable(table: string[][], options: ParseOptions): Subject[] | null {
+  const header = findHeader(table);
+  if (!header) return null;
+  const subjects = readRows(table.slice(header.headerIdx + 1), header.columns, options);
+  return subjects.length > 0 ? subjects : null;
+}
+
+export const htmlTableParser: AttendanceParser = {
+  id: 'htmlTable',
+  parse: (body, options) => {
+    for (const table of extractTables(body)) {
+      const subjects = parseTable(table, options);
+      if (subjects) return subjects;
+    }
+    return null;
+  },
+};
+
+// "attendedClasses" → "attended Classes", so keys match the column patterns
+function keyToHeader(key: string): string {
+  return key.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/_/g, ' ');
+}
+
+// Every array of objects in a JSON document, outermost first
+function findRecordLists(value: unknown, depth = 0): Record<string, unknown>[][] {
+  if (depth > 6 || typeof value !== 'object' || value === null) return [];
+  if (Array.isArray(value)) {
+    const records = value.filter((v): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v));
+    const nested = value.flatMap(v => findRecordLists(v, depth + 1));
+    return records.length > 0 ? [records, ...nested] : nested;
+  }
+  return Object.values(value).flatMap(v => findRecordLists(v, depth + 1));
+}
+
+// JSON APIs behind newer portals: the attendance list is laid out as a
+// table with the object keys as the header
+export const jsonParser: AttendanceParser = {
+  id: 'json',
+  parse: (body, options) => {
+    const trimmed = body.trim();
+    if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) return null;
+    let json: unknown;
+    try {
+      json = JSON.parse(trimmed);
+    } catch {
+      return null;
+    }
+    for (const records of findRecordLists(json)) {
+      const keys = Object.keys(records[0]);
+      const rows = records.map(r => keys.map(k => (r[k] == null ? '' : String(r[k]))));
+      const subjects = parseTable([keys.map(keyToHeader), ...rows], options);
+      if (subjects) return subjects;
+    }
+    return null;
+  },
+};
+
+export const DEFAULT_PARSERS: AttendanceParser[] = [jsonParser, htmlTableParser];
+
+/**
+ * Read subjects from an attendance page. A portal that names its parser
+ * gets that one first; the rest are tried in order after it.
+ */
+export function parseAttendance(
+  body: string,
+  options: ParseOptions,
+  preferred?: string,
+  parsers: AttendanceParser[] = DEFAULT_PARSERS,
+): Subject[] | null {
+  const ordered = [...parsers].sort((a, b) => Number(b.id === preferred) - Number(a.id === preferred));
+  for (const parser of ordered) {
+    const subjects = parser.parse(body, options);
+    if (subjects) return subjects;
+  }
+  return null;
+}
@@ -0,0 +1,51 @@
+import { AttendanceFetch, fetchAttendanceFromApi, recordDeviceRefresh } from './api';
+import { ApiError, ApiResult } from './apiClient';
+import { findAdapter, loadCachedAdapters } from './erpAdapters';
+import { fetchTransport, PortalConfig, scrapeAttendance, Transport } from './localScraper';
+import { ErpLogin, FetchStage } from './types';
+
+// The backend itself is down or overloaded, as opposed to the portal
+// misbehaving or the user being out of refreshes
+function isBackendUnavailable(error: ApiError): boolean {
+  if (error.kind === 'network') return true;
+  if (error.kind === 'timeout') return !error.stage;
+  return error.kind === 'server' && error.status >= 500;
+}
+
+async function fetchOnDevice(
+  portal: PortalConfig,
+  login: ErpLogin,
+  threshold: number,
+  transport: Transport,
+  signal?: AbortSignal,
+  onStage?: (stage: FetchStage) => void,
+): Promise<ApiResult<AttendanceFetch>> {
+  const result = await scrapeAttendance(portal, login, threshold, transport, signal, onStage);
+  if (!result.ok) return result;
+  // Best effort: if the backend is down the refresh just isn't counted. A
+  // refusal still stands, since the server has the final say on the quota.
+  const recorded = await recordDeviceRefresh();
+  if (!recorded.ok && recorded.error.kind === 'quota') return recorded;
+  return { ok: true, value: { data: result.value, quota: recorded.ok ? recorded.value.quota : undefined } };
+}
+
+/**
+ * Fetch attendance through the backend, or on the device for portals the
+ * college registry knows how to read. `onDevice` logins never reach the
+ * backend; the rest only fall back to the device when the backend can't
+ * be reached. `transport` carries the device's requests to the portal.
+ */
+export async function fetchAttendance(
+  login: ErpLogin,
+  threshold: number,
+  signal?: AbortSignal,
+  onStage?: (stage: FetchStage) => void,
+  transport: Transport = fetchTransport,
+): Promise<ApiResult<AttendanceFetch>> {
+  const { portal } = findAdapter(await loadCachedAdapters(), login.adapterId);
+  if (portal && login.onDevice) return fetchOnDevice(portal, login, threshold, transport, signal, onStage);
+
+  const result = await fetchAttendanceFromApi(login, threshold, signal, onStage);
+  if (result.ok || !portal || !isBackendUnavailable(result.error)) return result;
+  return fetchOnDevice(portal, login, threshold, transport, signal, onStage);
+}
@@ -9,4 +9,13 @@ export const firebaseConfig = {
   appId: '1:139032164323:web:ceb5b7ac2159fc61eb12d6',
 };
 
+// OAuth client IDs for the Firebase project, from the Google Cloud console,
+// supplied at build time through the environment (e.g. an EAS secret or a
+// local .env). Google sign-in stays hidden on platforms without one.
+export const GOOGLE_CLIENT_IDS = {
+  web: process.env.EXPO_PUBLIC_GOOGLE_WEB_CLIENT_ID ?? '',
+  ios: process.env.EXPO_PUBLIC_GOOGLE_IOS_CLIENT_ID ?? '',
+  android: process.env.EXPO_PUBLIC_GOOGLE_ANDROID_CLIENT_ID ?? '',
+};
+
 export const RAZORPAY_KEY_ID = 'rzp_live_SFz0Ez0iIylFFh';
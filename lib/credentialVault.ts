@@ -0,0 +1,240 @@
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import * as LocalAuthentication from 'expo-local-authentication';
+import { EncryptedData, EncryptionContext, decryptData, encryptData, generateKey, needsReencrypt } from './crypto';
+
+// ERP credentials are encrypted with a random data key. The data key is
+// stored only wrapped: once per device by a key that never leaves that
+// device's keystore, and optionally by a passphrase the student chooses,
+// which is how a new device gets in without signing in to the ERP again.
+
+export interface CredentialVault {
+  // The data key wrapped by each device's keystore key, by device id
+  devices: Record<string, EncryptedData>;
+  // The data key wrapped by the student's vault passphrase, if they set one
+  passphrase: EncryptedData | null;
+}
+
+interface DeviceKey {
+  deviceId: string;
+  key: string;
+}
+
+export interface UnlockedVault {
+  dataKey: string;
+  // The vault with this device's wrapped key added or rewrapped, if needed
+  vault: CredentialVault;
+}
+
+// SecureStore keys allow only letters, digits, ".", "-" and "_"
+function deviceKeyName(uid: string): string {
+  return `erpVault.${uid}`;
+}
+
+function localLoginName(uid: string): string {
+  return `erpLogin.${uid}`;
+}
+
+function deviceContext(uid: string, deviceId: string): EncryptionContext {
+  return { uid, field: `erpVault.devices.${deviceId}` };
+}
+
+function passphraseContext(uid: string): EncryptionContext {
+  return { uid, field: 'erpVault.passphrase' };
+}
+
+function biometricKey(uid: string): string {
+  return `@biometricUnlock:${uid}`;
+}
+
+function loginHintKey(uid: string): string {
+  return `@erpLoginHint:${uid}`;
+}
+
+// The user dismissed, or failed, the biometric prompt guarding the keystore
+export class UnlockCancelledError extends Error {
+  constructor() {
+    super('Unlock cancelled');
+    this.name = 'UnlockCancelledError';
+  }
+}
+
+const UNLOCK_PROMPT = 'Unlock your ERP login';
+
+// There's no keystore on the web; the browser's storage is the best we have.
+// With biometric unlock on, the keystore itself asks for Face ID or a
+// fingerprint before it gives the value back.
+async function readSecure(name: string, requireAuthentication = false): Promise<string | null> {
+  if (Platform.OS === 'web') return AsyncStorage.getItem(`@${name}`);
+  if (!requireAuthentication) return SecureStore.getItemAsync(name);
+  try {
+    return await SecureStore.getItemAsync(name, { requireAuthentication, authenticationPrompt: UNLOCK_PROMPT });
+  } catch {
+    throw new UnlockCancelledError();
+  }
+}
+
+async function writeSecure(name: string, value: string, requireAuthentication = false): Promise<void> {
+  if (Platform.OS === 'web') {
+    await AsyncStorage.setItem(`@${name}`, value);
+  } else {
+    // Not backed up or restored to another phone: these are for this device only
+    await SecureStore.setItemAsync(name, value, {
+      keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+      requireAuthentication,
+      authenticationPrompt: UNLOCK_PROMPT,
+    });
+  }
+}
+
+async function deleteSecure(name: string): Promise<void> {
+  if (Platform.OS === 'web') await AsyncStorage.removeItem(`@${name}`);
+  else await SecureStore.deleteItemAsync(name);
+}
+
+async function readDeviceKey(uid: string): Promise<DeviceKey | null> {
+  const raw = await readSecure(deviceKeyName(uid), await getBiometricUnlock(uid));
+  return raw ? JSON.parse(raw) : null;
+}
+
+// A cancelled prompt throws rather than reading as no key, so it can't
+// replace the key this device already has
+async function getOrCreateDeviceKey(uid: string): Promise<DeviceKey> {
+  const existing = await readDeviceKey(uid);
+  if (existing) return existing;
+  const created = { deviceId: generateKey().replace(/[^a-zA-Z0-9]/g, '').slice(0, 16), key: generateKey() };
+  await writeSecure(deviceKeyName(uid), JSON.stringify(created), await getBiometricUnlock(uid));
+  return created;
+}
+
+async function unwrap(wrapped: EncryptedData, secret: string, context: EncryptionContext): Promise<string | null> {
+  try {
+    return await decryptData(wrapped, secret, context);
+  } catch {
+    return null;
+  }
+}
+
+// A new data key, wrapped for this device only
+export async function createVault(uid: string): Promise<UnlockedVault> {
+  const dataKey = generateKey();
+  const device = await getOrCreateDeviceKey(uid);
+  const wrapped = await encryptData(dataKey, device.key, 'none', deviceContext(uid, device.deviceId));
+  const vault = { devices: { [device.deviceId]: wrapped }, passphrase: null };
+  return { dataKey, vault };
+}
+
+/**
+ * Open the vault with this device's key, or with the passphrase when this
+ * device hasn't been added yet; unlocking by passphrase adds it. Wrapped
+ * keys this opens are rewrapped if they're in an older format. Null when
+ * neither works.
+ */
+export async function unlockVault(uid: string, vault: CredentialVault, passphrase?: string): Promise<UnlockedVault | null> {
+  const device = await getOrCreateDeviceKey(uid);
+  const context = deviceContext(uid, device.deviceId);
+  const wrapped = vault.devices[device.deviceId];
+  const fromDevice = wrapped ? await unwrap(wrapped, device.key, context) : null;
+  if (fromDevice && !needsReencrypt(wrapped)) return { dataKey: fromDevice, vault };
+
+  const fromPassphrase = !fromDevice && passphrase && vault.passphrase
+    ? await unwrap(vault.passphrase, passphrase, passphraseContext(uid))
+    : null;
+  const dataKey = fromDevice ?? fromPassphrase;
+  if (!dataKey) return null;
+
+  const upgradePassphrase = fromPassphrase && needsReencrypt(vault.passphrase!);
+  return {
+    dataKey,
+    vault: {
+      devices: { ...vault.devices, [device.deviceId]: await encryptData(dataKey, device.key, 'none', context) },
+      passphrase: upgradePassphrase
+        ? await encryptData(dataKey, passphrase!, 'pbkdf2-sha256', passphraseContext(uid))
+        : vault.passphrase,
+    },
+  };
+}
+
+// Wrap the data key with a new passphrase, or drop the passphrase with null
+export async function setVaultPassphrase(
+  uid: string,
+  unlocked: UnlockedVault,
+  passphrase: string | null,
+): Promise<CredentialVault> {
+  const wrapped = passphrase
+    ? await encryptData(unlocked.dataKey, passphrase, 'pbkdf2-sha256', passphraseContext(uid))
+    : null;
+  return { ...unlocked.vault, passphrase: wrapped };
+}
+
+// For the local-only mode: the secret part of the ERP login, kept in this
+// device's secure storage and nowhere else
+export async function readLocalLogin(uid: string): Promise<string | null> {
+  return readSecure(localLoginName(uid), await getBiometricUnlock(uid));
+}
+
+export async function writeLocalLogin(uid: string, plaintext: string): Promise<void> {
+  await writeSecure(localLoginName(uid), plaintext, await getBiometricUnlock(uid));
+}
+
+export function deleteLocalLogin(uid: string): Promise<void> {
+  return deleteSecure(localLoginName(uid));
+}
+
+// Everything this module keeps on the device for the user, for account deletion
+export async function forgetDevice(uid: string): Promise<void> {
+  await Promise.all([
+    deleteSecure(deviceKeyName(uid)),
+    deleteSecure(localLoginName(uid)),
+    AsyncStorage.removeItem(biometricKey(uid)),
+    AsyncStorage.removeItem(loginHintKey(uid)),
+  ]);
+}
+
+export async function isBiometricAvailable(): Promise<boolean> {
+  if (Platform.OS === 'web') return false;
+  const [hardware, enrolled] = await Promise.all([
+    LocalAuthentication.hasHardwareAsync(),
+    LocalAuthentication.isEnrolledAsync(),
+  ]);
+  return hardware && enrolled;
+}
+
+// Device-local: each phone decides for itself whether to ask
+export async function getBiometricUnlock(uid: string): Promise<boolean> {
+  return (await AsyncStorage.getItem(biometricKey(uid))) === 'true';
+}
+
+// Rewrites what this device keeps in the keystore with the new protection,
+// reading it under the old one, so turning either way asks once more
+export async function setBiometricUnlock(uid: string, enabled: boolean): Promise<void> {
+  const current = await getBiometricUnlock(uid);
+  if (current === enabled) return;
+  // Everything is read before anything is rewritten, so a cancelled prompt
+  // leaves it all as it was. One at a time, as each read may prompt.
+  const names = [deviceKeyName(uid), localLoginName(uid)];
+  const values: (string | null)[] = [];
+  for (const name of names) values.push(await readSecure(name, current));
+  for (let i = 0; i < names.length; i++) {
+    if (values[i] !== null) await writeSecure(names[i], values[i]!, enabled);
+  }
+  if (enabled) await AsyncStorage.setItem(biometricKey(uid), 'true');
+  else await AsyncStorage.removeItem(biometricKey(uid));
+}
+
+// The parts of the saved login that aren't secret, kept outside the
+// keystore so the login form can be filled in without unlocking it
+export interface LoginHint {
+  username: string;
+  onDevice: boolean;
+}
+
+export async function readLoginHint(uid: string): Promise<LoginHint | null> {
+  const raw = await AsyncStorage.getItem(loginHintKey(uid));
+  return raw ? JSON.parse(raw) : null;
+}
+
+export async function writeLoginHint(uid: string, hint: LoginHint): Promise<void> {
+  await AsyncStorage.setItem(loginHintKey(uid), JSON.stringify(hint));
+}
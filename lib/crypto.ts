@@ -1,16 +1,68 @@
 import { encode as btoa64, decode as atob64 } from 'base-64';
 
-export interface EncryptedData {
+// Every stored blob says how it was made, so the algorithms can change
+// without breaking what's already saved: decryptData reads every version
+// below, encryptData only ever writes the current one.
+
+// How the AES key is derived from the secret: PBKDF2 for passphrases,
+// 'none' when the secret already is a random key
+export type KdfId = 'pbkdf2-sha256' | 'none';
+
+export type KdfParams =
+  | { id: 'pbkdf2-sha256'; iterations: number; salt: string }
+  | { id: 'none' };
+
+export type CipherId = 'aes-256-gcm';
+
+// What a blob belongs to. It's bound in as associated data, so a blob
+// copied to another user or field fails to decrypt.
+export interface EncryptionContext {
+  uid: string;
+  field: string;
+}
+
+// Before versioning: PBKDF2 with LEGACY_ITERATIONS, AES-GCM, nothing bound
+interface EncryptedDataV1 {
+  v?: undefined;
   salt: string;
   iv: string;
   ciphertext: string;
 }
 
+// The first vault format: KDF inline, nothing bound
+interface EncryptedDataV2 {
+  v: 2;
+  kdf: KdfId;
+  iterations?: number;
+  // Empty when kdf is 'none'
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+interface EncryptedDataV3 {
+  v: 3;
+  kdf: KdfParams;
+  cipher: CipherId;
+  // The bound context, as written; decryption checks it against the
+  // context the caller expects rather than trusting it
+  aad: string;
+  iv: string;
+  ciphertext: string;
+}
+
+export type EncryptedData = EncryptedDataV1 | EncryptedDataV2 | EncryptedDataV3;
+
+export const CURRENT_VERSION = 3;
+const LEGACY_ITERATIONS = 100000;
+export const PBKDF2_ITERATIONS = 600000;
+const IV_BYTES = 12;
+
 function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
   return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
 }
 
-async function deriveKey(password: string, salt: Uint8Array): Promise<CryptoKey> {
+async function deriveKey(password: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
   const encoder = new TextEncoder();
   const keyMaterial = await crypto.subtle.importKey(
     'raw',
@@ -21,7 +73,7 @@ async function deriveKey(password: string, salt: Uint8Array): Promise<CryptoKey>
   );
 
   return crypto.subtle.deriveKey(
-    { name: 'PBKDF2', salt: toArrayBuffer(salt), iterations: 100000, hash: 'SHA-256' },
+    { name: 'PBKDF2', salt: toArrayBuffer(salt), iterations, hash: 'SHA-256' },
     keyMaterial,
     { name: 'AES-GCM', length: 256 },
     false,
@@ -29,6 +81,21 @@ async function deriveKey(password: string, salt: Uint8Array): Promise<CryptoKey>
   );
 }
 
+function importKey(key: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', toArrayBuffer(fromBase64(key)), 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+function keyFor(kdf: KdfParams, secret: string): Promise<CryptoKey> {
+  switch (kdf.id) {
+    case 'pbkdf2-sha256':
+      return deriveKey(secret, fromBase64(kdf.salt), kdf.iterations);
+    case 'none':
+      return importKey(secret);
+    default:
+      throw new Error(`Unsupported key derivation: ${(kdf as { id: string }).id}`);
+  }
+}
+
 function toBase64(buffer: ArrayBuffer): string {
   const bytes = new Uint8Array(buffer);
   let binary = '';
@@ -47,41 +114,128 @@ function fromBase64(base64: string): Uint8Array {
   return bytes;
 }
 
-export async function encryptCredentials(
+function toAad(context: EncryptionContext): string {
+  return `unitrack:${context.uid}:${context.field}`;
+}
+
+// Any format as v3 terms, so there's a single decrypt path
+function toV3(encrypted: EncryptedData): Omit<EncryptedDataV3, 'aad'> & { aad: string | null } {
+  switch (encrypted.v) {
+    case undefined:
+      return {
+        v: 3,
+        kdf: { id: 'pbkdf2-sha256', iterations: LEGACY_ITERATIONS, salt: encrypted.salt },
+        cipher: 'aes-256-gcm',
+        aad: null,
+        iv: encrypted.iv,
+        ciphertext: encrypted.ciphertext,
+      };
+    case 2:
+      return {
+        v: 3,
+        kdf: encrypted.kdf === 'none'
+          ? { id: 'none' }
+          : { id: 'pbkdf2-sha256', iterations: encrypted.iterations ?? LEGACY_ITERATIONS, salt: encrypted.salt },
+        cipher: 'aes-256-gcm',
+        aad: null,
+        iv: encrypted.iv,
+        ciphertext: encrypted.ciphertext,
+      };
+    case 3:
+      return encrypted;
+    default:
+      throw new Error(`Unsupported encrypted data version: ${(encrypted as { v: unknown }).v}`);
+  }
+}
+
+// A fresh random 256-bit key, base64-encoded
+export function generateKey(): string {
+  return toBase64(toArrayBuffer(crypto.getRandomValues(new Uint8Array(32))));
+}
+
+// Written before the vault, with the uid as the password
+export function isLegacyEncrypted(encrypted: EncryptedData): boolean {
+  return encrypted.v === undefined;
+}
+
+// Older format or weaker parameters than encryptData would use now
+export function needsReencrypt(encrypted: EncryptedData): boolean {
+  if (encrypted.v !== CURRENT_VERSION) return true;
+  return encrypted.kdf.id === 'pbkdf2-sha256' && encrypted.kdf.iterations < PBKDF2_ITERATIONS;
+}
+
+/**
+ * Encrypt with AES-256-GCM, bound to `context`. The secret is a passphrase
+ * for 'pbkdf2-sha256', or a key from generateKey for 'none'.
+ */
+export async function encryptData(
   plaintext: string,
-  password: string
+  secret: string,
+  kdfId: KdfId,
+  context: EncryptionContext
 ): Promise<EncryptedData> {
-  const salt = crypto.getRandomValues(new Uint8Array(16));
-  const iv = crypto.getRandomValues(new Uint8Array(12));
-  const key = await deriveKey(password, salt);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const kdf: KdfParams = kdfId === 'none'
+    ? { id: 'none' }
+    : { id: kdfId, iterations: PBKDF2_ITERATIONS, salt: toBase64(toArrayBuffer(crypto.getRandomValues(new Uint8Array(16)))) };
+  const aad = toAad(context);
 
   const encrypted = await crypto.subtle.encrypt(
-    { name: 'AES-GCM', iv: toArrayBuffer(iv) },
-    key,
+    { name: 'AES-GCM', iv: toArrayBuffer(iv), additionalData: toArrayBuffer(new TextEncoder().encode(aad)) },
+    await keyFor(kdf, secret),
     new TextEncoder().encode(plaintext)
   );
 
   return {
-    salt: toBase64(toArrayBuffer(salt)),
+    v: 3,
+    kdf,
+    cipher: 'aes-256-gcm',
+    aad,
     iv: toBase64(toArrayBuffer(iv)),
     ciphertext: toBase64(encrypted),
   };
 }
 
-export async function decryptCredentials(
+/**
+ * Decrypt any version. Throws when the secret is wrong, the data was
+ * tampered with, or it belongs to a different context. Blobs from before
+ * v3 weren't bound to anything, so the context isn't checked for them.
+ */
+export async function decryptData(
   encrypted: EncryptedData,
-  password: string
+  secret: string,
+  context: EncryptionContext
 ): Promise<string> {
-  const salt = fromBase64(encrypted.salt);
-  const iv = fromBase64(encrypted.iv);
-  const ciphertext = fromBase64(encrypted.ciphertext);
-  const key = await deriveKey(password, salt);
+  const blob = toV3(encrypted);
+  if (blob.cipher !== 'aes-256-gcm') throw new Error(`Unsupported cipher: ${blob.cipher}`);
+  const aad = blob.aad === null ? null : toAad(context);
+  if (blob.aad !== null && blob.aad !== aad) throw new Error('Encrypted data belongs to a different user or field');
 
   const decrypted = await crypto.subtle.decrypt(
-    { name: 'AES-GCM', iv: toArrayBuffer(iv) },
-    key,
-    toArrayBuffer(ciphertext)
+    {
+      name: 'AES-GCM',
+      iv: toArrayBuffer(fromBase64(blob.iv)),
+      ...(aad === null ? {} : { additionalData: toArrayBuffer(new TextEncoder().encode(aad)) }),
+    },
+    await keyFor(blob.kdf, secret),
+    toArrayBuffer(fromBase64(blob.ciphertext))
   );
 
   return new TextDecoder().decode(decrypted);
 }
+
+/**
+ * Decrypt and encrypt again in the current format, keeping the KDF kind
+ * unless one is given. Pass `newSecret` to change the secret at the same
+ * time.
+ */
+export async function reencryptData(
+  encrypted: EncryptedData,
+  secret: string,
+  context: EncryptionContext,
+  newSecret: string = secret,
+  kdfId: KdfId = toV3(encrypted).kdf.id
+): Promise<EncryptedData> {
+  const plaintext = await decryptData(encrypted, secret, context);
+  return encryptData(plaintext, newSecret, kdfId, context);
+}
@@ -0,0 +1,24 @@
+// Calendar dates as the app stores them: local-time YYYY-MM-DD keys. Every
+// module that keys data by date uses these, so the keys always line up.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function formatDateStr(d: Date): string {
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+// Local midnight of the date; missing month or day parts fall back to 1
+export function parseDateStr(dateStr: string): Date {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  return new Date(y, (m || 1) - 1, d || 1);
+}
+
+// Whole days from a to b, safe across DST changes
+export function daysBetween(a: Date, b: Date): number {
+  const utcA = Date.UTC(a.getFullYear(), a.getMonth(), a.getDate());
+  const utcB = Date.UTC(b.getFullYear(), b.getMonth(), b.getDate());
+  return Math.round((utcB - utcA) / DAY_MS);
+}
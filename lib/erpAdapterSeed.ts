@@ -0,0 +1,59 @@
+import { ErpAdapter } from './erpAdapters';
+
+// Shipped with the app so the college picker works on a fresh install or
+// offline. The server's registry replaces this list once it's been fetched.
+// These are the ERP vendors themselves: the student still enters their own
+// college's portal address, but gets the right login form for it.
+export const SEED_ADAPTERS: ErpAdapter[] = [
+  {
+    id: 'contineo',
+    college: 'Contineo portal',
+    vendor: 'Contineo',
+    erpUrl: null,
+    usernameLabel: 'Username',
+    passwordLabel: 'Password',
+    extraFields: [],
+    notes: "Enter the address of your college's Contineo login page.",
+  },
+  {
+    id: 'linways',
+    college: 'Linways portal',
+    vendor: 'Linways',
+    erpUrl: null,
+    usernameLabel: 'Username',
+    passwordLabel: 'Password',
+    extraFields: [],
+    notes: "Enter the address of your college's Linways login page.",
+  },
+  {
+    id: 'camu',
+    college: 'Camu portal',
+    vendor: 'Camu',
+    erpUrl: null,
+    usernameLabel: 'Email or username',
+    passwordLabel: 'Password',
+    extraFields: [],
+    notes: "Enter the address of your college's Camu login page.",
+  },
+  {
+    id: 'mastersoft',
+    college: 'MasterSoft portal',
+    vendor: 'MasterSoft',
+    aliases: ['MSERP'],
+    erpUrl: null,
+    usernameLabel: 'Username',
+    passwordLabel: 'Password',
+    extraFields: [],
+    notes: "Enter the address of your college's MasterSoft login page.",
+  },
+  {
+    id: 'fedena',
+    college: 'Fedena portal',
+    vendor: 'Fedena',
+    erpUrl: null,
+    usernameLabel: 'Username',
+    passwordLabel: 'Password',
+    extraFields: [],
+    notes: "Enter the address of your college's Fedena login page.",
+  },
+];
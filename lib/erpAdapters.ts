@@ -0,0 +1,141 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { fetchErpAdapters } from './api';
+import { SEED_ADAPTERS } from './erpAdapterSeed';
+import { PortalConfig } from './localScraper';
+import { ErpLogin } from './types';
+
+const CACHE_KEY = '@erpAdapters';
+
+export const CUSTOM_ADAPTER_ID = 'custom';
+
+// An extra value a portal asks for on its login page, e.g. the semester
+export interface ErpExtraField {
+  key: string;
+  label: string;
+  kind: 'text' | 'number' | 'select';
+  placeholder?: string;
+  // Choices for 'select' fields
+  options?: string[];
+  required: boolean;
+}
+
+// How to sign in to one college's ERP
+export interface ErpAdapter {
+  id: string;
+  college: string;
+  vendor: string;
+  // Other names students search by: short forms, the city, old names
+  aliases?: string[];
+  // Null when the student has to type their portal's address themselves
+  erpUrl: string | null;
+  usernameLabel: string;
+  // Shown under the field, e.g. "Your USN, like 1AB21CS001"
+  usernameHint?: string;
+  // Regex source the username has to match; checked before we call the server
+  usernamePattern?: string;
+  passwordLabel: string;
+  extraFields: ErpExtraField[];
+  // Anything else worth knowing before signing in, e.g. a captcha step
+  notes?: string;
+  // Set when the app can also read this portal itself
+  portal?: PortalConfig;
+}
+
+// For colleges that aren't in the registry yet
+export const CUSTOM_ADAPTER: ErpAdapter = {
+  id: CUSTOM_ADAPTER_ID,
+  college: 'Other college',
+  vendor: '',
+  erpUrl: null,
+  usernameLabel: 'Username',
+  passwordLabel: 'Password',
+  extraFields: [],
+};
+
+export function findAdapter(adapters: ErpAdapter[], id: string): ErpAdapter {
+  return adapters.find(a => a.id === id) ?? CUSTOM_ADAPTER;
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// Lower is better; null means no match
+function matchScore(adapter: ErpAdapter, query: string): number | null {
+  const college = normalize(adapter.college);
+  const aliases = (adapter.aliases ?? []).map(normalize);
+  if (college.startsWith(query) || aliases.some(a => a.startsWith(query))) return 0;
+  const words = [...college.split(' '), ...aliases.flatMap(a => a.split(' '))];
+  if (words.some(w => w.startsWith(query))) return 1;
+  if (college.includes(query) || aliases.some(a => a.includes(query))) return 2;
+  if (normalize(adapter.vendor).includes(query)) return 3;
+  return null;
+}
+
+/**
+ * Colleges matching what the student typed, best matches first. Names and
+ * aliases that start with the query rank above ones that merely contain it,
+ * and the ERP vendor's name is searched last.
+ */
+export function searchAdapters(adapters: ErpAdapter[], query: string): ErpAdapter[] {
+  const q = normalize(query);
+  const byName = (a: ErpAdapter, b: ErpAdapter) => a.college.localeCompare(b.college);
+  if (!q) return [...adapters].sort(byName);
+
+  return adapters
+    .map(adapter => ({ adapter, score: matchScore(adapter, q) }))
+    .filter((m): m is { adapter: ErpAdapter; score: number } => m.score !== null)
+    .sort((a, b) => a.score - b.score || byName(a.adapter, b.adapter))
+    .map(m => m.adapter);
+}
+
+/**
+ * Check a login against its adapter before it goes to the server. Returns
+ * what to tell the student, or null when it looks right.
+ */
+export function validateErpLogin(adapter: ErpAdapter, login: ErpLogin): string | null {
+  const { erpUrl, username, password, extra } = login;
+  if (!erpUrl.trim()) return 'Please enter your ERP URL.';
+  if (!username.trim()) return `Please enter your ${adapter.usernameLabel.toLowerCase()}.`;
+  if (adapter.usernamePattern) {
+    let matches = true;
+    try {
+      matches = new RegExp(adapter.usernamePattern, 'i').test(username.trim());
+    } catch {
+      // A bad pattern from the registry shouldn't lock anyone out
+    }
+    if (!matches) {
+      return adapter.usernameHint
+        ? `That doesn't look like a valid ${adapter.usernameLabel.toLowerCase()}. ${adapter.usernameHint}`
+        : `That doesn't look like a valid ${adapter.usernameLabel.toLowerCase()}.`;
+    }
+  }
+  if (!password) return `Please enter your ${adapter.passwordLabel.toLowerCase()}.`;
+  const missing = adapter.extraFields.find(f => f.required && !extra[f.key]?.trim());
+  if (missing) return `Please enter your ${missing.label.toLowerCase()}.`;
+  return null;
+}
+
+// The last registry fetched, or the one bundled with the app before that
+export async function loadCachedAdapters(): Promise<ErpAdapter[]> {
+  try {
+    const raw = await AsyncStorage.getItem(CACHE_KEY);
+    const cached: ErpAdapter[] = raw ? JSON.parse(raw) : [];
+    return cached.length > 0 ? cached : SEED_ADAPTERS;
+  } catch {
+    return SEED_ADAPTERS;
+  }
+}
+
+/**
+ * Fetch the latest registry and cache it. The registry lives on the server
+ * so colleges can be added or fixed without an app release. Returns null
+ * when it couldn't be fetched, or came back empty and would leave the
+ * picker with nothing.
+ */
+export async function refreshAdapters(): Promise<ErpAdapter[] | null> {
+  const result = await fetchErpAdapters();
+  if (!result.ok || result.value.length === 0) return null;
+  await AsyncStorage.setItem(CACHE_KEY, JSON.stringify(result.value)).catch(() => {});
+  return result.value;
+}
@@ -0,0 +1,65 @@
+import { Platform } from 'react-native';
+import * as AppleAuthentication from 'expo-apple-authentication';
+import * as Crypto from 'expo-crypto';
+import { GoogleAuthProvider, OAuthCredential, OAuthProvider, UserInfo } from 'firebase/auth';
+import { GOOGLE_CLIENT_IDS } from './config';
+import { SignInProvider } from './types';
+
+// Providers whose credential can be attached to an existing account
+export type LinkableProvider = 'google' | 'apple';
+
+export const PROVIDER_LABELS: Record<SignInProvider, string> = {
+  password: 'Email and password',
+  google: 'Google',
+  apple: 'Apple',
+};
+
+const PROVIDER_IDS: Record<string, SignInProvider> = {
+  password: 'password',
+  'google.com': 'google',
+  'apple.com': 'apple',
+};
+
+export function getSignInProviders(providerData: UserInfo[]): SignInProvider[] {
+  return providerData.flatMap(info => PROVIDER_IDS[info.providerId] ?? []);
+}
+
+export function getGoogleClientId(): string {
+  if (Platform.OS === 'ios') return GOOGLE_CLIENT_IDS.ios;
+  if (Platform.OS === 'android') return GOOGLE_CLIENT_IDS.android;
+  return GOOGLE_CLIENT_IDS.web;
+}
+
+export function googleCredential(idToken: string): OAuthCredential {
+  return GoogleAuthProvider.credential(idToken);
+}
+
+// Sign in with Apple is offered on iOS only, where Apple requires it
+export async function isAppleSignInAvailable(): Promise<boolean> {
+  if (Platform.OS !== 'ios') return false;
+  return AppleAuthentication.isAvailableAsync();
+}
+
+/**
+ * Ask Apple for an identity token. Firebase checks it against the hashed
+ * nonce Apple signed, so a token lifted from elsewhere can't be replayed.
+ * Resolves to null if the user closes the sheet.
+ */
+export async function getAppleCredential(): Promise<OAuthCredential | null> {
+  const rawNonce = Crypto.randomUUID();
+  const nonce = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, rawNonce);
+  try {
+    const { identityToken } = await AppleAuthentication.signInAsync({
+      requestedScopes: [
+        AppleAuthentication.AppleAuthenticationScope.FULL_NAME,
+        AppleAuthentication.AppleAuthenticationScope.EMAIL,
+      ],
+      nonce,
+    });
+    if (!identityToken) throw new Error('Apple did not return an identity token');
+    return new OAuthProvider('apple.com').credential({ idToken: identityToken, rawNonce });
+  } catch (err) {
+    if ((err as { code?: string }).code === 'ERR_REQUEST_CANCELED') return null;
+    throw err;
+  }
+}
@@ -1,7 +1,44 @@
-import { doc, getDoc, setDoc, arrayUnion } from 'firebase/firestore';
+import {
+  doc,
+  getDoc,
+  setDoc,
+  deleteDoc,
+  writeBatch,
+  arrayUnion,
+  collection,
+  getDocs,
+  query,
+  orderBy,
+  onSnapshot,
+  DocumentData,
+} from 'firebase/firestore';
 import { getFirebaseDb } from './firebase';
-import { AttendanceData, Timetable } from './types';
-import { EncryptedData, encryptCredentials, decryptCredentials } from './crypto';
+import {
+  AcademicCalendar,
+  AttendanceData,
+  AttendanceSnapshot,
+  CredentialStorage,
+  ErpLogin,
+  SkipPlan,
+  Timetable,
+  TimetableRotation,
+  UnavailableLogin,
+} from './types';
+import { isLegacyTimetable, normalizeRotation, normalizeTimetable } from './timetable';
+import { EMPTY_CALENDAR, normalizeCalendar } from './academicCalendar';
+import { normalizeSkipPlan } from './skipOptimizer';
+import { EncryptedData, EncryptionContext, decryptData, encryptData, isLegacyEncrypted, needsReencrypt, reencryptData } from './crypto';
+import {
+  CredentialVault,
+  createVault,
+  deleteLocalLogin,
+  readLocalLogin,
+  setVaultPassphrase,
+  unlockVault,
+  writeLocalLogin,
+  writeLoginHint,
+} from './credentialVault';
+import { CUSTOM_ADAPTER_ID } from './erpAdapters';
 
 export interface PaymentRecord {
   orderId: string;
@@ -17,8 +54,16 @@ export interface UserData {
   threshold: number;
   subjectThresholds: Record<string, number>;
   timetable: Timetable;
+  timetableRotation: TimetableRotation | null;
+  academicCalendar: AcademicCalendar;
+  skipPlan: SkipPlan | null;
   erpUrl: string;
+  // Which college registry entry the student signed in with
+  erpAdapterId: string;
   erpCredentials: EncryptedData | null;
+  // Wrapped copies of the key erpCredentials is encrypted with
+  erpVault: CredentialVault | null;
+  erpCredentialsStorage: CredentialStorage;
   lastSynced: string;
   premiumUntil: string | null;
   trialEndsAt: string | null;
@@ -27,13 +72,26 @@ export interface UserData {
   payments: PaymentRecord[];
 }
 
+// Only the API writes these: it counts each refresh in a Firestore
+// transaction and sends back the new count
+export const SERVER_OWNED_FIELDS = ['refreshCount', 'refreshCountResetMonth'] as const;
+
+// What the app may write to the user document
+export type UserDataUpdate = Partial<Omit<UserData, typeof SERVER_OWNED_FIELDS[number]>>;
+
 const DEFAULT_USER_DATA: UserData = {
   attendance: null,
   threshold: 75,
   subjectThresholds: {},
   timetable: {},
+  timetableRotation: null,
+  academicCalendar: EMPTY_CALENDAR,
+  skipPlan: null,
   erpUrl: '',
+  erpAdapterId: CUSTOM_ADAPTER_ID,
   erpCredentials: null,
+  erpVault: null,
+  erpCredentialsStorage: 'cloud',
   lastSynced: '',
   premiumUntil: null,
   trialEndsAt: null,
@@ -45,49 +103,245 @@ const DEFAULT_USER_DATA: UserData = {
 export async function loadUserData(uid: string): Promise<UserData> {
   const snap = await getDoc(doc(getFirebaseDb(), 'users', uid));
   if (!snap.exists()) return { ...DEFAULT_USER_DATA };
-  return { ...DEFAULT_USER_DATA, ...snap.data() } as UserData;
+  const raw = snap.data();
+
+  // One-time upgrade of timetables saved as plain code lists
+  if (isLegacyTimetable(raw.timetable)) {
+    saveUserData(uid, { timetable: normalizeTimetable(raw.timetable) }).catch(() => {});
+  }
+
+  return normalizeUserData(raw);
+}
+
+function normalizeUserData(raw: DocumentData): UserData {
+  return {
+    ...DEFAULT_USER_DATA,
+    ...raw,
+    timetable: normalizeTimetable(raw.timetable),
+    timetableRotation: normalizeRotation(raw.timetableRotation),
+    academicCalendar: normalizeCalendar(raw.academicCalendar),
+    skipPlan: normalizeSkipPlan(raw.skipPlan),
+  } as UserData;
 }
 
-export async function saveUserData(uid: string, partial: Partial<UserData>): Promise<void> {
+/**
+ * Listen for changes to the user document made on other devices. Snapshots
+ * of this device's own unconfirmed writes are skipped; metadata changes are
+ * included so the confirmed copy of those writes still comes through.
+ * Returns the unsubscribe function.
+ */
+export function subscribeUserData(
+  uid: string,
+  onChange: (data: UserData) => void,
+  onError: (err: Error) => void = () => {},
+): () => void {
+  return onSnapshot(doc(getFirebaseDb(), 'users', uid), { includeMetadataChanges: true }, snap => {
+    if (snap.metadata.hasPendingWrites || !snap.exists()) return;
+    onChange(normalizeUserData(snap.data()));
+  }, onError);
+}
+
+export async function saveUserData(uid: string, partial: UserDataUpdate): Promise<void> {
   await setDoc(doc(getFirebaseDb(), 'users', uid), partial, { merge: true });
 }
 
-export async function saveErpCredentials(
+/**
+ * Write one batch from the offline write queue. Queued payments are
+ * appended to the payment list rather than replacing it.
+ */
+export async function flushUserDataWrites(
   uid: string,
-  erpUrl: string,
-  username: string,
-  password: string,
+  partial: UserDataUpdate,
+  payments: PaymentRecord[],
 ): Promise<void> {
-  const plaintext = JSON.stringify({ username, password });
-  const encrypted = await encryptCredentials(plaintext, uid);
-  await saveUserData(uid, { erpUrl, erpCredentials: encrypted });
+  const update = payments.length > 0 ? { ...partial, payments: arrayUnion(...payments) } : partial;
+  await setDoc(doc(getFirebaseDb(), 'users', uid), update, { merge: true });
 }
 
-export async function loadErpCredentials(
-  uid: string,
-): Promise<{ username: string; password: string; erpUrl: string } | null> {
-  const data = await loadUserData(uid);
-  if (!data.erpCredentials || !data.erpUrl) return null;
+// Whether this device can use the saved ERP login
+export type VaultStatus = 'none' | 'unlocked' | UnavailableLogin;
+
+// Replaces the vault fields outright: a merge would keep device entries
+// that wrap a data key the credentials no longer use
+async function saveVaultFields(uid: string, partial: UserDataUpdate): Promise<void> {
+  await setDoc(doc(getFirebaseDb(), 'users', uid), partial, { mergeFields: Object.keys(partial) });
+}
+
+function credentialsContext(uid: string): EncryptionContext {
+  return { uid, field: 'erpCredentials' };
+}
+
+// The secret part of a login, as encrypted or kept on the device
+function toPlaintext({ username, password, extra, onDevice }: ErpLogin): string {
+  return JSON.stringify({ username, password, extra, onDevice });
+}
+
+function fromPlaintext(data: UserData, plaintext: string): ErpLogin | null {
+  try {
+    const { username, password, extra, onDevice } = JSON.parse(plaintext);
+    return {
+      adapterId: data.erpAdapterId,
+      erpUrl: data.erpUrl,
+      username,
+      password,
+      extra: extra ?? {},
+      onDevice: onDevice === true,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// So the login form can show who's signed in without unlocking the login
+function rememberLoginHint(uid: string, login: ErpLogin): Promise<void> {
+  return writeLoginHint(uid, { username: login.username, onDevice: login.onDevice === true }).catch(() => {});
+}
+
+async function decryptLogin(uid: string, data: UserData, secret: string): Promise<ErpLogin | null> {
   try {
-    const plaintext = await decryptCredentials(data.erpCredentials, uid);
-    const { username, password } = JSON.parse(plaintext);
-    return { username, password, erpUrl: data.erpUrl };
+    return fromPlaintext(data, await decryptData(data.erpCredentials!, secret, credentialsContext(uid)));
   } catch {
     return null;
   }
 }
 
-export async function savePayment(uid: string, premiumUntil: string, payment: PaymentRecord): Promise<void> {
-  await setDoc(doc(getFirebaseDb(), 'users', uid), {
-    premiumUntil,
-    payments: arrayUnion(payment),
-  }, { merge: true });
+/**
+ * Encrypt and save the ERP login. Extra login fields are encrypted along
+ * with the password, since some portals ask for things like a date of
+ * birth. The vault's data key is kept when this device can open it;
+ * otherwise a new vault replaces it and other devices ask for the login
+ * again. In local-only mode the secret part stays on this device and only
+ * the portal address is saved.
+ */
+export async function saveErpCredentials(uid: string, login: ErpLogin): Promise<void> {
+  const { adapterId, erpUrl } = login;
+  const { erpVault, erpCredentialsStorage } = await loadUserData(uid);
+  await rememberLoginHint(uid, login);
+  if (erpCredentialsStorage === 'device') {
+    await writeLocalLogin(uid, toPlaintext(login));
+    await saveUserData(uid, { erpUrl, erpAdapterId: adapterId });
+    return;
+  }
+  const unlocked = (erpVault && await unlockVault(uid, erpVault)) || await createVault(uid);
+  const encrypted = await encryptData(toPlaintext(login), unlocked.dataKey, 'none', credentialsContext(uid));
+  await saveVaultFields(uid, { erpUrl, erpAdapterId: adapterId, erpCredentials: encrypted, erpVault: unlocked.vault });
+}
+
+/**
+ * The saved ERP login, or why this device can't use it. A passphrase
+ * unlocks it on a new device and adds the device to the vault. Logins
+ * saved before the vault are moved into one on first load. With biometric
+ * unlock on, this prompts for it and throws UnlockCancelledError if the
+ * student backs out.
+ */
+export async function loadErpCredentials(uid: string, passphrase?: string): Promise<ErpLogin | UnavailableLogin | null> {
+  const login = await readErpCredentials(uid, passphrase);
+  if (login && typeof login !== 'string') await rememberLoginHint(uid, login);
+  return login;
 }
 
-export async function incrementRefreshCount(uid: string, currentMonth: string, currentCount: number, currentResetMonth: string): Promise<{ refreshCount: number; refreshCountResetMonth: string }> {
-  const isNewMonth = currentResetMonth !== currentMonth;
-  const newCount = isNewMonth ? 1 : currentCount + 1;
-  const update = { refreshCount: newCount, refreshCountResetMonth: currentMonth };
-  await saveUserData(uid, update);
-  return update;
+async function readErpCredentials(uid: string, passphrase?: string): Promise<ErpLogin | UnavailableLogin | null> {
+  const data = await loadUserData(uid);
+  if (data.erpCredentialsStorage === 'device') {
+    const plaintext = await readLocalLogin(uid);
+    if (!plaintext) return data.erpUrl ? 'elsewhere' : null;
+    return fromPlaintext(data, plaintext);
+  }
+  if (!data.erpCredentials || !data.erpUrl) return null;
+
+  if (isLegacyEncrypted(data.erpCredentials)) {
+    const login = await decryptLogin(uid, data, uid);
+    if (login) await saveErpCredentials(uid, login).catch(() => {});
+    return login;
+  }
+
+  const unlocked = data.erpVault ? await unlockVault(uid, data.erpVault, passphrase) : null;
+  if (!unlocked) return 'locked';
+  const login = await decryptLogin(uid, data, unlocked.dataKey);
+  if (!login) return 'locked';
+
+  // Bring anything written in an older format up to date
+  const upgrade: UserDataUpdate = {};
+  if (unlocked.vault !== data.erpVault) upgrade.erpVault = unlocked.vault;
+  if (needsReencrypt(data.erpCredentials)) {
+    upgrade.erpCredentials = await reencryptData(data.erpCredentials, unlocked.dataKey, credentialsContext(uid));
+  }
+  if (Object.keys(upgrade).length > 0) await saveVaultFields(uid, upgrade).catch(() => {});
+  return login;
+}
+
+export async function loadVaultStatus(
+  uid: string,
+): Promise<{ status: VaultStatus; hasPassphrase: boolean; storage: CredentialStorage }> {
+  const data = await loadUserData(uid);
+  const storage = data.erpCredentialsStorage;
+  const hasPassphrase = !!data.erpVault?.passphrase;
+  if (storage === 'device') {
+    const status = await readLocalLogin(uid) ? 'unlocked' : data.erpUrl ? 'elsewhere' : 'none';
+    return { status, hasPassphrase, storage };
+  }
+  if (!data.erpCredentials) return { status: 'none', hasPassphrase, storage };
+  if (isLegacyEncrypted(data.erpCredentials)) return { status: 'unlocked', hasPassphrase, storage };
+  const unlocked = data.erpVault ? await unlockVault(uid, data.erpVault) : null;
+  return { status: unlocked ? 'unlocked' : 'locked', hasPassphrase, storage };
+}
+
+/**
+ * Move the ERP login between the cloud and this device. Going local-only
+ * deletes the cloud copy and going back deletes the local one, so the
+ * login is only ever in one of the two. False when there's a login this
+ * device can't use, since it couldn't be moved.
+ */
+export async function saveCredentialStorage(uid: string, storage: CredentialStorage): Promise<boolean> {
+  const data = await loadUserData(uid);
+  if (data.erpCredentialsStorage === storage) return true;
+  const login = await loadErpCredentials(uid);
+  if (login === 'locked' || login === 'elsewhere') return false;
+
+  if (storage === 'device') {
+    if (login) await writeLocalLogin(uid, toPlaintext(login));
+    await saveVaultFields(uid, { erpCredentialsStorage: 'device', erpCredentials: null, erpVault: null });
+  } else {
+    await saveVaultFields(uid, { erpCredentialsStorage: 'cloud' });
+    if (login) await saveErpCredentials(uid, login);
+    await deleteLocalLogin(uid);
+  }
+  return true;
+}
+
+// Set, change or (with null) remove the vault passphrase. False when this
+// device can't open the vault.
+export async function saveVaultPassphrase(uid: string, passphrase: string | null): Promise<boolean> {
+  const { erpVault } = await loadUserData(uid);
+  const unlocked = erpVault ? await unlockVault(uid, erpVault) : null;
+  if (!unlocked) return false;
+  await saveVaultFields(uid, { erpVault: await setVaultPassphrase(uid, unlocked, passphrase) });
+  return true;
+}
+
+export async function saveAttendanceSnapshot(uid: string, snapshot: AttendanceSnapshot): Promise<void> {
+  await setDoc(doc(getFirebaseDb(), 'users', uid, 'snapshots', snapshot.takenAt), snapshot);
+}
+
+export async function loadAttendanceSnapshots(uid: string): Promise<AttendanceSnapshot[]> {
+  const snap = await getDocs(
+    query(collection(getFirebaseDb(), 'users', uid, 'snapshots'), orderBy('takenAt')),
+  );
+  return snap.docs.map(d => d.data() as AttendanceSnapshot);
+}
+
+/**
+ * Delete everything stored for the user: attendance snapshots, then the
+ * user document itself. Payment records go with it, so export them first.
+ */
+export async function deleteUserData(uid: string): Promise<void> {
+  const db = getFirebaseDb();
+  const snapshots = await getDocs(collection(db, 'users', uid, 'snapshots'));
+  // Batches are capped at 500 writes
+  for (let i = 0; i < snapshots.docs.length; i += 500) {
+    const batch = writeBatch(db);
+    snapshots.docs.slice(i, i + 500).forEach(d => batch.delete(d.ref));
+    await batch.commit();
+  }
+  await deleteDoc(doc(db, 'users', uid));
 }
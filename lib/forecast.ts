@@ -0,0 +1,166 @@
+import { AcademicCalendar, AttendanceSnapshot, Subject, Timetable, TimetableRotation } from './types';
+import { calculateStatus, getEffectiveThreshold, getSubjectKey } from './utils';
+import { countClassesBetween } from './vacationPlanner';
+import { daysBetween, parseDateStr } from './dates';
+
+const RECENT_WINDOW_DAYS = 28;
+const MIN_RECENT_CLASSES = 4; // fewer than this and the recent rate is noise
+
+export type ForecastScenario = 'attend_all' | 'recent_rate' | 'skip_per_week';
+
+export interface SubjectForecast {
+  code: string;
+  name: string;
+  threshold: number;
+  isNoData: boolean;
+  currentPct: number;
+  remaining: number; // attendance units left until semester end
+  perWeek: number;   // average units per week over the rest of the semester
+  recentRate: number; // 0–1, share of recent classes attended
+  projected: Record<ForecastScenario, number>;
+  maxSkips: number;  // remaining units that can be missed and still finish at threshold
+  status: ReturnType<typeof calculateStatus>; // for the selected scenario
+}
+
+export interface AttendanceForecast {
+  semesterEnd: string;
+  weeksLeft: number;
+  totalRemaining: number;
+  maxTotalSkips: number;
+  skipsPerWeek: number;
+  subjects: SubjectForecast[];
+}
+
+function finalPct(attended: number, total: number): number {
+  return total > 0 ? (attended / total) * 100 : 0;
+}
+
+/**
+ * Attendance rate over roughly the last four weeks, taken from refresh
+ * history. Falls back to the whole-semester rate when history is thin.
+ */
+export function getRecentRate(history: AttendanceSnapshot[], subject: Subject, now: Date = new Date()): number {
+  const overall = subject.total > 0 ? subject.attended / subject.total : 1;
+  const key = getSubjectKey(subject);
+  const cutoff = new Date(now.getTime() - RECENT_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  // Latest snapshot from before the window opened
+  let baseline: Subject | undefined;
+  for (const snapshot of history) {
+    if (snapshot.takenAt > cutoff) break;
+    baseline = snapshot.subjects.find(s => getSubjectKey(s) === key) ?? baseline;
+  }
+  if (!baseline) return overall;
+
+  const deltaTotal = subject.total - baseline.total;
+  const deltaAttended = subject.attended - baseline.attended;
+  if (deltaTotal < MIN_RECENT_CLASSES || deltaAttended < 0) return overall;
+  return Math.min(1, deltaAttended / deltaTotal);
+}
+
+/**
+ * Units of a subject that can still be missed while finishing the semester
+ * at or above the threshold. Unlike calculateClassesToBunk this counts the
+ * classes still to come, which early in the semester is most of them.
+ */
+export function calculateMaxSkips(attended: number, total: number, remaining: number, threshold: number): number {
+  const finalTotal = total + remaining;
+  const skips = Math.floor(attended + remaining - (threshold / 100) * finalTotal + 1e-9);
+  return Math.max(0, Math.min(remaining, skips));
+}
+
+/**
+ * Classes per subject still to come, from today through `lastDay`, both
+ * inclusive, skipping holidays, exams and breaks. Today counts: its classes
+ * are still to be attended or skipped, and the ERP rarely has them yet. The
+ * forecast and the skip planner both count this way, so their totals agree.
+ */
+export function countRemainingClasses(
+  today: Date,
+  lastDay: Date,
+  timetable: Timetable,
+  rotation: TimetableRotation | null,
+  calendar: AcademicCalendar,
+): Record<string, number> {
+  // countClassesBetween leaves out both ends
+  const dayBefore = new Date(today);
+  dayBefore.setDate(dayBefore.getDate() - 1);
+  const dayAfter = new Date(lastDay);
+  dayAfter.setDate(dayAfter.getDate() + 1);
+  return countClassesBetween(dayBefore, dayAfter, timetable, rotation, calendar);
+}
+
+/**
+ * Project every subject to the semester end under each scenario, from the
+ * classes countRemainingClasses finds. Returns null without a semester end
+ * date, or once it has passed.
+ */
+export function forecastSemester(
+  subjects: Subject[],
+  timetable: Timetable,
+  rotation: TimetableRotation | null,
+  calendar: AcademicCalendar,
+  history: AttendanceSnapshot[],
+  globalThreshold: number,
+  subjectThresholds: Record<string, number>,
+  skipsPerWeek: number,
+  scenario: ForecastScenario,
+): AttendanceForecast | null {
+  if (!calendar.semesterEnd) return null;
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const semesterEnd = parseDateStr(calendar.semesterEnd);
+  if (semesterEnd < today) return null;
+
+  const remainingByCode = countRemainingClasses(today, semesterEnd, timetable, rotation, calendar);
+  const daysLeft = daysBetween(today, semesterEnd) + 1;
+  const weeksLeft = daysLeft / 7;
+
+  const forecasts: SubjectForecast[] = subjects.map(subject => {
+    const key = getSubjectKey(subject);
+    const threshold = getEffectiveThreshold(subject, globalThreshold, subjectThresholds);
+    const remaining = remainingByCode[key] || 0;
+    const perWeek = remaining / weeksLeft;
+    const recentRate = getRecentRate(history, subject);
+    const finalTotal = subject.total + remaining;
+
+    // Can't skip more of a subject per week than it actually meets
+    const skipped = Math.min(remaining, Math.round(Math.min(skipsPerWeek, perWeek) * weeksLeft));
+
+    const projected: Record<ForecastScenario, number> = {
+      attend_all: finalPct(subject.attended + remaining, finalTotal),
+      recent_rate: finalPct(subject.attended + remaining * recentRate, finalTotal),
+      skip_per_week: finalPct(subject.attended + remaining - skipped, finalTotal),
+    };
+
+    return {
+      code: key,
+      name: subject.name,
+      threshold,
+      isNoData: finalTotal === 0,
+      currentPct: subject.percentage,
+      remaining,
+      perWeek,
+      recentRate,
+      projected,
+      maxSkips: calculateMaxSkips(subject.attended, subject.total, remaining, threshold),
+      status: calculateStatus(projected[scenario], threshold, finalTotal),
+    };
+  });
+
+  // Most at-risk first under the selected scenario
+  forecasts.sort((a, b) => {
+    if (a.isNoData !== b.isNoData) return a.isNoData ? 1 : -1;
+    return (a.projected[scenario] - a.threshold) - (b.projected[scenario] - b.threshold);
+  });
+
+  return {
+    semesterEnd: calendar.semesterEnd,
+    weeksLeft,
+    totalRemaining: forecasts.reduce((sum, f) => sum + f.remaining, 0),
+    maxTotalSkips: forecasts.reduce((sum, f) => sum + f.maxSkips, 0),
+    skipsPerWeek,
+    subjects: forecasts,
+  };
+}
@@ -0,0 +1,156 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AttendanceData, AttendanceSnapshot, Subject } from './types';
+import { calculateStatus, getSubjectKey } from './utils';
+import { saveAttendanceSnapshot, loadAttendanceSnapshots } from './firestore';
+
+const HISTORY_LIMIT = 500; // Roughly a year of daily refreshes
+
+export interface TimelinePoint {
+  takenAt: string;
+  attended: number;
+  total: number;
+  percentage: number;
+  status: Subject['status'];
+}
+
+export interface ThresholdCrossing {
+  takenAt: string;
+  direction: 'below' | 'above';
+  percentage: number;
+}
+
+function historyKey(uid: string): string {
+  return `@attendanceHistory:${uid}`;
+}
+
+export function createSnapshot(data: AttendanceData, takenAt: Date = new Date()): AttendanceSnapshot {
+  return {
+    takenAt: takenAt.toISOString(),
+    lastUpdated: data.lastUpdated,
+    subjects: data.subjects.map(({ name, code, attended, total, percentage, status }) => ({
+      name, code, attended, total, percentage, status,
+    })),
+  };
+}
+
+/**
+ * Merge two snapshot lists, dropping duplicates (same takenAt) and keeping
+ * the result sorted oldest first.
+ */
+export function mergeSnapshots(a: AttendanceSnapshot[], b: AttendanceSnapshot[]): AttendanceSnapshot[] {
+  const byTime = new Map<string, AttendanceSnapshot>();
+  for (const s of [...a, ...b]) byTime.set(s.takenAt, s);
+  return [...byTime.values()]
+    .sort((x, y) => x.takenAt.localeCompare(y.takenAt))
+    .slice(-HISTORY_LIMIT);
+}
+
+async function loadCachedHistory(uid: string): Promise<AttendanceSnapshot[]> {
+  try {
+    const raw = await AsyncStorage.getItem(historyKey(uid));
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+}
+
+async function saveCachedHistory(uid: string, history: AttendanceSnapshot[]): Promise<void> {
+  await AsyncStorage.setItem(historyKey(uid), JSON.stringify(history)).catch(() => {});
+}
+
+/**
+ * Load history from the local cache, then merge in whatever Firestore has.
+ * Snapshots only the cache has (their upload failed) are uploaded again.
+ * If there is no history yet, the current attendance is recorded as the
+ * first snapshot so the timeline has a starting point.
+ */
+export async function loadHistory(uid: string, seed: AttendanceData | null): Promise<AttendanceSnapshot[]> {
+  const cached = await loadCachedHistory(uid);
+  let remote: AttendanceSnapshot[] | null = null;
+  try {
+    remote = await loadAttendanceSnapshots(uid);
+  } catch {
+    // Offline — the local cache is still useful on its own
+  }
+
+  const merged = mergeSnapshots(cached, remote ?? []);
+  if (remote) {
+    const uploaded = new Set(remote.map(s => s.takenAt));
+    for (const snapshot of merged) {
+      if (!uploaded.has(snapshot.takenAt)) saveAttendanceSnapshot(uid, snapshot).catch(() => {});
+    }
+  }
+  if (merged.length === 0 && seed) {
+    // Portals that send an unreadable date still get a starting point
+    const updatedAt = new Date(seed.lastUpdated);
+    const first = createSnapshot(seed, isNaN(updatedAt.getTime()) ? new Date() : updatedAt);
+    return recordSnapshot(uid, first, merged);
+  }
+  await saveCachedHistory(uid, merged);
+  return merged;
+}
+
+/**
+ * Append a snapshot to the local cache and Firestore. Returns the updated
+ * history. A failed Firestore write is non-blocking; the snapshot stays in
+ * the cache and the next loadHistory uploads it again.
+ */
+export async function recordSnapshot(
+  uid: string,
+  snapshot: AttendanceSnapshot,
+  current?: AttendanceSnapshot[],
+): Promise<AttendanceSnapshot[]> {
+  const base = current ?? await loadCachedHistory(uid);
+  const history = mergeSnapshots(base, [snapshot]);
+  await saveCachedHistory(uid, history);
+  saveAttendanceSnapshot(uid, snapshot).catch(() => {});
+  return history;
+}
+
+/**
+ * Build the timeline for one subject. Consecutive snapshots with the same
+ * attended/total are collapsed so the timeline only shows real movement.
+ */
+export function getSubjectTimeline(
+  history: AttendanceSnapshot[],
+  subjectKey: string,
+  threshold: number,
+): TimelinePoint[] {
+  const points: TimelinePoint[] = [];
+  for (const snapshot of history) {
+    const subject = snapshot.subjects.find(s => getSubjectKey(s) === subjectKey);
+    if (!subject) continue;
+    const last = points[points.length - 1];
+    if (last && last.attended === subject.attended && last.total === subject.total) continue;
+    points.push({
+      takenAt: snapshot.takenAt,
+      attended: subject.attended,
+      total: subject.total,
+      percentage: subject.percentage,
+      status: calculateStatus(subject.percentage, threshold, subject.total),
+    });
+  }
+  return points;
+}
+
+/**
+ * Find every point where the subject moved across the threshold.
+ */
+export function findThresholdCrossings(points: TimelinePoint[], threshold: number): ThresholdCrossing[] {
+  const crossings: ThresholdCrossing[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const curr = points[i];
+    if (prev.total === 0 || curr.total === 0) continue;
+    const wasAbove = prev.percentage >= threshold;
+    const isAbove = curr.percentage >= threshold;
+    if (wasAbove !== isAbove) {
+      crossings.push({
+        takenAt: curr.takenAt,
+        direction: isAbove ? 'above' : 'below',
+        percentage: curr.percentage,
+      });
+    }
+  }
+  return crossings;
+}
@@ -0,0 +1,89 @@
+// Just enough HTML reading for ERP pages: form fields and table cells.
+// Portal markup is old and rarely valid, so this works on regexes rather
+// than a real parser and only looks for what the scraper needs.
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// Visible text of a fragment, with whitespace collapsed
+export function toText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>/gi, ' ')
+      .replace(/<[^>]+>/g, ' '),
+  ).replace(/\s+/g, ' ').trim();
+}
+
+function getAttribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  if (!match) return null;
+  return decodeEntities(match[1] ?? match[2] ?? match[3] ?? '');
+}
+
+export interface HtmlForm {
+  action: string | null;
+  // Every named input with its current value, hidden ones included
+  fields: Record<string, string>;
+}
+
+/**
+ * The first form on the page that has a password input, or the first form
+ * at all. ASP.NET and similar portals refuse a login that doesn't echo back
+ * their hidden fields, so those are collected too.
+ */
+export function findLoginForm(html: string): HtmlForm | null {
+  const forms = html.match(/<form[\s\S]*?<\/form>/gi) ?? [];
+  const form = forms.find(f => /type\s*=\s*["']?password/i.test(f)) ?? forms[0];
+  if (!form) return null;
+
+  const fields: Record<string, string> = {};
+  for (const input of form.match(/<input[^>]*>/gi) ?? []) {
+    const name = getAttribute(input, 'name');
+    const type = (getAttribute(input, 'type') ?? 'text').toLowerCase();
+    if (!name || type === 'submit' || type === 'button' || type === 'image') continue;
+    if ((type === 'checkbox' || type === 'radio') && !/\schecked/i.test(input)) continue;
+    fields[name] = getAttribute(input, 'value') ?? '';
+  }
+  return { action: getAttribute(form.match(/<form[^>]*>/i)![0], 'action'), fields };
+}
+
+/**
+ * Every table on the page as rows of cell text. Data tables are often
+ * nested in a layout table; the nested one comes out as its own entry.
+ */
+export function extractTables(html: string): string[][][] {
+  const tables: string[][][] = [];
+  const pattern = /<table[^>]*>([\s\S]*?)<\/table>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(html))) {
+    let body = match[1];
+    // A nested table's end stops the lazy match early, so split it off
+    const inner = body.toLowerCase().lastIndexOf('<table');
+    if (inner !== -1) {
+      tables.push(...extractTables(body.slice(inner) + '</table>'));
+      body = body.slice(0, inner);
+    }
+    const rows = (body.match(/<tr[\s\S]*?(?=<tr|<\/tbody|<\/thead|$)/gi) ?? [])
+      .map(row => (row.match(/<t[hd](?:\s[^>]*)?>[\s\S]*?(?=<t[hd][\s>]|<\/tr|$)/gi) ?? []).map(toText))
+      .filter(cells => cells.length > 0);
+    if (rows.length > 0) tables.push(rows);
+  }
+  return tables;
+}
@@ -0,0 +1,125 @@
+import * as XLSX from 'xlsx';
+import { ColumnMap, findHeader, readRows } from './attendanceParser';
+import { AttendanceData, Subject } from './types';
+
+// Spreadsheet cells are tab-separated when copied; exports use the rest
+const DELIMITERS = ['\t', ',', ';', '|'];
+
+// CSV rules: a quoted cell may hold the delimiter, doubled quotes and line
+// breaks (Excel writes those for wrapped text), so quotes are followed
+// across lines rather than splitting into lines first. Blank rows are dropped.
+function splitRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const endCell = () => {
+    row.push(cell.trim());
+    cell = '';
+  };
+  const endRow = () => {
+    endCell();
+    if (row.some(c => c !== '')) rows.push(row);
+    row = [];
+  };
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"' && cell.trim() === '') {
+      quoted = true;
+      cell = '';
+    } else if (ch === delimiter) {
+      endCell();
+    } else if (ch === '\n') {
+      endRow();
+    } else {
+      cell += ch;
+    }
+  }
+  endRow();
+  return rows;
+}
+
+// The delimiter that splits the most rows into the same number of cells
+function sniffDelimiter(text: string): { delimiter: string; rows: string[][] } | null {
+  let best: { delimiter: string; rows: string[][]; score: number } | null = null;
+  for (const delimiter of DELIMITERS) {
+    const rows = splitRows(text, delimiter);
+    const widths = rows.map(r => r.length);
+    const widest = Math.max(0, ...widths);
+    if (widest < 2) continue;
+    const common = widths.filter(w => w === widest).length;
+    if (!best || common > best.score) best = { delimiter, rows, score: common };
+  }
+  return best;
+}
+
+/**
+ * Rows of cells from CSV or a table pasted as text. The delimiter is
+ * guessed; text copied from a web page that lost its tabs is split on runs
+ * of two or more spaces instead.
+ */
+export function parseDelimited(text: string): string[][] {
+  const normalized = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  if (normalized.trim() === '') return [];
+  const sniffed = sniffDelimiter(normalized);
+  if (sniffed) return sniffed.rows;
+  return normalized.split('\n').filter(l => l.trim() !== '').map(l => l.trim().split(/\s{2,}/));
+}
+
+// Rows of the first sheet of an .xlsx/.xls file, as displayed in the sheet
+export function parseSpreadsheet(base64: string): string[][] {
+  const workbook = XLSX.read(base64, { type: 'base64' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return [];
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '' });
+  return rows
+    .map(row => row.map(cell => String(cell ?? '').trim()))
+    .filter(row => row.some(cell => cell !== ''));
+}
+
+export function isSpreadsheetFile(name: string): boolean {
+  return /\.xlsx?$/i.test(name);
+}
+
+export interface ImportMapping {
+  // Index of the header row, or -1 when the first row is already data
+  headerIdx: number;
+  columns: ColumnMap;
+}
+
+/**
+ * A first guess at the header row and columns, for the user to correct.
+ * Falls back to "no header, nothing mapped" when nothing looks familiar.
+ */
+export function guessMapping(table: string[][]): ImportMapping {
+  return findHeader(table) ?? { headerIdx: -1, columns: {} };
+}
+
+// Names for each column: the header text where there is one, else A, B, C…
+export function getColumnLabels(table: string[][], headerIdx: number): string[] {
+  const width = Math.max(0, ...table.map(r => r.length));
+  return Array.from({ length: width }, (_, idx) => {
+    const header = headerIdx >= 0 ? table[headerIdx][idx]?.trim() : '';
+    return header || `Column ${idx < 26 ? String.fromCharCode(65 + idx) : idx + 1}`;
+  });
+}
+
+export function readImportedSubjects(table: string[][], mapping: ImportMapping, threshold: number): Subject[] {
+  const { headerIdx, columns } = mapping;
+  const hasSubject = columns.name !== undefined || columns.code !== undefined;
+  if (!hasSubject) return [];
+  return readRows(table.slice(headerIdx + 1), columns, { threshold });
+}
+
+export function toImportedAttendance(subjects: Subject[], threshold: number, studentName: string): AttendanceData {
+  return {
+    student: { name: studentName.trim() || 'Student', usn: '' },
+    subjects,
+    lastUpdated: new Date().toISOString(),
+    threshold,
+  };
+}
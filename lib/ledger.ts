@@ -0,0 +1,183 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AttendanceData, AttendanceLedger, AttendanceMark, MarkConflict, MarkStatus, TimetableSlot } from './types';
+import { calculateStatus, getSubjectKey } from './utils';
+import { parseDateStr } from './dates';
+
+// Marks the ERP still hasn't recorded after this long are flagged
+const STALE_MARK_DAYS = 7;
+
+export const EMPTY_LEDGER: AttendanceLedger = { marks: [], conflicts: [] };
+
+function ledgerKey(uid: string): string {
+  return `@attendanceLedger:${uid}`;
+}
+
+export async function loadLedger(uid: string): Promise<AttendanceLedger> {
+  try {
+    const raw = await AsyncStorage.getItem(ledgerKey(uid));
+    if (!raw) return { ...EMPTY_LEDGER };
+    const parsed = JSON.parse(raw) as Partial<AttendanceLedger>;
+    return {
+      marks: Array.isArray(parsed.marks) ? parsed.marks : [],
+      conflicts: Array.isArray(parsed.conflicts) ? parsed.conflicts : [],
+    };
+  } catch {
+    return { ...EMPTY_LEDGER };
+  }
+}
+
+export async function saveLedger(uid: string, ledger: AttendanceLedger): Promise<void> {
+  await AsyncStorage.setItem(ledgerKey(uid), JSON.stringify(ledger)).catch(() => {});
+}
+
+function isSameClass(mark: AttendanceMark, dateStr: string, slot: TimetableSlot): boolean {
+  return mark.date === dateStr && mark.code === slot.code && mark.start === slot.start;
+}
+
+export function getMark(ledger: AttendanceLedger, dateStr: string, slot: TimetableSlot): AttendanceMark | null {
+  return ledger.marks.find(m => isSameClass(m, dateStr, slot)) ?? null;
+}
+
+/**
+ * Set or clear the mark for one class. Passing null removes it.
+ */
+export function setMark(
+  ledger: AttendanceLedger,
+  dateStr: string,
+  slot: TimetableSlot,
+  status: MarkStatus | null,
+): AttendanceLedger {
+  const marks = ledger.marks.filter(m => !isSameClass(m, dateStr, slot));
+  if (status) {
+    marks.push({
+      date: dateStr,
+      code: slot.code,
+      start: slot.start,
+      weight: slot.weight,
+      status,
+      markedAt: new Date().toISOString(),
+    });
+  }
+  return { ...ledger, marks };
+}
+
+/**
+ * Layer pending marks over the last ERP figures. Attended marks add to both
+ * attended and total, absences only to total; cancelled classes don't count.
+ */
+export function applyLedger(data: AttendanceData, marks: AttendanceMark[]): AttendanceData {
+  if (marks.length === 0) return data;
+
+  const delta: Record<string, { attended: number; total: number }> = {};
+  for (const mark of marks) {
+    if (mark.status === 'cancelled') continue;
+    const d = delta[mark.code] ?? (delta[mark.code] = { attended: 0, total: 0 });
+    d.total += mark.weight;
+    if (mark.status === 'attended') d.attended += mark.weight;
+  }
+
+  return {
+    ...data,
+    subjects: data.subjects.map(subject => {
+      const d = delta[getSubjectKey(subject)];
+      if (!d) return subject;
+      const attended = subject.attended + d.attended;
+      const total = subject.total + d.total;
+      const percentage = total > 0 ? (attended / total) * 100 : 0;
+      return {
+        ...subject,
+        attended,
+        total,
+        percentage,
+        status: calculateStatus(percentage, data.threshold, total),
+      };
+    }),
+  };
+}
+
+/**
+ * Match pending marks against what a new ERP fetch added since the previous
+ * one. Per subject, the new attended and absent classes are handed out to
+ * marks oldest first: a mark the ERP agrees with is dropped, one the ERP
+ * recorded the other way becomes a conflict, and one it hasn't recorded yet
+ * stays pending until it goes stale. Cancelled marks are settled once a
+ * later class of the same subject shows up.
+ */
+export function reconcileLedger(
+  ledger: AttendanceLedger,
+  prev: AttendanceData,
+  next: AttendanceData,
+  now: Date = new Date(),
+): AttendanceLedger {
+  if (ledger.marks.length === 0) return ledger;
+
+  const prevMap = new Map(prev.subjects.map(s => [getSubjectKey(s), s]));
+  const nextMap = new Map(next.subjects.map(s => [getSubjectKey(s), s]));
+  const staleBefore = new Date(now);
+  staleBefore.setHours(0, 0, 0, 0);
+  staleBefore.setDate(staleBefore.getDate() - STALE_MARK_DAYS);
+
+  const byCode = new Map<string, AttendanceMark[]>();
+  for (const mark of ledger.marks) {
+    byCode.set(mark.code, [...(byCode.get(mark.code) ?? []), mark]);
+  }
+
+  const pending: AttendanceMark[] = [];
+  const conflicts: MarkConflict[] = [];
+
+  for (const [code, marks] of byCode) {
+    marks.sort((a, b) => a.date.localeCompare(b.date) || a.start.localeCompare(b.start));
+    const before = prevMap.get(code);
+    const after = nextMap.get(code);
+    let attendedLeft = before && after ? Math.max(0, after.attended - before.attended) : 0;
+    let absentLeft = before && after
+      ? Math.max(0, (after.total - before.total) - (after.attended - before.attended))
+      : 0;
+
+    const settled = new Set<AttendanceMark>();
+    let lastSettledDate = '';
+    const settle = (mark: AttendanceMark) => {
+      settled.add(mark);
+      if (mark.date > lastSettledDate) lastSettledDate = mark.date;
+    };
+
+    // Agreements first, so a lagging ERP doesn't turn into false conflicts
+    for (const mark of marks) {
+      if (mark.status === 'attended' && attendedLeft >= mark.weight) {
+        attendedLeft -= mark.weight;
+        settle(mark);
+      } else if (mark.status === 'absent' && absentLeft >= mark.weight) {
+        absentLeft -= mark.weight;
+        settle(mark);
+      }
+    }
+
+    for (const mark of marks) {
+      if (settled.has(mark) || mark.status === 'cancelled') continue;
+      if (mark.status === 'attended' && absentLeft >= mark.weight) {
+        absentLeft -= mark.weight;
+        settle(mark);
+        conflicts.push({ mark, erpStatus: 'absent' });
+      } else if (mark.status === 'absent' && attendedLeft >= mark.weight) {
+        attendedLeft -= mark.weight;
+        settle(mark);
+        conflicts.push({ mark, erpStatus: 'attended' });
+      }
+    }
+
+    for (const mark of marks) {
+      if (settled.has(mark)) continue;
+      const isStale = parseDateStr(mark.date) < staleBefore;
+      if (mark.status === 'cancelled') {
+        if (isStale || mark.date < lastSettledDate) continue;
+        pending.push(mark);
+      } else if (isStale) {
+        conflicts.push({ mark, erpStatus: 'missing' });
+      } else {
+        pending.push(mark);
+      }
+    }
+  }
+
+  return { marks: pending, conflicts: [...ledger.conflicts, ...conflicts] };
+}
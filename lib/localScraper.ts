@@ -0,0 +1,170 @@
+import { ApiError, ApiResult } from './apiClient';
+import { parseAttendance } from './attendanceParser';
+import { findLoginForm, toText } from './html';
+import { AttendanceData, ErpLogin, FetchStage } from './types';
+
+// Same budgets as the backend's scraper, so both fail the same way
+const STAGE_TIMEOUTS_MS: Record<'login' | 'navigate', number> = {
+  login: 20_000,
+  navigate: 20_000,
+};
+
+// How to sign in to and read a portal from the device, for registry
+// entries that support it. Paths are relative to the ERP URL.
+export interface PortalConfig {
+  // Portals with a plain HTML login form; the only kind supported so far
+  type: 'form';
+  loginPath: string;
+  usernameField: string;
+  passwordField: string;
+  // Form field name for each of the adapter's extra fields, by key
+  extraFieldNames?: Record<string, string>;
+  // Text the portal shows after a rejected login
+  loginFailedText: string[];
+  attendancePath: string;
+  // Parser to try first for the attendance page, by id (see attendanceParser)
+  parser?: string;
+  // Regex source whose first group is the student's name on the attendance page
+  studentNamePattern?: string;
+}
+
+export interface HttpResponse {
+  status: number;
+  body: string;
+}
+
+// Session cookies are left to the platform's cookie store, so a transport
+// only has to send requests. Pass one that serves saved pages to run the
+// scraper against fixtures.
+export interface Transport {
+  get: (url: string, signal: AbortSignal) => Promise<HttpResponse>;
+  postForm: (url: string, fields: Record<string, string>, signal: AbortSignal) => Promise<HttpResponse>;
+}
+
+export const fetchTransport: Transport = {
+  get: async (url, signal) => {
+    const response = await fetch(url, { credentials: 'include', signal });
+    return { status: response.status, body: await response.text() };
+  },
+  postForm: async (url, fields, signal) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      credentials: 'include',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: Object.entries(fields)
+        .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+        .join('&'),
+      signal,
+    });
+    return { status: response.status, body: await response.text() };
+  },
+};
+
+class ScrapeError extends Error {
+  constructor(readonly error: ApiError) {
+    super(error.message);
+  }
+}
+
+function resolveUrl(base: string, path: string): string {
+  if (/^https?:\/\//i.test(path)) return path;
+  const origin = base.match(/^https?:\/\/[^/]+/i)?.[0] ?? base;
+  if (path.startsWith('/')) return origin + path;
+  // Relative to the base's directory; a bare origin counts as the root
+  const rest = base.slice(origin.length);
+  return `${origin}${rest.slice(0, rest.lastIndexOf('/') + 1) || '/'}${path}`;
+}
+
+async function step(
+  stage: 'login' | 'navigate',
+  signal: AbortSignal | undefined,
+  request: (signal: AbortSignal) => Promise<HttpResponse>,
+): Promise<HttpResponse> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), STAGE_TIMEOUTS_MS[stage]);
+  const onCancel = () => controller.abort();
+  signal?.addEventListener('abort', onCancel);
+  try {
+    const response = await request(controller.signal);
+    if (response.status >= 400) {
+      throw new ScrapeError({
+        kind: 'server',
+        status: response.status,
+        message: `Your college portal returned an error (${response.status}). Try again later.`,
+      });
+    }
+    return response;
+  } catch (err) {
+    if (err instanceof ScrapeError) throw err;
+    if (signal?.aborted) throw new ScrapeError({ kind: 'cancelled', message: 'Cancelled' });
+    if (controller.signal.aborted) throw new ScrapeError({ kind: 'timeout', message: `Timed out at stage "${stage}"`, stage });
+    throw new ScrapeError({ kind: 'network', message: err instanceof Error ? err.message : 'Network error' });
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onCancel);
+  }
+}
+
+// Whether the page is (still) the portal's login form
+function isLoginPage(html: string, portal: PortalConfig): boolean {
+  const field = portal.passwordField.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`<input[^>]+name\\s*=\\s*["']?${field}["'\\s/>]`, 'i').test(html);
+}
+
+/**
+ * Sign in to the student's portal and read their attendance without going
+ * through the backend. Reports the same stages and fails with the same
+ * error kinds as the backend's fetch, so callers can't tell them apart.
+ */
+export async function scrapeAttendance(
+  portal: PortalConfig,
+  login: ErpLogin,
+  threshold: number,
+  transport: Transport = fetchTransport,
+  signal?: AbortSignal,
+  onStage?: (stage: FetchStage) => void,
+): Promise<ApiResult<AttendanceData>> {
+  try {
+    onStage?.('login');
+    const loginUrl = resolveUrl(login.erpUrl, portal.loginPath);
+    const loginPage = await step('login', signal, s => transport.get(loginUrl, s));
+    const form = findLoginForm(loginPage.body);
+    if (!form) return { ok: false, error: { kind: 'erpLayout', message: 'No login form on the portal page' } };
+
+    const fields = { ...form.fields, [portal.usernameField]: login.username, [portal.passwordField]: login.password };
+    for (const [key, name] of Object.entries(portal.extraFieldNames ?? {})) {
+      if (login.extra[key] !== undefined) fields[name] = login.extra[key];
+    }
+    const submitUrl = resolveUrl(loginUrl, form.action || portal.loginPath);
+    const afterLogin = await step('login', signal, s => transport.postForm(submitUrl, fields, s));
+    const rejected = portal.loginFailedText.some(text => afterLogin.body.includes(text));
+    if (rejected || isLoginPage(afterLogin.body, portal)) {
+      return { ok: false, error: { kind: 'erpAuth', message: 'The portal rejected the login' } };
+    }
+
+    onStage?.('navigate');
+    const page = await step('navigate', signal, s => transport.get(resolveUrl(login.erpUrl, portal.attendancePath), s));
+    // Sent back to the login page: the session didn't stick
+    if (isLoginPage(page.body, portal)) {
+      return { ok: false, error: { kind: 'erpAuth', message: 'The portal signed us out' } };
+    }
+
+    onStage?.('parse');
+    const subjects = parseAttendance(page.body, { threshold }, portal.parser);
+    if (!subjects) return { ok: false, error: { kind: 'erpLayout', message: 'No attendance table on the page' } };
+
+    const nameMatch = portal.studentNamePattern ? page.body.match(new RegExp(portal.studentNamePattern, 'i')) : null;
+    return {
+      ok: true,
+      value: {
+        student: { name: nameMatch?.[1] ? toText(nameMatch[1]) : login.username, usn: login.username },
+        subjects,
+        lastUpdated: new Date().toISOString(),
+        threshold,
+      },
+    };
+  } catch (err) {
+    if (err instanceof ScrapeError) return { ok: false, error: err.error };
+    return { ok: false, error: { kind: 'network', message: err instanceof Error ? err.message : 'Network error' } };
+  }
+}
@@ -0,0 +1,45 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { Notifier } from './reminders';
+
+const CHANNEL_ID = 'class-reminders';
+
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: false,
+    shouldSetBadge: false,
+  }),
+});
+
+export async function requestNotificationPermission(): Promise<boolean> {
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+      name: 'Class reminders',
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+  }
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+}
+
+// Notifier backed by the device's local notification scheduler
+export const deviceNotifier: Notifier = {
+  async cancelAll() {
+    await Notifications.cancelAllScheduledNotificationsAsync();
+  },
+  async schedule(notification) {
+    await Notifications.scheduleNotificationAsync({
+      identifier: notification.id,
+      content: { title: notification.title, body: notification.body },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: notification.fireAt,
+        channelId: CHANNEL_ID,
+      },
+    });
+  },
+};
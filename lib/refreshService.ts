@@ -0,0 +1,166 @@
+import { AttendanceFetch } from './api';
+import { ApiErrorKind, ApiResult, describeApiError } from './apiClient';
+import { UnlockCancelledError } from './credentialVault';
+import { AttendanceData, ErpLogin, FetchStage, RefreshQuota, UnavailableLogin } from './types';
+
+// How a refresh was started — each drives its own spinner and error message
+export type RefreshMode = 'connect' | 'auto' | 'pull';
+
+export type RefreshPhase = 'credentials' | 'fetching' | 'saving';
+
+export interface RefreshProgress {
+  mode: RefreshMode;
+  phase: RefreshPhase;
+  // Where the backend is while fetching, when it reports it
+  stage: FetchStage | null;
+  startedAt: string;
+}
+
+export type RefreshErrorClass = ApiErrorKind | 'credentials' | UnavailableLogin;
+
+export interface RefreshOutcome {
+  mode: RefreshMode;
+  ok: boolean;
+  startedAt: string;
+  durationMs: number;
+  errorClass: RefreshErrorClass | null;
+  // What to tell the user, from describeApiError
+  error: string | null;
+  // The server's count after this refresh, when it got that far
+  quota: RefreshQuota | null;
+  // Requests that arrived while this one was running and shared its result
+  joined: number;
+}
+
+export interface RefreshServiceDeps {
+  // Checked synchronously when a request starts, to skip calls the server
+  // would refuse anyway. The server has the final say on the quota.
+  canRefresh: (mode: RefreshMode) => boolean;
+  loadLogin: () => Promise<ErpLogin | UnavailableLogin | null>;
+  fetchAttendance: (
+    login: ErpLogin,
+    signal: AbortSignal,
+    onStage: (stage: FetchStage) => void,
+  ) => Promise<ApiResult<AttendanceFetch>>;
+  // Applies a successful fetch. Runs before the next request can start.
+  apply: (data: AttendanceData, mode: RefreshMode, login: ErpLogin | undefined) => Promise<void>;
+  onProgress: (progress: RefreshProgress | null) => void;
+  onSettled: (outcome: RefreshOutcome) => void;
+  now?: () => number;
+}
+
+interface InFlight {
+  controller: AbortController;
+  promise: Promise<RefreshOutcome>;
+  joined: number;
+}
+
+export interface RefreshService {
+  request: (mode: RefreshMode, login?: ErpLogin) => Promise<RefreshOutcome>;
+  cancel: () => void;
+  // Resolves once no refresh is running, including one that replaced it
+  idle: () => Promise<void>;
+  // Cancels and silences callbacks — for when the signed-in user changes
+  dispose: () => void;
+}
+
+/**
+ * Runs ERP refreshes one at a time. A request that arrives while another is
+ * running joins it instead of fetching again, except a fresh login, which
+ * cancels the running refresh and replaces it.
+ */
+export function createRefreshService(deps: RefreshServiceDeps): RefreshService {
+  const now = deps.now ?? Date.now;
+  let inFlight: InFlight | null = null;
+  let disposed = false;
+
+  function settle(entry: InFlight | null, outcome: Omit<RefreshOutcome, 'joined'>): RefreshOutcome {
+    const result = { ...outcome, joined: entry ? entry.joined : 0 };
+    if (!disposed) deps.onSettled(result);
+    return result;
+  }
+
+  async function run(entry: InFlight, mode: RefreshMode, login: ErpLogin | undefined): Promise<RefreshOutcome> {
+    const started = now();
+    const startedAt = new Date(started).toISOString();
+    const { signal } = entry.controller;
+    const progress = (phase: RefreshPhase, stage: FetchStage | null = null) => {
+      if (!disposed && inFlight === entry) deps.onProgress({ mode, phase, stage, startedAt });
+    };
+    const fail = (errorClass: RefreshErrorClass, error: string, quota: RefreshQuota | null = null) =>
+      settle(entry, { mode, ok: false, startedAt, durationMs: now() - started, errorClass, error, quota });
+
+    try {
+      progress('credentials');
+      const creds = login ?? await deps.loadLogin();
+      if (signal.aborted) return fail('cancelled', 'Refresh cancelled');
+      if (!creds) return fail('credentials', 'No ERP login is saved. Import your latest attendance from the menu instead.');
+      if (creds === 'locked') {
+        return fail('locked', 'Your saved ERP login is locked on this device. Unlock it from Credential Security in the menu.');
+      }
+      if (creds === 'elsewhere') {
+        return fail('elsewhere', 'Your ERP login is kept only on the device you saved it on. Sign in to your ERP here to refresh from this device.');
+      }
+
+      progress('fetching');
+      const result = await deps.fetchAttendance(creds, signal, stage => progress('fetching', stage));
+      if (signal.aborted) return fail('cancelled', 'Refresh cancelled');
+      if (!result.ok) {
+        const { error } = result;
+        return fail(error.kind, describeApiError(error), error.kind === 'quota' ? error.quota ?? null : null);
+      }
+
+      progress('saving');
+      await deps.apply(result.value.data, mode, login);
+      return settle(entry, {
+        mode, ok: true, startedAt, durationMs: now() - started, errorClass: null, error: null, quota: result.value.quota ?? null,
+      });
+    } catch (err) {
+      // Backing out of the biometric prompt that guards the saved login
+      if (err instanceof UnlockCancelledError) return fail('cancelled', 'Refresh cancelled');
+      return fail('network', err instanceof Error ? err.message : describeApiError({ kind: 'network', message: '' }));
+    } finally {
+      if (inFlight === entry) {
+        inFlight = null;
+        if (!disposed) deps.onProgress(null);
+      }
+    }
+  }
+
+  function request(mode: RefreshMode, login?: ErpLogin): Promise<RefreshOutcome> {
+    if (inFlight && !login) {
+      inFlight.joined += 1;
+      return inFlight.promise;
+    }
+    inFlight?.controller.abort();
+    inFlight = null;
+
+    if (!deps.canRefresh(mode)) {
+      const startedAt = new Date(now()).toISOString();
+      return Promise.resolve(settle(null, {
+        mode, ok: false, startedAt, durationMs: 0, errorClass: 'quota', error: describeApiError({ kind: 'quota', message: '' }), quota: null,
+      }));
+    }
+
+    const entry: InFlight = {
+      controller: new AbortController(),
+      joined: 0,
+      // Starts once the entry is in flight, so its progress isn't dropped
+      promise: Promise.resolve().then(() => run(entry, mode, login)),
+    };
+    inFlight = entry;
+    return entry.promise;
+  }
+
+  return {
+    request,
+    cancel: () => inFlight?.controller.abort(),
+    idle: async () => {
+      while (inFlight) await inFlight.promise;
+    },
+    dispose: () => {
+      disposed = true;
+      inFlight?.controller.abort();
+    },
+  };
+}
@@ -0,0 +1,144 @@
+import { AcademicCalendar, Subject, Timetable, TimetableRotation } from './types';
+import { getEffectiveThreshold, getVerdict, Verdict } from './utils';
+import { formatTime, getSlotsForDate, parseTime } from './timetable';
+import { isNoClassDay } from './academicCalendar';
+import { formatDateStr } from './dates';
+
+const MAX_SCHEDULED = 60; // iOS keeps at most 64 pending local notifications
+const DAYS_AHEAD = 7;
+
+export interface ReminderSettings {
+  digestEnabled: boolean;
+  digestTime: string; // HH:MM
+  classRemindersEnabled: boolean;
+  leadMinutes: number;
+  quietStart: string; // HH:MM — quiet window may wrap past midnight
+  quietEnd: string;
+  mutedSubjects: string[];
+}
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  digestEnabled: false,
+  digestTime: '07:30',
+  classRemindersEnabled: false,
+  leadMinutes: 10,
+  quietStart: '22:00',
+  quietEnd: '07:00',
+  mutedSubjects: [],
+};
+
+export interface PlannedNotification {
+  id: string;
+  fireAt: Date;
+  title: string;
+  body: string;
+}
+
+// Anything that can deliver local notifications — the device API or a fake
+export interface Notifier {
+  cancelAll(): Promise<void>;
+  schedule(notification: PlannedNotification): Promise<void>;
+}
+
+export type Clock = () => Date;
+
+export interface ReminderInput {
+  timetable: Timetable;
+  rotation: TimetableRotation | null;
+  calendar: AcademicCalendar;
+  subjectMap: Map<string, Subject>;
+  globalThreshold: number;
+  subjectThresholds: Record<string, number>;
+  settings: ReminderSettings;
+}
+
+export function isInQuietHours(date: Date, settings: ReminderSettings): boolean {
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const start = parseTime(settings.quietStart);
+  const end = parseTime(settings.quietEnd);
+  if (start === end) return false;
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+function atMinutes(day: Date, minutes: number): Date {
+  const d = new Date(day);
+  d.setHours(0, 0, 0, 0);
+  d.setMinutes(minutes);
+  return d;
+}
+
+/**
+ * Plan the morning digest and per-class reminders for the coming week.
+ * Pure — the caller decides how and when to deliver them.
+ */
+export function planReminders(input: ReminderInput, now: Date): PlannedNotification[] {
+  const { timetable, rotation, calendar, subjectMap, globalThreshold, subjectThresholds, settings } = input;
+  const muted = new Set(settings.mutedSubjects);
+  const planned: PlannedNotification[] = [];
+
+  for (let offset = 0; offset < DAYS_AHEAD; offset++) {
+    const day = new Date(now);
+    day.setDate(day.getDate() + offset);
+    if (isNoClassDay(calendar, day)) continue;
+    const slots = getSlotsForDate(timetable, rotation, day);
+    const classes = slots
+      .map(slot => {
+        const subject = subjectMap.get(slot.code);
+        if (!subject) return null;
+        const threshold = getEffectiveThreshold(subject, globalThreshold, subjectThresholds);
+        const verdict: Verdict = getVerdict(subject, threshold, slot.weight);
+        return { code: slot.code, subject, verdict, start: parseTime(slot.start), room: slot.room };
+      })
+      .filter((c): c is NonNullable<typeof c> => !!c);
+    if (classes.length === 0) continue;
+
+    if (settings.digestEnabled) {
+      const mustAttend = classes.filter(c => c.verdict === 'attend').map(c => c.code);
+      const summary = `${classes.length} ${classes.length === 1 ? 'class' : 'classes'} today`;
+      planned.push({
+        id: `digest-${formatDateStr(day)}`,
+        fireAt: atMinutes(day, parseTime(settings.digestTime)),
+        title: 'Today\'s classes',
+        body: mustAttend.length > 0
+          ? `${summary}, ${mustAttend.length} must-attend: ${mustAttend.join(', ')}`
+          : `${summary} — nothing critical`,
+      });
+    }
+
+    if (settings.classRemindersEnabled) {
+      for (const c of classes) {
+        if (muted.has(c.code)) continue;
+        if (c.verdict !== 'attend' && c.verdict !== 'risky') continue;
+        planned.push({
+          id: `class-${formatDateStr(day)}-${c.code}-${c.start}`,
+          fireAt: atMinutes(day, c.start - settings.leadMinutes),
+          title: c.verdict === 'attend' ? `Must attend: ${c.subject.name}` : `Risky to skip: ${c.subject.name}`,
+          body: `Starts at ${formatTime(c.start)}${c.room ? ` in ${c.room}` : ''} · ${parseFloat(c.subject.percentage.toFixed(1))}% so far`,
+        });
+      }
+    }
+  }
+
+  return planned
+    .filter(n => n.fireAt > now && !isInQuietHours(n.fireAt, settings))
+    .sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime())
+    .slice(0, MAX_SCHEDULED);
+}
+
+/**
+ * Replace every scheduled reminder with a fresh plan.
+ */
+export async function syncReminders(
+  notifier: Notifier,
+  clock: Clock,
+  input: ReminderInput,
+): Promise<PlannedNotification[]> {
+  const planned = planReminders(input, clock());
+  await notifier.cancelAll();
+  for (const notification of planned) {
+    await notifier.schedule(notification);
+  }
+  return planned;
+}
@@ -0,0 +1,97 @@
+// Minimal runtime validators for API responses. A schema checks an unknown
+// value and either returns it typed or lists what didn't match, by path.
+
+export type Validation<T> = { ok: true; value: T } | { ok: false; issues: string[] };
+
+export type Schema<T> = (value: unknown, path?: string) => Validation<T>;
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function mismatch<T>(path: string | undefined, expected: string, value: unknown): Validation<T> {
+  return { ok: false, issues: [`${path || 'response'}: expected ${expected}, got ${describe(value)}`] };
+}
+
+export const string: Schema<string> = (value, path) =>
+  typeof value === 'string' ? { ok: true, value } : mismatch(path, 'string', value);
+
+export const number: Schema<number> = (value, path) =>
+  typeof value === 'number' && Number.isFinite(value) ? { ok: true, value } : mismatch(path, 'number', value);
+
+export const boolean: Schema<boolean> = (value, path) =>
+  typeof value === 'boolean' ? { ok: true, value } : mismatch(path, 'boolean', value);
+
+export function literal<T extends string>(...options: T[]): Schema<T> {
+  return (value, path) =>
+    options.includes(value as T) ? { ok: true, value: value as T } : mismatch(path, options.join(' | '), value);
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path) => (value === undefined ? { ok: true, value: undefined } : schema(value, path));
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return (value, path) => (value === null ? { ok: true, value: null } : schema(value, path));
+}
+
+// For parts of a response the app can do without: a value that doesn't
+// match is dropped instead of failing the whole response
+export function lenient<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path) => {
+    const result = schema(value, path);
+    return result.ok ? result : { ok: true, value: undefined };
+  };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) return mismatch(path, 'array', value);
+    const issues: string[] = [];
+    const items: T[] = [];
+    value.forEach((entry, idx) => {
+      const result = item(entry, `${path || 'response'}[${idx}]`);
+      if (result.ok) items.push(result.value);
+      else issues.push(...result.issues);
+    });
+    return issues.length ? { ok: false, issues } : { ok: true, value: items };
+  };
+}
+
+export function record<T>(item: Schema<T>): Schema<Record<string, T>> {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return mismatch(path, 'object', value);
+    const issues: string[] = [];
+    const out: Record<string, T> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      const result = item(entry, `${path || 'response'}.${key}`);
+      if (result.ok) out[key] = result.value;
+      else issues.push(...result.issues);
+    }
+    return issues.length ? { ok: false, issues } : { ok: true, value: out };
+  };
+}
+
+/**
+ * Checks the listed keys and keeps only those. Typed against the target
+ * interface, so a field added to the type without a validator won't compile.
+ */
+export function object<T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return mismatch(path, 'object', value);
+    const source = value as Record<string, unknown>;
+    const issues: string[] = [];
+    const out: Partial<T> = {};
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const result = shape[key](source[key], path ? `${path}.${key}` : key);
+      if (result.ok) {
+        if (result.value !== undefined) out[key] = result.value;
+      } else {
+        issues.push(...result.issues);
+      }
+    }
+    return issues.length ? { ok: false, issues } : { ok: true, value: out as T };
+  };
+}
@@ -0,0 +1,287 @@
+import {
+  AcademicCalendar,
+  PlannedSkip,
+  SkipGoal,
+  SkipPlan,
+  Subject,
+  Timetable,
+  TimetableRotation,
+  TimetableSlot,
+} from './types';
+import { getEffectiveThreshold } from './utils';
+import { getPenaltyWeight, getVacationDays } from './vacationPlanner';
+import { calculateMaxSkips, countRemainingClasses } from './forecast';
+import { formatDateStr, parseDateStr } from './dates';
+
+export interface SkipBudget {
+  code: string;
+  name: string;
+  threshold: number;
+  remaining: number;  // units left until the semester (or plan) end
+  budget: number;     // units that can be missed and still finish at threshold
+  used: number;       // units this plan skips
+  attendAllPct: number;
+  projectedPct: number;
+}
+
+export interface PlanDay {
+  date: Date;
+  dateStr: string;
+  skipped: TimetableSlot[];
+  attended: TimetableSlot[];
+  isFree: boolean; // every class that day is skipped
+}
+
+export interface SkipPlanResult {
+  from: string;
+  to: string;
+  goal: SkipGoal;
+  days: PlanDay[]; // only days with classes
+  budgets: SkipBudget[];
+  totalSkipped: number;
+  freeDays: number;
+  goalMet: boolean;
+  blockedBy: string[]; // subjects that can't afford the goal day
+  penalty: number;
+  usesSemesterEnd: boolean;
+}
+
+interface Candidate {
+  dayIndex: number;
+  slot: TimetableSlot;
+}
+
+function pct(attended: number, total: number): number {
+  return total > 0 ? (attended / total) * 100 : 100;
+}
+
+/**
+ * Choose which classes to skip over the next `horizonDays` days (from today)
+ * so that every subject still finishes the semester at or above its
+ * threshold. Each subject gets a budget of skippable units from the classes
+ * left until the semester end; without a semester end date the budget only
+ * counts the planning window.
+ *
+ * With the 'max' goal, each subject skips as many units as its budget allows
+ * (budgets don't affect each other, so subjects are filled one by one),
+ * preferring days with the fewest classes so whole days free up. With
+ * 'freeDay', only that weekday is skipped, and only if every subject on it
+ * can afford it.
+ */
+export function optimizeSkips(
+  timetable: Timetable,
+  rotation: TimetableRotation | null,
+  calendar: AcademicCalendar,
+  subjectMap: Map<string, Subject>,
+  globalThreshold: number,
+  subjectThresholds: Record<string, number>,
+  horizonDays: number,
+  goal: SkipGoal,
+): SkipPlanResult {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const horizonEnd = new Date(today);
+  horizonEnd.setDate(horizonEnd.getDate() + horizonDays - 1);
+
+  let usesSemesterEnd = false;
+  let countEnd = horizonEnd;
+  if (calendar.semesterEnd) {
+    const semesterEnd = parseDateStr(calendar.semesterEnd);
+    if (semesterEnd < horizonEnd) horizonEnd.setTime(semesterEnd.getTime());
+    if (semesterEnd >= today) {
+      countEnd = semesterEnd;
+      usesSemesterEnd = true;
+    }
+  }
+
+  const remainingByCode = countRemainingClasses(today, countEnd, timetable, rotation, calendar);
+
+  const days = horizonEnd >= today
+    ? getVacationDays(today, horizonEnd, timetable, rotation, calendar)
+        .filter(d => !d.isSunday && !d.isHoliday)
+    : [];
+
+  const budgets = new Map<string, SkipBudget>();
+  const candidates: Candidate[] = [];
+  const byDay: Candidate[][] = days.map(() => []);
+  days.forEach((day, dayIndex) => {
+    for (const slot of day.slots) {
+      const subject = subjectMap.get(slot.code);
+      if (!subject) continue;
+      const candidate = { dayIndex, slot };
+      candidates.push(candidate);
+      byDay[dayIndex].push(candidate);
+      if (budgets.has(slot.code)) continue;
+      const threshold = getEffectiveThreshold(subject, globalThreshold, subjectThresholds);
+      const remaining = remainingByCode[slot.code] || 0;
+      const attendAllPct = pct(subject.attended + remaining, subject.total + remaining);
+      budgets.set(slot.code, {
+        code: slot.code,
+        name: subject.name,
+        threshold,
+        remaining,
+        budget: calculateMaxSkips(subject.attended, subject.total, remaining, threshold),
+        used: 0,
+        attendAllPct,
+        projectedPct: attendAllPct,
+      });
+    }
+  });
+
+  const chosen = new Set<Candidate>();
+  const take = (c: Candidate) => {
+    chosen.add(c);
+    budgets.get(c.slot.code)!.used += c.slot.weight;
+  };
+
+  let goalMet = true;
+  const blocked = new Set<string>();
+
+  if (goal.type === 'freeDay') {
+    const goalDays = days
+      .map((day, dayIndex) => ({ day, dayIndex }))
+      .filter(({ day }) => day.jsDay === goal.jsDay);
+    goalMet = goalDays.length > 0;
+
+    for (const { dayIndex } of goalDays) {
+      const dayCandidates = byDay[dayIndex];
+      const need: Record<string, number> = {};
+      for (const c of dayCandidates) need[c.slot.code] = (need[c.slot.code] || 0) + c.slot.weight;
+
+      const short = Object.entries(need).filter(([code, units]) => {
+        const b = budgets.get(code)!;
+        return b.used + units > b.budget;
+      });
+      if (short.length > 0) {
+        goalMet = false;
+        for (const [code] of short) blocked.add(budgets.get(code)!.name);
+        continue;
+      }
+      dayCandidates.forEach(take);
+    }
+  } else {
+    // Slots on days with the fewest classes first, so whole days free up,
+    // then bigger slots, then earlier dates
+    const bySubject = new Map<string, Candidate[]>();
+    for (const c of candidates) {
+      const list = bySubject.get(c.slot.code);
+      if (list) list.push(c);
+      else bySubject.set(c.slot.code, [c]);
+    }
+    for (const [code, list] of bySubject) {
+      const ordered = [...list].sort((a, b) =>
+        byDay[a.dayIndex].length - byDay[b.dayIndex].length
+        || b.slot.weight - a.slot.weight
+        || a.dayIndex - b.dayIndex);
+      pickSubset(ordered, budgets.get(code)!.budget).forEach(take);
+    }
+  }
+
+  let penalty = 0;
+  for (const b of budgets.values()) {
+    const subject = subjectMap.get(b.code)!;
+    b.projectedPct = pct(subject.attended + b.remaining - b.used, subject.total + b.remaining);
+    const drop = b.attendAllPct - b.projectedPct;
+    penalty += drop * getPenaltyWeight(b.attendAllPct - b.threshold) * b.used;
+  }
+
+  const planDays: PlanDay[] = days.map((day, dayIndex) => {
+    const skipped: TimetableSlot[] = [];
+    const attended: TimetableSlot[] = [];
+    for (const c of byDay[dayIndex]) {
+      (chosen.has(c) ? skipped : attended).push(c.slot);
+    }
+    return {
+      date: day.date,
+      dateStr: day.dateStr,
+      skipped,
+      attended,
+      isFree: skipped.length > 0 && attended.length === 0,
+    };
+  }).filter(d => d.skipped.length + d.attended.length > 0);
+
+  return {
+    from: formatDateStr(today),
+    to: formatDateStr(horizonEnd),
+    goal,
+    days: planDays,
+    budgets: [...budgets.values()].sort((a, b) => b.used - a.used || a.name.localeCompare(b.name)),
+    totalSkipped: [...chosen].reduce((sum, c) => sum + c.slot.weight, 0),
+    freeDays: planDays.filter(d => d.isFree).length,
+    goalMet,
+    blockedBy: [...blocked],
+    penalty,
+    usesSemesterEnd,
+  };
+}
+
+/**
+ * The subset of `items` with the most units that fits in `budget`, found
+ * exactly (taking the biggest slot first would stop at 3 of a 4-unit budget
+ * with slots of 3, 2 and 2). Among equally large subsets, earlier items win.
+ */
+function pickSubset(items: Candidate[], budget: number): Candidate[] {
+  const units = items.map(c => Math.ceil(c.slot.weight));
+  // reach[i][s]: some of items i.. add up to exactly s units
+  const reach = items.map(() => new Array<boolean>(budget + 1).fill(false));
+  reach.push(new Array<boolean>(budget + 1).fill(false));
+  reach[items.length][0] = true;
+  for (let i = items.length - 1; i >= 0; i--) {
+    for (let s = 0; s <= budget; s++) {
+      reach[i][s] = reach[i + 1][s] || (s >= units[i] && reach[i + 1][s - units[i]]);
+    }
+  }
+
+  let target = budget;
+  while (target > 0 && !reach[0][target]) target--;
+  const picked: Candidate[] = [];
+  for (let i = 0; i < items.length && target > 0; i++) {
+    if (target >= units[i] && reach[i + 1][target - units[i]]) {
+      picked.push(items[i]);
+      target -= units[i];
+    }
+  }
+  return picked;
+}
+
+// ── Accepted plans ─────────────────────────────────────────
+
+export function toSkipPlan(result: SkipPlanResult): SkipPlan {
+  const skips: PlannedSkip[] = [];
+  for (const day of result.days) {
+    for (const slot of day.skipped) {
+      skips.push({ date: day.dateStr, code: slot.code, start: slot.start, weight: slot.weight });
+    }
+  }
+  return {
+    createdAt: new Date().toISOString(),
+    from: result.from,
+    to: result.to,
+    goal: result.goal,
+    skips,
+  };
+}
+
+export function isPlannedSkip(plan: SkipPlan | null, dateStr: string, slot: TimetableSlot): boolean {
+  if (!plan) return false;
+  return plan.skips.some(s => s.date === dateStr && s.code === slot.code && s.start === slot.start);
+}
+
+export function planCoversDate(plan: SkipPlan | null, dateStr: string): boolean {
+  return !!plan && plan.from <= dateStr && dateStr <= plan.to;
+}
+
+// Plans that have run out are dropped rather than kept around
+export function normalizeSkipPlan(raw: unknown, today: Date = new Date()): SkipPlan | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Partial<SkipPlan>;
+  if (typeof r.from !== 'string' || typeof r.to !== 'string' || !Array.isArray(r.skips)) return null;
+  if (r.to < formatDateStr(today)) return null;
+  return {
+    createdAt: typeof r.createdAt === 'string' ? r.createdAt : '',
+    from: r.from,
+    to: r.to,
+    goal: r.goal && r.goal.type === 'freeDay' ? r.goal : { type: 'max' },
+    skips: r.skips.filter(s => s && typeof s.date === 'string' && typeof s.code === 'string'),
+  };
+}
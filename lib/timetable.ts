@@ -0,0 +1,247 @@
+import { SlotKind, Timetable, TimetableRotation, TimetableSlot } from './types';
+import { daysBetween, formatDateStr, parseDateStr } from './dates';
+
+export const DEFAULT_DAY_START = '09:00';
+const DEFAULT_LECTURE_MINUTES = 60;
+const DEFAULT_LAB_MINUTES = 180;
+
+export const SLOT_KINDS: SlotKind[] = ['lecture', 'lab', 'tutorial'];
+
+export function parseTime(hhmm: string): number {
+  const [h, m] = hhmm.split(':').map(Number);
+  return (h || 0) * 60 + (m || 0);
+}
+
+export function formatTime(minutes: number): string {
+  const wrapped = ((minutes % 1440) + 1440) % 1440;
+  const h = Math.floor(wrapped / 60);
+  const m = wrapped % 60;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+}
+
+export function slotMinutes(slot: TimetableSlot): number {
+  return Math.max(0, parseTime(slot.end) - parseTime(slot.start));
+}
+
+// Labs usually count one attendance unit per hour
+export function defaultWeight(kind: SlotKind, minutes: number): number {
+  return kind === 'lab' ? Math.max(1, Math.round(minutes / 60)) : 1;
+}
+
+export function createSlot(code: string, start: string, kind: SlotKind = 'lecture'): TimetableSlot {
+  const minutes = kind === 'lab' ? DEFAULT_LAB_MINUTES : DEFAULT_LECTURE_MINUTES;
+  return {
+    code,
+    start,
+    end: formatTime(parseTime(start) + minutes),
+    room: '',
+    kind,
+    weight: defaultWeight(kind, minutes),
+  };
+}
+
+export function sortSlots(slots: TimetableSlot[]): TimetableSlot[] {
+  return [...slots].sort((a, b) => parseTime(a.start) - parseTime(b.start));
+}
+
+export function sortTimetable(timetable: Timetable): Timetable {
+  const sorted: Timetable = {};
+  for (const [day, slots] of Object.entries(timetable)) {
+    sorted[Number(day)] = sortSlots(slots);
+  }
+  return sorted;
+}
+
+// Start time for a class appended to the end of a day
+export function nextSlotStart(slots: TimetableSlot[]): string {
+  if (slots.length === 0) return DEFAULT_DAY_START;
+  return slots.reduce((latest, s) => (parseTime(s.end) > parseTime(latest) ? s.end : latest), slots[0].end);
+}
+
+/**
+ * Attendance units per subject for one day's slots.
+ */
+export function countSlotUnits(slots: TimetableSlot[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const slot of slots) {
+    counts[slot.code] = (counts[slot.code] || 0) + slot.weight;
+  }
+  return counts;
+}
+
+export function totalSlotUnits(slots: TimetableSlot[]): number {
+  return slots.reduce((sum, s) => sum + s.weight, 0);
+}
+
+function isSlotKind(value: unknown): value is SlotKind {
+  return typeof value === 'string' && (SLOT_KINDS as string[]).includes(value);
+}
+
+function normalizeSlot(raw: Partial<TimetableSlot>, fallbackStart: string): TimetableSlot {
+  const kind = isSlotKind(raw.kind) ? raw.kind : 'lecture';
+  const base = createSlot(String(raw.code ?? ''), raw.start || fallbackStart, kind);
+  const slot = {
+    ...base,
+    end: raw.end || base.end,
+    room: raw.room ?? '',
+  };
+  return {
+    ...slot,
+    weight: typeof raw.weight === 'number' && raw.weight > 0 ? raw.weight : defaultWeight(kind, slotMinutes(slot)),
+  };
+}
+
+/**
+ * True when a stored timetable still uses the old shape — a plain ordered
+ * list of subject codes per day.
+ */
+export function isLegacyTimetable(raw: unknown): boolean {
+  if (!raw || typeof raw !== 'object') return false;
+  return Object.values(raw as Record<string, unknown>).some(
+    day => Array.isArray(day) && day.some(entry => typeof entry === 'string'),
+  );
+}
+
+/**
+ * Convert any stored or parsed timetable into slots. Legacy code lists get
+ * back-to-back one-hour lectures from 09:00 in their original order, which
+ * the user can then adjust in the timetable editor.
+ */
+export function normalizeTimetable(raw: unknown): Timetable {
+  const timetable: Timetable = {};
+  if (!raw || typeof raw !== 'object') return timetable;
+
+  for (const [dayKey, entries] of Object.entries(raw as Record<string, unknown>)) {
+    const day = Number(dayKey);
+    if (!Array.isArray(entries) || Number.isNaN(day)) continue;
+    const slots: TimetableSlot[] = [];
+    for (const entry of entries) {
+      const fallbackStart = nextSlotStart(slots);
+      if (typeof entry === 'string') {
+        slots.push(createSlot(entry, fallbackStart));
+      } else if (entry && typeof entry === 'object') {
+        slots.push(normalizeSlot(entry as Partial<TimetableSlot>, fallbackStart));
+      }
+    }
+    timetable[day] = sortSlots(slots.filter(s => s.code));
+  }
+  return timetable;
+}
+
+// ── Rotations ──────────────────────────────────────────────
+
+function mod(n: number, m: number): number {
+  return ((n % m) + m) % m;
+}
+
+function startOfWeek(d: Date): Date {
+  const monday = new Date(d.getFullYear(), d.getMonth(), d.getDate());
+  monday.setDate(monday.getDate() - mod(monday.getDay() - 1, 7));
+  return monday;
+}
+
+/**
+ * Signed count of working days (Mon–Sat) from `from` up to but not
+ * including `to`.
+ */
+function workingDaysBetween(from: Date, to: Date): number {
+  const days = daysBetween(from, to);
+  if (days < 0) return -workingDaysBetween(to, from);
+  const fullWeeks = Math.floor(days / 7);
+  let count = fullWeeks * 6;
+  const startDay = from.getDay();
+  for (let i = 0; i < days % 7; i++) {
+    if ((startDay + i) % 7 !== 0) count++;
+  }
+  return count;
+}
+
+export function getRotationLength(rotation: TimetableRotation): number {
+  return rotation.mode === 'weeks' ? rotation.weeks.length + 1 : rotation.cycleLength;
+}
+
+/**
+ * Which week (0 = base timetable) or day order applies on a date. Holidays
+ * are not skipped, so a day order that pauses for a holiday needs its anchor
+ * moved.
+ */
+export function getRotationIndex(rotation: TimetableRotation, date: Date): number {
+  const anchor = parseDateStr(rotation.anchorDate);
+  const length = Math.max(1, getRotationLength(rotation));
+  if (rotation.mode === 'weeks') {
+    const weeks = Math.round(daysBetween(startOfWeek(anchor), startOfWeek(date)) / 7);
+    return mod(weeks, length);
+  }
+  return mod(workingDaysBetween(anchor, date), length);
+}
+
+export function getRotationLabel(rotation: TimetableRotation | null, date: Date): string {
+  if (!rotation) return '';
+  const index = getRotationIndex(rotation, date);
+  return rotation.mode === 'weeks'
+    ? `Week ${String.fromCharCode(65 + index)}`
+    : `Day ${index + 1}`;
+}
+
+/**
+ * Anchor date that makes `date` fall on the given week or day-order index.
+ */
+export function anchorForIndex(mode: TimetableRotation['mode'], index: number, date: Date): string {
+  if (mode === 'weeks') {
+    const anchor = startOfWeek(date);
+    anchor.setDate(anchor.getDate() - index * 7);
+    return formatDateStr(anchor);
+  }
+  const anchor = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  if (anchor.getDay() === 0) anchor.setDate(anchor.getDate() + 1);
+  let remaining = index;
+  while (remaining > 0) {
+    anchor.setDate(anchor.getDate() - 1);
+    if (anchor.getDay() !== 0) remaining--;
+  }
+  return formatDateStr(anchor);
+}
+
+/**
+ * The classes that run on a calendar date, resolving any week or
+ * day-order rotation. Sundays never have classes.
+ */
+export function getSlotsForDate(
+  timetable: Timetable,
+  rotation: TimetableRotation | null,
+  date: Date,
+): TimetableSlot[] {
+  const jsDay = date.getDay();
+  if (jsDay === 0) return [];
+  if (!rotation) return timetable[jsDay - 1] ?? [];
+
+  const index = getRotationIndex(rotation, date);
+  if (rotation.mode === 'dayOrder') return rotation.days[index] ?? [];
+  const week = index === 0 ? timetable : rotation.weeks[index - 1] ?? {};
+  return week[jsDay - 1] ?? [];
+}
+
+export function hasAnyClasses(timetable: Timetable, rotation: TimetableRotation | null): boolean {
+  const tables = !rotation
+    ? [timetable]
+    : rotation.mode === 'weeks' ? [timetable, ...rotation.weeks] : [rotation.days];
+  return tables.some(t => Object.values(t).some(slots => slots.length > 0));
+}
+
+export function normalizeRotation(raw: unknown): TimetableRotation | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  if (typeof r.anchorDate !== 'string') return null;
+  if (r.mode === 'weeks' && Array.isArray(r.weeks)) {
+    return { mode: 'weeks', anchorDate: r.anchorDate, weeks: r.weeks.map(normalizeTimetable) };
+  }
+  if (r.mode === 'dayOrder' && typeof r.cycleLength === 'number' && r.cycleLength > 0) {
+    return {
+      mode: 'dayOrder',
+      anchorDate: r.anchorDate,
+      cycleLength: r.cycleLength,
+      days: normalizeTimetable(r.days),
+    };
+  }
+  return null;
+}
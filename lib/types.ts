@@ -19,13 +19,131 @@ export interface AttendanceData {
   threshold: number;
 }
 
-export interface FetchResponse {
-  success: boolean;
-  data?: AttendanceData;
-  error?: string;
+// A dated copy of the subject figures from one successful fetch
+export interface AttendanceSnapshot {
+  takenAt: string; // ISO timestamp of the fetch
+  lastUpdated: string;
+  subjects: Subject[];
+}
+
+// Steps of an ERP scrape, as the backend reports them while it runs
+export type FetchStage = 'login' | 'navigate' | 'parse' | 'done';
+
+// The refresh counter as the server left it after a fetch
+export interface RefreshQuota {
+  used: number;
+  resetMonth: string;
 }
 
+// What it takes to sign in to a student's ERP. `adapterId` names the
+// portal preset from the college registry; `extra` holds the values of any
+// extra fields that preset asks for, keyed by field. `onDevice` logins are
+// fetched on the phone and never sent to the backend.
+export interface ErpLogin {
+  adapterId: string;
+  erpUrl: string;
+  username: string;
+  password: string;
+  extra: Record<string, string>;
+  onDevice?: boolean;
+}
+
+// Why a saved ERP login can't be used here: it's locked on this device, or
+// it's kept only on another device (see CredentialStorage)
+export type UnavailableLogin = 'locked' | 'elsewhere';
+
+// Where the ERP login is kept: encrypted in the user document, or only in
+// the secure storage of the device it was entered on
+export type CredentialStorage = 'cloud' | 'device';
+
+// Ways into a UniTrack account; one account can have several
+export type SignInProvider = 'password' | 'google' | 'apple';
+
 export type StatusFilter = 'all' | 'safe' | 'critical' | 'low' | 'no_data';
 
-// Map of day (0=Mon..5=Sat) to array of subject codes in order
-export type Timetable = Record<number, string[]>;
+export type SlotKind = 'lecture' | 'lab' | 'tutorial';
+
+// One scheduled class. `weight` is how many attendance units it counts for
+// (a 3-hour lab is usually marked as 3).
+export interface TimetableSlot {
+  code: string;
+  start: string; // HH:MM
+  end: string;   // HH:MM
+  room: string;
+  kind: SlotKind;
+  weight: number;
+}
+
+// Map of day (0=Mon..5=Sat) to that day's slots, sorted by start time
+export type Timetable = Record<number, TimetableSlot[]>;
+
+// Schedules that change over time. In 'weeks' mode the base timetable is
+// week 1 and `weeks` holds week 2 onwards, repeating from `anchorDate`
+// (odd/even weeks are a two-week cycle). In 'dayOrder' mode every working
+// day advances Day 1..cycleLength regardless of weekday; `days` is keyed
+// 0..cycleLength-1 and `anchorDate` was a Day 1.
+export type TimetableRotation =
+  | { mode: 'weeks'; anchorDate: string; weeks: Timetable[] }
+  | { mode: 'dayOrder'; anchorDate: string; cycleLength: number; days: Timetable };
+
+export type CalendarEventKind = 'holiday' | 'exam' | 'break';
+
+// A dated block with no regular classes. Dates are YYYY-MM-DD, end inclusive.
+export interface CalendarEvent {
+  id: string;
+  kind: CalendarEventKind;
+  title: string;
+  start: string;
+  end: string;
+}
+
+export interface AcademicCalendar {
+  semesterStart: string | null;
+  semesterEnd: string | null;
+  events: CalendarEvent[];
+}
+
+// A class the student plans to miss. Slots are identified by date, subject
+// and start time, which is unique within a day.
+export interface PlannedSkip {
+  date: string; // YYYY-MM-DD
+  code: string;
+  start: string; // HH:MM
+  weight: number;
+}
+
+export type SkipGoal = { type: 'max' } | { type: 'freeDay'; jsDay: number };
+
+// An accepted skip plan covering `from`..`to` (inclusive)
+export interface SkipPlan {
+  createdAt: string;
+  from: string;
+  to: string;
+  goal: SkipGoal;
+  skips: PlannedSkip[];
+}
+
+export type MarkStatus = 'attended' | 'absent' | 'cancelled';
+
+// A class marked by hand before the ERP catches up. Identified the same way
+// as a planned skip: date, subject and start time.
+export interface AttendanceMark {
+  date: string; // YYYY-MM-DD
+  code: string;
+  start: string; // HH:MM
+  weight: number;
+  status: MarkStatus;
+  markedAt: string; // ISO timestamp
+}
+
+// A mark the next ERP sync disagreed with. 'missing' means the ERP never
+// recorded the class at all.
+export interface MarkConflict {
+  mark: AttendanceMark;
+  erpStatus: 'attended' | 'absent' | 'missing';
+}
+
+export interface AttendanceLedger {
+  marks: AttendanceMark[];
+  conflicts: MarkConflict[];
+}
@@ -0,0 +1,297 @@
+import { useReducer, useEffect, useCallback, useMemo, useRef, useState } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  loadUserData,
+  subscribeUserData,
+  saveErpCredentials,
+  loadErpCredentials,
+  PaymentRecord,
+  UserData,
+} from './firestore';
+import { fetchAttendance } from './attendanceSource';
+import { readLoginHint } from './credentialVault';
+import { loadHistory, recordSnapshot, createSnapshot } from './history';
+import { loadCachedUserData, loadQueuedWrites, saveCachedUserData } from './writeQueue';
+import { loadLedger, saveLedger } from './ledger';
+import { usePremium } from './usePremium';
+import { useWriteQueue } from './useWriteQueue';
+import {
+  AppAction,
+  appReducer,
+  getEditedFields,
+  INITIAL_STATE,
+  selectCanRefresh,
+  selectIsStale,
+  selectProvisionalData,
+  SettingsEdit,
+} from './appStore';
+import { createRefreshService, RefreshMode } from './refreshService';
+import { AttendanceData, ErpLogin, MarkStatus, TimetableSlot } from './types';
+
+// Fields a remote snapshot may overwrite, unless the user is changing them here
+const LIVE_FIELDS: (keyof UserData)[] = [
+  'attendance',
+  'threshold',
+  'subjectThresholds',
+  'timetable',
+  'timetableRotation',
+  'academicCalendar',
+  'skipPlan',
+  'premiumUntil',
+];
+
+function premiumBackupKey(uid: string): string {
+  return `@premiumUntil:${uid}`;
+}
+
+/**
+ * Owns the signed-in user's data: boot from Firestore or the local cache,
+ * live updates from other devices, queued writes for local edits, and ERP
+ * refreshes. All state lives in the reducer in appStore, so signing out or
+ * switching accounts is a single reset.
+ *
+ * `editing` lists fields with an open editor; remote changes to them are
+ * held back until the editor closes.
+ */
+export function useAppStore(uid: string | null, editing: (keyof UserData)[]) {
+  const [state, dispatch] = useReducer(appReducer, INITIAL_STATE);
+  const premiumStatus = usePremium({
+    premiumUntil: state.premiumUntil,
+    trialEndsAt: state.trialEndsAt,
+    refreshCount: state.refreshCount,
+    refreshCountResetMonth: state.refreshCountResetMonth,
+  });
+
+  // Every write to the user document goes through the offline queue
+  const {
+    status: syncStatus,
+    enqueue,
+    retryNow: retrySync,
+    hasPendingWrite,
+    pause: pauseWrites,
+    resume: resumeWrites,
+  } = useWriteQueue(uid);
+
+  // Read from callbacks and listeners without re-creating them
+  const latest = useRef({ state, editing });
+  latest.current = { state, editing };
+  const lastRemote = useRef<UserData | null>(null);
+  const autoRefreshTriggered = useRef(false);
+  const savedLedger = useRef(state.ledger);
+  // While the account is being deleted nothing may write the user document
+  const [syncPaused, setSyncPaused] = useState(false);
+  const paused = useRef(false);
+  const stopListening = useRef<(() => void) | null>(null);
+
+  // ── Boot: Firestore, or the copy cached on this device ──
+  useEffect(() => {
+    dispatch({ type: 'reset' });
+    lastRemote.current = null;
+    autoRefreshTriggered.current = false;
+    paused.current = false;
+    setSyncPaused(false);
+    if (!uid) return;
+
+    let cancelled = false;
+
+    (async () => {
+      // Writes still queued on this device are newer than anything stored remotely
+      const queued = await loadQueuedWrites(uid);
+      let data: UserData | null = null;
+      try {
+        data = { ...await loadUserData(uid), ...queued.pending };
+        saveCachedUserData(uid, data).catch(() => {});
+      } catch {
+        const cachedData = await loadCachedUserData(uid);
+        if (cachedData) data = { ...cachedData, ...queued.pending };
+      }
+      if (cancelled) return;
+
+      // Manual marks are device-local until the ERP confirms them
+      const ledger = await loadLedger(uid);
+      // Nothing cached either — fall back to the premiumUntil backup
+      const premiumBackup = data ? null : await AsyncStorage.getItem(premiumBackupKey(uid)).catch(() => null);
+      if (cancelled) return;
+
+      savedLedger.current = ledger;
+      dispatch({ type: 'loaded', data, ledger, premiumBackup });
+      if (!data) return;
+
+      if (data.premiumUntil != null) {
+        AsyncStorage.setItem(premiumBackupKey(uid), data.premiumUntil).catch(() => {});
+      }
+
+      // Pre-fill the saved username without unlocking the saved login
+      readLoginHint(uid).then(hint => {
+        if (hint && !cancelled) dispatch({ type: 'loginHintLoaded', hint });
+      }).catch(() => {});
+
+      // Attendance history loads in the background — the dashboard doesn't wait for it
+      loadHistory(uid, data.attendance).then(history => {
+        if (!cancelled) dispatch({ type: 'historyLoaded', history });
+      }).catch(() => {});
+    })();
+
+    return () => { cancelled = true; };
+  }, [uid]);
+
+  // ── Manual marks are saved locally whenever they change ──
+  useEffect(() => {
+    if (!uid || !state.isInitialized || state.ledger === savedLedger.current) return;
+    savedLedger.current = state.ledger;
+    saveLedger(uid, state.ledger);
+  }, [uid, state.isInitialized, state.ledger]);
+
+  // ── Live updates from other devices ──
+  const applyRemote = useCallback((remote: UserData) => {
+    lastRemote.current = remote;
+    const { editing: open } = latest.current;
+    const locked = LIVE_FIELDS.filter(f => hasPendingWrite(f) || open.includes(f));
+    dispatch({ type: 'remoteUpdate', remote, locked });
+  }, [hasPendingWrite]);
+
+  useEffect(() => {
+    if (!uid || !state.isInitialized || syncPaused) return;
+    const unsubscribe = subscribeUserData(uid, remote => {
+      // Queued writes are folded back in on boot, so the cache can take the remote copy as-is
+      saveCachedUserData(uid, remote).catch(() => {});
+      applyRemote(remote);
+    });
+    stopListening.current = unsubscribe;
+    return () => {
+      unsubscribe();
+      stopListening.current = null;
+    };
+  }, [uid, state.isInitialized, syncPaused, applyRemote]);
+
+  // Catch up on anything held back while an editor was open
+  const isEditing = editing.length > 0;
+  useEffect(() => {
+    if (!isEditing && lastRemote.current) applyRemote(lastRemote.current);
+  }, [isEditing, applyRemote]);
+
+  // Dispatch and fold the action into `latest` right away, so callbacks
+  // running before the next render already see it
+  const commit = useCallback((action: AppAction) => {
+    latest.current = { ...latest.current, state: appReducer(latest.current.state, action) };
+    dispatch(action);
+  }, []);
+
+  // ── Local edits: update the store and queue the write together ──
+  const edit = useCallback((action: SettingsEdit) => {
+    commit(action);
+    enqueue(getEditedFields(latest.current.state, action));
+  }, [commit, enqueue]);
+
+  // ── New attendance from the ERP or an import: store, sync and snapshot it ──
+  const applyAttendance = useCallback((data: AttendanceData, login?: ErpLogin) => {
+    if (!uid || paused.current) return;
+    commit({ type: 'refreshSucceeded', data, login });
+    enqueue({ attendance: data, lastSynced: new Date().toISOString() });
+
+    recordSnapshot(uid, createSnapshot(data)).then(history => {
+      dispatch({ type: 'historyLoaded', history });
+    }).catch(() => {});
+  }, [uid, commit, enqueue]);
+
+  // ── ERP refresh — first connect, stale-data auto refresh and pull-to-refresh ──
+  const refreshService = useMemo(() => {
+    if (!uid) return null;
+    return createRefreshService({
+      canRefresh: mode => selectCanRefresh(latest.current.state, mode),
+      loadLogin: () => loadErpCredentials(uid),
+      fetchAttendance: (login, signal, onStage) =>
+        fetchAttendance(login, latest.current.state.threshold, signal, onStage),
+      apply: async (data, mode, login) => {
+        applyAttendance(data, login);
+        if (login && !paused.current) {
+          await saveErpCredentials(uid, login).catch(() => {});
+        }
+      },
+      onProgress: progress => dispatch({ type: 'refreshProgressed', progress }),
+      onSettled: outcome => commit({ type: 'refreshSettled', outcome }),
+    });
+  }, [uid, commit, applyAttendance]);
+
+  useEffect(() => () => refreshService?.dispose(), [refreshService]);
+
+  const refresh = useCallback(async (mode: RefreshMode, login?: ErpLogin) => {
+    if (paused.current) return;
+    await refreshService?.request(mode, login);
+  }, [refreshService]);
+
+  // ── Trigger auto-refresh once after initialization if data is stale ──
+  useEffect(() => {
+    if (!state.isInitialized || !state.attendanceData || autoRefreshTriggered.current) return;
+    autoRefreshTriggered.current = true;
+    if (selectIsStale(state)) refresh('auto');
+  }, [state, refresh]);
+
+  const purchasePremium = useCallback(async (premiumUntil: string, payment: PaymentRecord) => {
+    commit({ type: 'premiumPurchased', premiumUntil });
+    if (!uid) return;
+    // Write AsyncStorage backup immediately
+    AsyncStorage.setItem(premiumBackupKey(uid), premiumUntil).catch(() => {});
+    // Queued like every other write, so it survives being offline
+    enqueue({ premiumUntil }, payment);
+  }, [uid, commit, enqueue]);
+
+  const clear = useCallback(() => {
+    if (uid) AsyncStorage.removeItem(premiumBackupKey(uid)).catch(() => {});
+    dispatch({ type: 'reset' });
+  }, [uid]);
+
+  /**
+   * Stop everything that writes the user document — the live listener, a
+   * running refresh and the write queue — and wait for what's already on
+   * its way, so deleting the account can't be undone by a late write.
+   */
+  const pauseSync = useCallback(async () => {
+    paused.current = true;
+    setSyncPaused(true);
+    stopListening.current?.();
+    refreshService?.cancel();
+    await refreshService?.idle();
+    await pauseWrites();
+  }, [refreshService, pauseWrites]);
+
+  // For when deleting the account failed and the user is still here
+  const resumeSync = useCallback(() => {
+    paused.current = false;
+    setSyncPaused(false);
+    resumeWrites();
+  }, [resumeWrites]);
+
+  const actions = useMemo(() => ({
+    connect: (login: ErpLogin) => {
+      dispatch({ type: 'errorDismissed' });
+      return refresh('connect', login);
+    },
+    refresh: () => refresh('pull'),
+    // Spreadsheet imports replace the attendance like a refresh, without an ERP login
+    importAttendance: (data: AttendanceData) => applyAttendance(data),
+    // The saved login was unlocked on this device (see CredentialSecurityModal)
+    loginUnlocked: (login: ErpLogin) => dispatch({ type: 'credentialsLoaded', login }),
+    cancelRefresh: () => refreshService?.cancel(),
+    setThreshold: (threshold: number) => edit({ type: 'thresholdSet', threshold }),
+    setSubjectThreshold: (subjectKey: string, value: number | null) => edit({ type: 'subjectThresholdSet', subjectKey, value }),
+    setTimetable: (timetable: UserData['timetable'], rotation: UserData['timetableRotation']) =>
+      edit({ type: 'timetableSet', timetable, rotation }),
+    setCalendar: (calendar: UserData['academicCalendar']) => edit({ type: 'calendarSet', calendar }),
+    setSkipPlan: (skipPlan: UserData['skipPlan']) => edit({ type: 'skipPlanSet', skipPlan }),
+    mark: (dateStr: string, slot: TimetableSlot, status: MarkStatus | null) =>
+      dispatch({ type: 'marked', dateStr, slot, status }),
+    dismissConflicts: () => dispatch({ type: 'conflictsDismissed' }),
+    dismissSyncDiff: () => dispatch({ type: 'syncDiffDismissed' }),
+    dismissError: () => dispatch({ type: 'errorDismissed' }),
+    purchasePremium,
+    retrySync,
+    pauseSync,
+    resumeSync,
+    clear,
+  }), [refresh, refreshService, applyAttendance, edit, purchasePremium, retrySync, pauseSync, resumeSync, clear]);
+
+  const provisionalData = useMemo(() => selectProvisionalData(state), [state.attendanceData, state.ledger.marks]);
+
+  return { state, premiumStatus, provisionalData, syncStatus, actions };
+}
@@ -1,45 +1,278 @@
 import { useState, useEffect, useCallback } from 'react';
+import { AppState } from 'react-native';
 import {
   onAuthStateChanged,
   signInWithEmailAndPassword,
   createUserWithEmailAndPassword,
+  signInWithCredential,
+  linkWithCredential,
+  getAdditionalUserInfo,
   signOut,
+  sendPasswordResetEmail,
+  sendEmailVerification,
+  reload,
+  EmailAuthProvider,
+  reauthenticateWithCredential,
+  verifyBeforeUpdateEmail,
+  updatePassword,
+  deleteUser,
+  AuthError,
+  OAuthCredential,
   User,
 } from 'firebase/auth';
 import { getFirebaseAuth } from './firebase';
-import { saveUserData } from './firestore';
+import { deleteUserData, loadUserData, PaymentRecord, saveUserData } from './firestore';
+import { clearLocalUserData } from './account';
+import {
+  getAppleCredential,
+  getSignInProviders,
+  googleCredential,
+  LinkableProvider,
+} from './federatedAuth';
+import { SignInProvider } from './types';
+
+const TRIAL_DAYS = 7;
+// Firebase's window for sensitive changes after signing in
+const RECENT_SIGN_IN_MS = 5 * 60 * 1000;
+
+/**
+ * A Google or Apple sign-in whose email already belongs to another account.
+ * It's attached to that account once the user signs in to it, so they keep
+ * their data instead of starting a second account.
+ */
+export interface PendingLink {
+  provider: LinkableProvider;
+  email: string;
+  credential: OAuthCredential;
+}
+
+// Firebase error codes, as the user should read them
+export function describeAuthError(err: unknown): string {
+  const msg = err instanceof Error ? err.message : 'Authentication failed';
+  if (msg.includes('auth/email-already-in-use')) return 'This email is already registered. Try signing in.';
+  if (msg.includes('auth/invalid-credential') || msg.includes('auth/wrong-password') || msg.includes('auth/user-not-found')) return 'Invalid email or password.';
+  if (msg.includes('auth/weak-password')) return 'Password must be at least 6 characters.';
+  if (msg.includes('auth/invalid-email') || msg.includes('auth/missing-email')) return 'Please enter a valid email address.';
+  if (msg.includes('auth/too-many-requests')) return 'Too many attempts. Try again later.';
+  if (msg.includes('auth/requires-recent-login')) return 'For your security, sign out and sign in again, then try once more.';
+  if (msg.includes('auth/account-exists-with-different-credential')) return 'You already have a UniTrack account with this email. Sign in to it below and this sign-in option is added to it.';
+  if (msg.includes('auth/credential-already-in-use')) return 'That sign-in is already used by another UniTrack account.';
+  if (msg.includes('auth/provider-already-linked')) return 'That sign-in option is already on your account.';
+  if (msg.includes('auth/network-request-failed')) return 'No connection. Check your internet and try again.';
+  return msg;
+}
+
+function requireUser(): User {
+  const current = getFirebaseAuth().currentUser;
+  if (!current) throw new Error('Not signed in');
+  return current;
+}
+
+// Sensitive changes need a fresh sign-in. Password accounts prove it by
+// entering the password again; others must have signed in recently, which
+// is checked up front so an account deletion never stops halfway.
+async function reauthenticate(currentPassword: string): Promise<User> {
+  const current = requireUser();
+  if (!getSignInProviders(current.providerData).includes('password')) {
+    const signedInAt = Date.parse(current.metadata.lastSignInTime ?? '');
+    if (!(Date.now() - signedInAt < RECENT_SIGN_IN_MS)) throw new Error('auth/requires-recent-login');
+    return current;
+  }
+  await reauthenticateWithCredential(current, EmailAuthProvider.credential(current.email ?? '', currentPassword));
+  return current;
+}
+
+// New accounts get the free trial once; an account that already has one keeps it
+async function startTrial(uid: string): Promise<void> {
+  const { trialEndsAt } = await loadUserData(uid);
+  if (trialEndsAt) return;
+  await saveUserData(uid, {
+    trialEndsAt: new Date(Date.now() + TRIAL_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+  });
+}
 
 export function useAuth() {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  // Firebase updates the flag on the same User object, which React can't see
+  const [emailVerified, setEmailVerified] = useState(false);
+  const [providers, setProviders] = useState<SignInProvider[]>([]);
+  const [pendingLink, setPendingLink] = useState<PendingLink | null>(null);
+
+  const syncUser = useCallback((current: User | null) => {
+    setEmailVerified(current?.emailVerified ?? false);
+    setProviders(current ? getSignInProviders(current.providerData) : []);
+  }, []);
 
   useEffect(() => {
     const auth = getFirebaseAuth();
 
     const unsubscribe = onAuthStateChanged(auth, (firebaseUser) => {
       setUser(firebaseUser);
+      syncUser(firebaseUser);
       setLoading(false);
     });
 
     return () => unsubscribe();
-  }, []);
+  }, [syncUser]);
+
+  const refreshUser = useCallback(async () => {
+    const current = getFirebaseAuth().currentUser;
+    if (!current) return;
+    await reload(current);
+    syncUser(current);
+  }, [syncUser]);
+
+  // The verification link is usually opened in another app; check again on return
+  useEffect(() => {
+    if (!user || emailVerified) return;
+    const subscription = AppState.addEventListener('change', (next) => {
+      if (next === 'active') refreshUser().catch(() => {});
+    });
+    return () => subscription.remove();
+  }, [user, emailVerified, refreshUser]);
+
+  // Signed in either way; if linking fails it can be done again from Account
+  const linkPending = useCallback(async (signedIn: User) => {
+    if (!pendingLink) return;
+    setPendingLink(null);
+    if (pendingLink.email.toLowerCase() !== signedIn.email?.toLowerCase()) return;
+    await linkWithCredential(signedIn, pendingLink.credential)
+      .then(({ user: linked }) => syncUser(linked))
+      .catch(() => {});
+  }, [pendingLink, syncUser]);
 
   const login = useCallback(async (email: string, password: string) => {
     const cred = await signInWithEmailAndPassword(getFirebaseAuth(), email, password);
+    await linkPending(cred.user);
     return cred.user;
-  }, []);
+  }, [linkPending]);
 
   const signUp = useCallback(async (email: string, password: string) => {
     const cred = await createUserWithEmailAndPassword(getFirebaseAuth(), email, password);
-    // Set 7-day free trial for new sign-ups
-    const trialEndsAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
-    await saveUserData(cred.user.uid, { trialEndsAt });
+    await startTrial(cred.user.uid);
+    sendEmailVerification(cred.user).catch(() => {});
     return cred.user;
   }, []);
 
+  const signInWithProvider = useCallback(async (provider: LinkableProvider, credential: OAuthCredential) => {
+    try {
+      const cred = await signInWithCredential(getFirebaseAuth(), credential);
+      if (getAdditionalUserInfo(cred)?.isNewUser) await startTrial(cred.user.uid);
+      await linkPending(cred.user);
+      return cred.user;
+    } catch (err) {
+      const { code, customData } = err as AuthError;
+      if (code === 'auth/account-exists-with-different-credential' && customData?.email) {
+        setPendingLink({ provider, email: customData.email, credential });
+      }
+      throw err;
+    }
+  }, [linkPending]);
+
+  const signInWithGoogle = useCallback((idToken: string) => (
+    signInWithProvider('google', googleCredential(idToken))
+  ), [signInWithProvider]);
+
+  // Resolves to null if the user backs out of Apple's sheet
+  const signInWithApple = useCallback(async () => {
+    const credential = await getAppleCredential();
+    return credential ? signInWithProvider('apple', credential) : null;
+  }, [signInWithProvider]);
+
+  const cancelPendingLink = useCallback(() => setPendingLink(null), []);
+
   const logout = useCallback(async () => {
+    setPendingLink(null);
     await signOut(getFirebaseAuth());
   }, []);
 
-  return { user, loading, login, signUp, logout };
+  // Adding a sign-in option keeps the same account, so its data and trial stay
+  const linkCredential = useCallback(async (credential: OAuthCredential) => {
+    const { user: linked } = await linkWithCredential(requireUser(), credential);
+    syncUser(linked);
+  }, [syncUser]);
+
+  const linkGoogle = useCallback((idToken: string) => (
+    linkCredential(googleCredential(idToken))
+  ), [linkCredential]);
+
+  // False if the user backs out of Apple's sheet
+  const linkApple = useCallback(async () => {
+    const credential = await getAppleCredential();
+    if (!credential) return false;
+    await linkCredential(credential);
+    return true;
+  }, [linkCredential]);
+
+  const resetPassword = useCallback(async (email: string) => {
+    await sendPasswordResetEmail(getFirebaseAuth(), email);
+  }, []);
+
+  const sendVerification = useCallback(async () => {
+    await sendEmailVerification(requireUser());
+  }, []);
+
+  // The address changes once the user opens the link sent to it
+  const changeEmail = useCallback(async (currentPassword: string, newEmail: string) => {
+    await verifyBeforeUpdateEmail(await reauthenticate(currentPassword), newEmail);
+  }, []);
+
+  const changePassword = useCallback(async (currentPassword: string, newPassword: string) => {
+    await updatePassword(await reauthenticate(currentPassword), newPassword);
+  }, []);
+
+  /**
+   * The account's payment records, for the user to save before deleting
+   * it: the user document is the only copy the app keeps.
+   */
+  const loadPayments = useCallback(async (currentPassword: string): Promise<PaymentRecord[]> => {
+    const current = await reauthenticate(currentPassword);
+    return (await loadUserData(current.uid)).payments;
+  }, []);
+
+  /**
+   * Delete the account and everything stored for it. `sync.pause` stops
+   * this device writing the user document first, so nothing puts it back
+   * before the account is gone; if deleting the data fails, `sync.resume`
+   * starts it again.
+   */
+  const deleteAccount = useCallback(async (
+    currentPassword: string,
+    sync: { pause: () => Promise<void>; resume: () => void },
+  ) => {
+    const current = await reauthenticate(currentPassword);
+    await sync.pause();
+    try {
+      await deleteUserData(current.uid);
+    } catch (err) {
+      sync.resume();
+      throw err;
+    }
+    await clearLocalUserData(current.uid);
+    await deleteUser(current);
+  }, []);
+
+  return {
+    user,
+    loading,
+    emailVerified,
+    providers,
+    pendingLink,
+    login,
+    signUp,
+    signInWithGoogle,
+    signInWithApple,
+    cancelPendingLink,
+    logout,
+    resetPassword,
+    sendVerification,
+    refreshUser,
+    changeEmail,
+    changePassword,
+    loadPayments,
+    deleteAccount,
+    linkGoogle,
+    linkApple,
+  };
 }
@@ -0,0 +1,32 @@
+import { useState, useEffect } from 'react';
+import { ErpAdapter, loadCachedAdapters, refreshAdapters } from './erpAdapters';
+import { SEED_ADAPTERS } from './erpAdapterSeed';
+
+/**
+ * The college registry: the list bundled with the app, then the cached
+ * copy, then the server's latest. `isLoading` stays true until the server
+ * answers or fails.
+ */
+export function useErpAdapters() {
+  const [adapters, setAdapters] = useState<ErpAdapter[]>(SEED_ADAPTERS);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    let fetched = false;
+    loadCachedAdapters().then(cached => {
+      if (!cancelled && !fetched) setAdapters(cached);
+    });
+    refreshAdapters().then(latest => {
+      if (cancelled) return;
+      if (latest) {
+        fetched = true;
+        setAdapters(latest);
+      }
+      setIsLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  return { adapters, isLoading };
+}
@@ -1,8 +1,8 @@
 import { useMemo, useState, useEffect } from 'react';
 
-const FREE_REFRESHES_PER_MONTH = 3;
+export const FREE_REFRESHES_PER_MONTH = 3;
 
-interface UsePremiumInput {
+export interface PremiumInput {
   premiumUntil: string | null;
   trialEndsAt: string | null;
   refreshCount: number;
@@ -20,7 +20,50 @@ export interface PremiumStatus {
   canRefresh: boolean;
 }
 
-export function usePremium({ premiumUntil, trialEndsAt, refreshCount, refreshCountResetMonth }: UsePremiumInput): PremiumStatus {
+// The month a refresh counts towards, as `refreshCountResetMonth` stores it
+export function getRefreshMonth(now: Date = new Date()): string {
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Premium and quota status at a point in time. Pure, so the refresh
+ * service can check the quota against the latest counts between renders.
+ */
+export function computePremiumStatus(
+  { premiumUntil, trialEndsAt, refreshCount, refreshCountResetMonth }: PremiumInput,
+  now: Date = new Date(),
+): PremiumStatus {
+  const currentMonth = getRefreshMonth(now);
+
+  const isPaidPremium = !!premiumUntil && new Date(premiumUntil) > now;
+  const isTrialActive = !!trialEndsAt && new Date(trialEndsAt) > now;
+  const isPremium = isPaidPremium || isTrialActive;
+
+  const trialDaysLeft = isTrialActive
+    ? Math.ceil((new Date(trialEndsAt!).getTime() - now.getTime()) / (1000 * 60 * 60 * 24))
+    : 0;
+
+  const premiumDaysLeft = isPaidPremium
+    ? Math.ceil((new Date(premiumUntil!).getTime() - now.getTime()) / (1000 * 60 * 60 * 24))
+    : 0;
+
+  const refreshesUsed = refreshCountResetMonth === currentMonth ? refreshCount : 0;
+  const refreshesLeft = isPremium ? Infinity : Math.max(0, FREE_REFRESHES_PER_MONTH - refreshesUsed);
+  const canRefresh = isPremium || refreshesLeft > 0;
+
+  return {
+    isPremium,
+    isTrialActive,
+    isPaidPremium,
+    trialDaysLeft,
+    premiumDaysLeft,
+    refreshesUsed,
+    refreshesLeft,
+    canRefresh,
+  };
+}
+
+export function usePremium({ premiumUntil, trialEndsAt, refreshCount, refreshCountResetMonth }: PremiumInput): PremiumStatus {
   const [, setTick] = useState(0);
 
   // Schedule a re-evaluation when premium or trial expires
@@ -38,35 +81,8 @@ export function usePremium({ premiumUntil, trialEndsAt, refreshCount, refreshCou
     return () => clearTimeout(timer);
   }, [premiumUntil, trialEndsAt]);
 
-  return useMemo(() => {
-    const now = new Date();
-    const currentMonth = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
-
-    const isPaidPremium = !!premiumUntil && new Date(premiumUntil) > now;
-    const isTrialActive = !!trialEndsAt && new Date(trialEndsAt) > now;
-    const isPremium = isPaidPremium || isTrialActive;
-
-    const trialDaysLeft = isTrialActive
-      ? Math.ceil((new Date(trialEndsAt!).getTime() - now.getTime()) / (1000 * 60 * 60 * 24))
-      : 0;
-
-    const premiumDaysLeft = isPaidPremium
-      ? Math.ceil((new Date(premiumUntil!).getTime() - now.getTime()) / (1000 * 60 * 60 * 24))
-      : 0;
-
-    const refreshesUsed = refreshCountResetMonth === currentMonth ? refreshCount : 0;
-    const refreshesLeft = isPremium ? Infinity : Math.max(0, FREE_REFRESHES_PER_MONTH - refreshesUsed);
-    const canRefresh = isPremium || refreshesLeft > 0;
-
-    return {
-      isPremium,
-      isTrialActive,
-      isPaidPremium,
-      trialDaysLeft,
-      premiumDaysLeft,
-      refreshesUsed,
-      refreshesLeft,
-      canRefresh,
-    };
-  }, [premiumUntil, trialEndsAt, refreshCount, refreshCountResetMonth]);
+  return useMemo(
+    () => computePremiumStatus({ premiumUntil, trialEndsAt, refreshCount, refreshCountResetMonth }),
+    [premiumUntil, trialEndsAt, refreshCount, refreshCountResetMonth],
+  );
 }
@@ -0,0 +1,73 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AcademicCalendar, AttendanceData, Timetable, TimetableRotation } from './types';
+import { getSubjectKey } from './utils';
+import { DEFAULT_REMINDER_SETTINGS, ReminderSettings, syncReminders } from './reminders';
+import { deviceNotifier, requestNotificationPermission } from './notifications';
+
+// Per account, so the next person to sign in on this phone starts fresh
+function reminderSettingsKey(uid: string): string {
+  return `unitrack_reminder_settings:${uid}`;
+}
+
+interface UseRemindersInput {
+  uid: string | null;
+  enabled: boolean;
+  timetable: Timetable;
+  rotation: TimetableRotation | null;
+  calendar: AcademicCalendar;
+  attendance: AttendanceData | null;
+  globalThreshold: number;
+  subjectThresholds: Record<string, number>;
+}
+
+export function useReminders({ uid, enabled, timetable, rotation, calendar, attendance, globalThreshold, subjectThresholds }: UseRemindersInput) {
+  const [settings, setSettings] = useState<ReminderSettings>(DEFAULT_REMINDER_SETTINGS);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    setSettings(DEFAULT_REMINDER_SETTINGS);
+    setLoaded(false);
+    if (!uid) return;
+    let cancelled = false;
+    AsyncStorage.getItem(reminderSettingsKey(uid)).then((saved) => {
+      if (saved && !cancelled) setSettings({ ...DEFAULT_REMINDER_SETTINGS, ...JSON.parse(saved) });
+    }).catch(() => {}).finally(() => {
+      if (!cancelled) setLoaded(true);
+    });
+    return () => { cancelled = true; };
+  }, [uid]);
+
+  const updateSettings = useCallback((next: ReminderSettings) => {
+    setSettings(next);
+    if (uid) AsyncStorage.setItem(reminderSettingsKey(uid), JSON.stringify(next)).catch(() => {});
+  }, [uid]);
+
+  const subjectMap = useMemo(
+    () => new Map((attendance?.subjects ?? []).map(s => [getSubjectKey(s), s])),
+    [attendance],
+  );
+
+  // Reschedule whenever anything that feeds the plan changes
+  useEffect(() => {
+    if (enabled && !loaded) return;
+    const wanted = enabled && (settings.digestEnabled || settings.classRemindersEnabled);
+    if (!wanted) {
+      deviceNotifier.cancelAll().catch(() => {});
+      return;
+    }
+
+    let cancelled = false;
+    (async () => {
+      const granted = await requestNotificationPermission();
+      if (!granted || cancelled) return;
+      await syncReminders(deviceNotifier, () => new Date(), {
+        timetable, rotation, calendar, subjectMap, globalThreshold, subjectThresholds, settings,
+      });
+    })().catch(() => {});
+
+    return () => { cancelled = true; };
+  }, [loaded, enabled, settings, timetable, rotation, calendar, subjectMap, globalThreshold, subjectThresholds]);
+
+  return { settings, updateSettings };
+}
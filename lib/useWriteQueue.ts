@@ -0,0 +1,151 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AppState } from 'react-native';
+import { flushUserDataWrites, PaymentRecord, UserData, UserDataUpdate } from './firestore';
+import {
+  coalesceWrites,
+  EMPTY_QUEUE,
+  getRetryDelay,
+  isQueueEmpty,
+  loadQueuedWrites,
+  QueuedWrites,
+  removeFlushed,
+  saveQueuedWrites,
+  SyncStatus,
+  updateCachedUserData,
+} from './writeQueue';
+
+// Effects that fire in the same render all land in one write
+const BATCH_DELAY_MS = 300;
+
+/**
+ * Persistent, coalescing write queue for the user document. Updates are
+ * saved to AsyncStorage before they're sent, so nothing is lost if the app
+ * closes offline; failed flushes retry with backoff and again whenever the
+ * app comes back to the foreground.
+ */
+export function useWriteQueue(uid: string | null) {
+  const [status, setStatus] = useState<SyncStatus>('synced');
+  const queue = useRef<QueuedWrites>(EMPTY_QUEUE);
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // The flush being sent, so pausing can wait for it
+  const inFlight = useRef<Promise<void> | null>(null);
+  const paused = useRef(false);
+  // Serializes AsyncStorage writes so quick successive updates can't reorder
+  const storage = useRef<Promise<void>>(Promise.resolve());
+
+  const persist = useCallback((task: () => Promise<void>) => {
+    storage.current = storage.current.then(task).catch(() => {});
+  }, []);
+
+  const schedule = useCallback((delay: number, flush: () => void) => {
+    if (timer.current) clearTimeout(timer.current);
+    timer.current = setTimeout(flush, delay);
+  }, []);
+
+  const flush = useCallback(async () => {
+    timer.current = null;
+    if (!uid || inFlight.current || paused.current) return;
+    if (isQueueEmpty(queue.current)) {
+      setStatus('synced');
+      return;
+    }
+
+    const batch = queue.current;
+    const sending = flushUserDataWrites(uid, batch.pending, batch.payments);
+    inFlight.current = sending.catch(() => {});
+    setStatus('syncing');
+    try {
+      await sending;
+      queue.current = removeFlushed(queue.current, batch);
+      setStatus(isQueueEmpty(queue.current) ? 'synced' : 'pending');
+      if (!isQueueEmpty(queue.current)) schedule(BATCH_DELAY_MS, flush);
+    } catch {
+      const attempts = queue.current.attempts + 1;
+      queue.current = { ...queue.current, attempts };
+      setStatus('offline');
+      schedule(getRetryDelay(attempts), flush);
+    } finally {
+      inFlight.current = null;
+      const snapshot = queue.current;
+      if (!paused.current) persist(() => saveQueuedWrites(uid, snapshot));
+    }
+  }, [uid, persist, schedule]);
+
+  // Pick up whatever was left from the last session
+  useEffect(() => {
+    queue.current = EMPTY_QUEUE;
+    paused.current = false;
+    setStatus('synced');
+    if (!uid) return;
+
+    let cancelled = false;
+    loadQueuedWrites(uid).then(saved => {
+      if (cancelled || isQueueEmpty(saved)) return;
+      // Anything enqueued while loading is newer than what was saved
+      queue.current = {
+        pending: { ...saved.pending, ...queue.current.pending },
+        payments: [...saved.payments, ...queue.current.payments],
+        attempts: 0,
+      };
+      setStatus('pending');
+      schedule(0, flush);
+    });
+
+    return () => {
+      cancelled = true;
+      if (timer.current) clearTimeout(timer.current);
+      timer.current = null;
+    };
+  }, [uid, flush, schedule]);
+
+  // Coming back to the app is a good moment to retry
+  useEffect(() => {
+    const sub = AppState.addEventListener('change', state => {
+      if (state === 'active' && !isQueueEmpty(queue.current)) schedule(0, flush);
+    });
+    return () => sub.remove();
+  }, [flush, schedule]);
+
+  const enqueue = useCallback((partial: UserDataUpdate, payment?: PaymentRecord) => {
+    if (!uid) return;
+    queue.current = coalesceWrites(queue.current, partial, payment);
+    // Kept in memory only while paused, for resume to send
+    if (paused.current) return;
+    const snapshot = queue.current;
+    persist(() => saveQueuedWrites(uid, snapshot));
+    persist(() => updateCachedUserData(uid, partial, payment));
+
+    // While backing off, new writes wait for the retry instead of hammering
+    if (queue.current.attempts === 0) {
+      setStatus('pending');
+      schedule(BATCH_DELAY_MS, flush);
+    }
+  }, [uid, persist, schedule, flush]);
+
+  // True while a local change to this field hasn't reached Firestore yet
+  const hasPendingWrite = useCallback((field: keyof UserData) => field in queue.current.pending, []);
+
+  const retryNow = useCallback(() => {
+    if (!isQueueEmpty(queue.current)) schedule(0, flush);
+  }, [flush, schedule]);
+
+  /**
+   * Stop writing until resume, for deleting the account: waits for a flush
+   * already being sent and for the device copy to be saved, so nothing
+   * writes the user document or this device's storage afterwards.
+   */
+  const pause = useCallback(async () => {
+    paused.current = true;
+    if (timer.current) clearTimeout(timer.current);
+    timer.current = null;
+    await inFlight.current;
+    await storage.current;
+  }, []);
+
+  const resume = useCallback(() => {
+    paused.current = false;
+    if (!isQueueEmpty(queue.current)) schedule(0, flush);
+  }, [flush, schedule]);
+
+  return { status, enqueue, retryNow, hasPendingWrite, pause, resume };
+}
@@ -100,3 +100,27 @@ export function getEffectiveThreshold(
   const key = getSubjectKey(subject);
   return subjectThresholds[key] ?? globalThreshold;
 }
+
+export type Verdict = 'skip' | 'risky' | 'attend' | 'no_data';
+
+// Whether the next class of a subject can be skipped. `units` is how many
+// attendance units that class counts for — a 3-hour lab is only safe to
+// skip if the margin covers all three.
+export function getVerdict(subject: Subject, threshold: number, units = 1): Verdict {
+  const status = calculateStatus(subject.percentage, threshold, subject.total);
+
+  if (status === 'no_data') return 'no_data';
+
+  if (status === 'safe') {
+    const classesToBunk = calculateClassesToBunk(
+      subject.attended,
+      subject.total,
+      threshold
+    );
+    if (classesToBunk >= units) return 'skip';
+  }
+
+  if (status === 'low') return 'attend';
+
+  return 'risky';
+}
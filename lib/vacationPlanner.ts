@@ -1,6 +1,10 @@
-import { Subject, Timetable } from './types';
+import { AcademicCalendar, CalendarEvent, Subject, Timetable, TimetableRotation, TimetableSlot } from './types';
 import { calculateClassesToBunk, getEffectiveThreshold } from './utils';
+import { countSlotUnits, getSlotsForDate, totalSlotUnits } from './timetable';
+import { getCalendarEvent, isNoClassDay, isOutsideSemester } from './academicCalendar';
+import { formatDateStr, parseDateStr } from './dates';
 
+// Class counts are attendance units — a lab slot adds its full weight
 export interface SubjectImpact {
   code: string;
   name: string;
@@ -19,8 +23,11 @@ export interface VacationDay {
   dateStr: string; // YYYY-MM-DD
   jsDay: number; // 0=Sun..6=Sat
   timetableDayIndex: number; // 0=Mon..5=Sat, -1 for Sunday
+  slots: TimetableSlot[]; // resolved for this date, including rotations
   isSunday: boolean;
-  isHoliday: boolean;
+  isHoliday: boolean; // no classes per the academic calendar
+  calendarEvent: CalendarEvent | null;
+  isOutsideSemester: boolean;
 }
 
 export interface VacationImpactResult {
@@ -39,11 +46,14 @@ export interface VacationWindow {
   penalty: number;
 }
 
-function formatDateStr(d: Date): string {
-  const y = d.getFullYear();
-  const m = String(d.getMonth() + 1).padStart(2, '0');
-  const day = String(d.getDate()).padStart(2, '0');
-  return `${y}-${m}-${day}`;
+/**
+ * How much a missed class costs, by how far the subject sits above its
+ * threshold: already below counts triple, within 5% counts double.
+ */
+export function getPenaltyWeight(margin: number): number {
+  if (margin < 0) return 3;
+  if (margin < 5) return 2;
+  return 1;
 }
 
 /**
@@ -52,7 +62,9 @@ function formatDateStr(d: Date): string {
 export function getVacationDays(
   startDate: Date,
   endDate: Date,
-  holidays: Set<string>,
+  timetable: Timetable,
+  rotation: TimetableRotation | null,
+  calendar: AcademicCalendar,
 ): VacationDay[] {
   const days: VacationDay[] = [];
   const current = new Date(startDate);
@@ -68,8 +80,11 @@ export function getVacationDays(
       dateStr,
       jsDay,
       timetableDayIndex: jsDay === 0 ? -1 : jsDay - 1,
+      slots: getSlotsForDate(timetable, rotation, current),
       isSunday: jsDay === 0,
-      isHoliday: holidays.has(dateStr),
+      isHoliday: isNoClassDay(calendar, current),
+      calendarEvent: getCalendarEvent(calendar, current),
+      isOutsideSemester: isOutsideSemester(calendar, current),
     });
     current.setDate(current.getDate() + 1);
   }
@@ -78,13 +93,16 @@ export function getVacationDays(
 
 /**
  * Count classes per subject between two dates (exclusive of both boundaries)
- * using the timetable. Used to estimate classes a student will attend
- * before a vacation starts.
+ * using the timetable, skipping no-class days in the academic calendar.
+ * Used to estimate classes a student will attend before a vacation starts,
+ * and by the semester forecast.
  */
-function countClassesBetween(
+export function countClassesBetween(
   fromDate: Date,
   toDate: Date,
   timetable: Timetable,
+  rotation: TimetableRotation | null,
+  calendar: AcademicCalendar,
 ): Record<string, number> {
   const counts: Record<string, number> = {};
   const current = new Date(fromDate);
@@ -94,13 +112,13 @@ function countClassesBetween(
   end.setHours(0, 0, 0, 0); // up to but not including toDate
 
   while (current < end) {
-    const jsDay = current.getDay();
-    if (jsDay !== 0) { // skip Sundays
-      const timetableDayIndex = jsDay - 1;
-      const codes = timetable[timetableDayIndex] ?? [];
-      for (const code of codes) {
-        counts[code] = (counts[code] || 0) + 1;
-      }
+    if (isNoClassDay(calendar, current)) {
+      current.setDate(current.getDate() + 1);
+      continue;
+    }
+    const units = countSlotUnits(getSlotsForDate(timetable, rotation, current));
+    for (const [code, count] of Object.entries(units)) {
+      counts[code] = (counts[code] || 0) + count;
     }
     current.setDate(current.getDate() + 1);
   }
@@ -114,6 +132,8 @@ function countClassesBetween(
 export function calculateVacationImpact(
   vacationDays: VacationDay[],
   timetable: Timetable,
+  rotation: TimetableRotation | null,
+  calendar: AcademicCalendar,
   subjectMap: Map<string, Subject>,
   globalThreshold: number,
   subjectThresholds: Record<string, number>,
@@ -125,12 +145,12 @@ export function calculateVacationImpact(
 
   for (const day of vacationDays) {
     if (day.isSunday || day.isHoliday) continue;
-    const codes = timetable[day.timetableDayIndex] ?? [];
-    if (codes.length === 0) continue;
+    const slots = day.slots;
+    if (slots.length === 0) continue;
     activeDays++;
-    totalClasses += codes.length;
-    for (const code of codes) {
-      codeCount[code] = (codeCount[code] || 0) + 1;
+    totalClasses += totalSlotUnits(slots);
+    for (const [code, count] of Object.entries(countSlotUnits(slots))) {
+      codeCount[code] = (codeCount[code] || 0) + count;
     }
   }
 
@@ -140,7 +160,7 @@ export function calculateVacationImpact(
   today.setHours(0, 0, 0, 0);
   const vacationStart = vacationDays.length > 0 ? vacationDays[0].date : today;
   const preVacationClasses = vacationStart > today
-    ? countClassesBetween(today, vacationStart, timetable)
+    ? countClassesBetween(today, vacationStart, timetable, rotation, calendar)
     : {};
 
   const impacts: SubjectImpact[] = [];
@@ -205,10 +225,13 @@ export function calculateVacationImpact(
 }
 
 /**
- * Find best vacation windows by scanning upcoming weeks.
+ * Find best vacation windows by scanning upcoming weeks. Windows stop at the
+ * semester end, never overlap exams, and must actually skip some classes.
  */
 export function findBestVacationWindows(
   timetable: Timetable,
+  rotation: TimetableRotation | null,
+  calendar: AcademicCalendar,
   subjectMap: Map<string, Subject>,
   globalThreshold: number,
   subjectThresholds: Record<string, number>,
@@ -219,9 +242,12 @@ export function findBestVacationWindows(
   today.setHours(0, 0, 0, 0);
   const endScan = new Date(today);
   endScan.setDate(endScan.getDate() + weeksAhead * 7);
+  if (calendar.semesterEnd) {
+    const semesterEnd = parseDateStr(calendar.semesterEnd);
+    if (semesterEnd < endScan) endScan.setTime(semesterEnd.getTime());
+  }
 
   const candidates: VacationWindow[] = [];
-  const emptyHolidays = new Set<string>();
 
   for (const size of windowSizes) {
     const current = new Date(today);
@@ -232,10 +258,15 @@ export function findBestVacationWindows(
       windowEnd.setDate(windowEnd.getDate() + size - 1);
       if (windowEnd > endScan) break;
 
-      const days = getVacationDays(current, windowEnd, emptyHolidays);
+      const days = getVacationDays(current, windowEnd, timetable, rotation, calendar);
+      const hitsExams = days.some(d => d.calendarEvent?.kind === 'exam');
       const result = calculateVacationImpact(
-        days, timetable, subjectMap, globalThreshold, subjectThresholds,
+        days, timetable, rotation, calendar, subjectMap, globalThreshold, subjectThresholds,
       );
+      if (hitsExams || result.totalClasses === 0) {
+        current.setDate(current.getDate() + 1);
+        continue;
+      }
 
       // Score using weighted penalty (same formula as calculateDaySkipScore)
       let penalty = 0;
@@ -246,12 +277,7 @@ export function findBestVacationWindows(
         const threshold = getEffectiveThreshold(
           subject, globalThreshold, subjectThresholds,
         );
-        const margin = impact.currentPct - threshold;
-        let weight: number;
-        if (margin < 0) weight = 3;
-        else if (margin < 5) weight = 2;
-        else weight = 1;
-        penalty += impact.drop * weight * impact.classCount;
+        penalty += impact.drop * getPenaltyWeight(impact.currentPct - threshold) * impact.classCount;
       }
 
       const atRiskCount = result.impacts.filter(i => i.breachesThreshold && !i.isNoData).length;
@@ -0,0 +1,120 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PaymentRecord, SERVER_OWNED_FIELDS, UserData, UserDataUpdate } from './firestore';
+
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+
+export type SyncStatus = 'synced' | 'pending' | 'syncing' | 'offline';
+
+// Writes that haven't reached Firestore yet. Field updates are coalesced —
+// only the latest value of each field is kept — and payments are appended.
+export interface QueuedWrites {
+  pending: UserDataUpdate;
+  payments: PaymentRecord[];
+  attempts: number;
+}
+
+export const EMPTY_QUEUE: QueuedWrites = { pending: {}, payments: [], attempts: 0 };
+
+function queueKey(uid: string): string {
+  return `@writeQueue:${uid}`;
+}
+
+function cacheKey(uid: string): string {
+  return `@userDataCache:${uid}`;
+}
+
+export function isQueueEmpty(queue: QueuedWrites): boolean {
+  return Object.keys(queue.pending).length === 0 && queue.payments.length === 0;
+}
+
+export function coalesceWrites(
+  queue: QueuedWrites,
+  partial: UserDataUpdate,
+  payment?: PaymentRecord,
+): QueuedWrites {
+  return {
+    ...queue,
+    pending: { ...queue.pending, ...partial },
+    payments: payment ? [...queue.payments, payment] : queue.payments,
+  };
+}
+
+/**
+ * Drop what a successful flush wrote. Fields that changed again while the
+ * write was in flight stay queued for the next flush.
+ */
+export function removeFlushed(queue: QueuedWrites, flushed: QueuedWrites): QueuedWrites {
+  const pending = { ...queue.pending } as Record<string, unknown>;
+  const sent = flushed.pending as Record<string, unknown>;
+  for (const key of Object.keys(sent)) {
+    if (pending[key] === sent[key]) delete pending[key];
+  }
+  return {
+    pending: pending as UserDataUpdate,
+    payments: queue.payments.slice(flushed.payments.length),
+    attempts: 0,
+  };
+}
+
+// Exponential backoff: 2s, 4s, 8s… capped at five minutes, with some jitter
+// so a flaky connection doesn't retry in lockstep
+export function getRetryDelay(attempts: number): number {
+  const delay = Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1));
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+export async function loadQueuedWrites(uid: string): Promise<QueuedWrites> {
+  try {
+    const raw = await AsyncStorage.getItem(queueKey(uid));
+    if (!raw) return { ...EMPTY_QUEUE };
+    const queue: QueuedWrites = { ...EMPTY_QUEUE, ...JSON.parse(raw) };
+    // Older versions counted refreshes on the device and may have queued the count
+    const pending = { ...queue.pending } as Record<string, unknown>;
+    for (const field of SERVER_OWNED_FIELDS) delete pending[field];
+    return { ...queue, pending };
+  } catch {
+    return { ...EMPTY_QUEUE };
+  }
+}
+
+export async function saveQueuedWrites(uid: string, queue: QueuedWrites): Promise<void> {
+  if (isQueueEmpty(queue)) {
+    await AsyncStorage.removeItem(queueKey(uid)).catch(() => {});
+  } else {
+    await AsyncStorage.setItem(queueKey(uid), JSON.stringify(queue)).catch(() => {});
+  }
+}
+
+// ── Local copy of the user document ────────────────────────
+
+export async function loadCachedUserData(uid: string): Promise<UserData | null> {
+  try {
+    const raw = await AsyncStorage.getItem(cacheKey(uid));
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function saveCachedUserData(uid: string, data: UserData): Promise<void> {
+  await AsyncStorage.setItem(cacheKey(uid), JSON.stringify(data)).catch(() => {});
+}
+
+/**
+ * Fold local changes into the cached document so the next offline boot
+ * shows them.
+ */
+export async function updateCachedUserData(
+  uid: string,
+  partial: UserDataUpdate,
+  payment?: PaymentRecord,
+): Promise<void> {
+  const cached = await loadCachedUserData(uid);
+  if (!cached) return;
+  await saveCachedUserData(uid, {
+    ...cached,
+    ...partial,
+    payments: payment ? [...(cached.payments ?? []), payment] : cached.payments,
+  });
+}